@@ -0,0 +1,162 @@
+-- Initial Lahman schema: core tables and derived pitching views
+
+CREATE TABLE IF NOT EXISTS people (
+    playerID TEXT,
+    nameFirst TEXT,
+    nameLast TEXT,
+    PRIMARY KEY (playerID)
+);
+
+CREATE TABLE IF NOT EXISTS teams (
+    yearID INTEGER,
+    lgID TEXT,
+    teamID TEXT,
+    franchID TEXT,
+    divID TEXT,
+    name TEXT,
+    G INTEGER,
+    W INTEGER,
+    L INTEGER,
+    PRIMARY KEY (yearID, teamID)
+);
+
+CREATE TABLE IF NOT EXISTS pitching (
+    playerID TEXT,
+    yearID INTEGER,
+    stint INTEGER,
+    teamID TEXT,
+    lgID TEXT,
+    W INTEGER,
+    L INTEGER,
+    G INTEGER,
+    GS INTEGER,
+    SV INTEGER,
+    IPouts INTEGER,
+    H INTEGER,
+    ER INTEGER,
+    HR INTEGER,
+    BB INTEGER,
+    SO INTEGER,
+    HBP INTEGER,
+    ERA REAL,
+    PRIMARY KEY (playerID, yearID, teamID, stint),
+    FOREIGN KEY (playerID) REFERENCES people(playerID)
+);
+
+CREATE TABLE IF NOT EXISTS batting (
+    playerID TEXT,
+    yearID INTEGER,
+    stint INTEGER,
+    teamID TEXT,
+    lgID TEXT,
+    G INTEGER,
+    AB INTEGER,
+    R INTEGER,
+    H INTEGER,
+    doubles INTEGER,
+    triples INTEGER,
+    HR INTEGER,
+    RBI INTEGER,
+    SB INTEGER,
+    CS INTEGER,
+    BB INTEGER,
+    SO INTEGER,
+    IBB INTEGER,
+    HBP INTEGER,
+    SH INTEGER,
+    SF INTEGER,
+    GIDP INTEGER,
+    PRIMARY KEY (playerID, yearID, teamID, stint),
+    FOREIGN KEY (playerID) REFERENCES people(playerID)
+);
+
+CREATE TABLE IF NOT EXISTS fielding (
+    playerID TEXT,
+    yearID INTEGER,
+    stint INTEGER,
+    teamID TEXT,
+    lgID TEXT,
+    POS TEXT,
+    G INTEGER,
+    GS INTEGER,
+    InnOuts INTEGER,
+    PO INTEGER,
+    A INTEGER,
+    E INTEGER,
+    DP INTEGER,
+    PB INTEGER,
+    WP INTEGER,
+    SB INTEGER,
+    CS INTEGER,
+    ZR REAL,
+    PRIMARY KEY (playerID, yearID, teamID, stint, POS),
+    FOREIGN KEY (playerID) REFERENCES people(playerID)
+);
+
+CREATE TABLE IF NOT EXISTS appearances (
+    yearID INTEGER,
+    teamID TEXT,
+    lgID TEXT,
+    playerID TEXT,
+    G_all INTEGER,
+    GS INTEGER,
+    G_batting INTEGER,
+    G_defense INTEGER,
+    G_p INTEGER,
+    G_c INTEGER,
+    G_1b INTEGER,
+    G_2b INTEGER,
+    G_3b INTEGER,
+    G_ss INTEGER,
+    G_lf INTEGER,
+    G_cf INTEGER,
+    G_rf INTEGER,
+    G_of INTEGER,
+    G_dh INTEGER,
+    G_ph INTEGER,
+    G_pr INTEGER,
+    PRIMARY KEY (yearID, teamID, playerID),
+    FOREIGN KEY (playerID) REFERENCES people(playerID)
+);
+
+-- FIP uses a per-season constant that scales league-wide FIP to league-wide ERA
+CREATE VIEW IF NOT EXISTS league_pitching_constants AS
+SELECT
+    yearID,
+    SUM(IPouts) / 3.0 AS IP,
+    SUM(ER) * 27.0 / SUM(IPouts) AS lgERA,
+    SUM(ER) * 27.0 / SUM(IPouts)
+        - (13.0 * SUM(HR) + 3.0 * (SUM(BB) + SUM(COALESCE(HBP, 0))) - 2.0 * SUM(SO)) * 3.0 / SUM(IPouts) AS cFIP
+FROM pitching
+WHERE IPouts > 0
+GROUP BY yearID;
+
+CREATE VIEW IF NOT EXISTS pitching_advanced AS
+SELECT
+    p.playerID,
+    p.yearID,
+    p.stint,
+    p.teamID,
+    p.lgID,
+    p.W,
+    p.L,
+    p.G,
+    p.GS,
+    p.SV,
+    p.IPouts,
+    p.H,
+    p.ER,
+    p.HR,
+    p.BB,
+    p.SO,
+    p.HBP,
+    p.ERA,
+    ROUND(p.IPouts / 3.0, 2) AS IP,
+    ROUND((p.BB + p.H) * 3.0 / NULLIF(p.IPouts, 0), 3) AS WHIP,
+    ROUND(p.SO * 27.0 / NULLIF(p.IPouts, 0), 2) AS K9,
+    ROUND(p.BB * 27.0 / NULLIF(p.IPouts, 0), 2) AS BB9,
+    ROUND(p.HR * 27.0 / NULLIF(p.IPouts, 0), 2) AS HR9,
+    ROUND(p.SO * 1.0 / NULLIF(p.BB, 0), 2) AS KBB,
+    ROUND((13.0 * p.HR + 3.0 * (p.BB + COALESCE(p.HBP, 0)) - 2.0 * p.SO) * 3.0 / NULLIF(p.IPouts, 0) + c.cFIP, 2) AS FIP
+FROM pitching p
+LEFT JOIN league_pitching_constants c ON c.yearID = p.yearID;
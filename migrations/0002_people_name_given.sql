@@ -0,0 +1,3 @@
+-- Given names let the entity resolver match players by their full legal name
+
+ALTER TABLE people ADD COLUMN nameGiven TEXT;
@@ -0,0 +1,22 @@
+-- Full People.csv biographical record: birth and death, size, handedness and career span
+
+ALTER TABLE people ADD COLUMN birthYear INTEGER;
+ALTER TABLE people ADD COLUMN birthMonth INTEGER;
+ALTER TABLE people ADD COLUMN birthDay INTEGER;
+ALTER TABLE people ADD COLUMN birthCountry TEXT;
+ALTER TABLE people ADD COLUMN birthState TEXT;
+ALTER TABLE people ADD COLUMN birthCity TEXT;
+ALTER TABLE people ADD COLUMN deathYear INTEGER;
+ALTER TABLE people ADD COLUMN deathMonth INTEGER;
+ALTER TABLE people ADD COLUMN deathDay INTEGER;
+ALTER TABLE people ADD COLUMN deathCountry TEXT;
+ALTER TABLE people ADD COLUMN deathState TEXT;
+ALTER TABLE people ADD COLUMN deathCity TEXT;
+ALTER TABLE people ADD COLUMN weight INTEGER;
+ALTER TABLE people ADD COLUMN height INTEGER;
+ALTER TABLE people ADD COLUMN bats TEXT;
+ALTER TABLE people ADD COLUMN throws TEXT;
+ALTER TABLE people ADD COLUMN debut TEXT;
+ALTER TABLE people ADD COLUMN finalGame TEXT;
+ALTER TABLE people ADD COLUMN retroID TEXT;
+ALTER TABLE people ADD COLUMN bbrefID TEXT;
@@ -0,0 +1,41 @@
+-- Full Teams.csv season record: standings, offense, pitching, defense, park and attendance
+
+ALTER TABLE teams ADD COLUMN Rank INTEGER;
+ALTER TABLE teams ADD COLUMN Ghome INTEGER;
+ALTER TABLE teams ADD COLUMN DivWin TEXT;
+ALTER TABLE teams ADD COLUMN WCWin TEXT;
+ALTER TABLE teams ADD COLUMN LgWin TEXT;
+ALTER TABLE teams ADD COLUMN WSWin TEXT;
+ALTER TABLE teams ADD COLUMN R INTEGER;
+ALTER TABLE teams ADD COLUMN AB INTEGER;
+ALTER TABLE teams ADD COLUMN H INTEGER;
+ALTER TABLE teams ADD COLUMN doubles INTEGER;
+ALTER TABLE teams ADD COLUMN triples INTEGER;
+ALTER TABLE teams ADD COLUMN HR INTEGER;
+ALTER TABLE teams ADD COLUMN BB INTEGER;
+ALTER TABLE teams ADD COLUMN SO INTEGER;
+ALTER TABLE teams ADD COLUMN SB INTEGER;
+ALTER TABLE teams ADD COLUMN CS INTEGER;
+ALTER TABLE teams ADD COLUMN HBP INTEGER;
+ALTER TABLE teams ADD COLUMN SF INTEGER;
+ALTER TABLE teams ADD COLUMN RA INTEGER;
+ALTER TABLE teams ADD COLUMN ER INTEGER;
+ALTER TABLE teams ADD COLUMN ERA REAL;
+ALTER TABLE teams ADD COLUMN CG INTEGER;
+ALTER TABLE teams ADD COLUMN SHO INTEGER;
+ALTER TABLE teams ADD COLUMN SV INTEGER;
+ALTER TABLE teams ADD COLUMN IPouts INTEGER;
+ALTER TABLE teams ADD COLUMN HA INTEGER;
+ALTER TABLE teams ADD COLUMN HRA INTEGER;
+ALTER TABLE teams ADD COLUMN BBA INTEGER;
+ALTER TABLE teams ADD COLUMN SOA INTEGER;
+ALTER TABLE teams ADD COLUMN E INTEGER;
+ALTER TABLE teams ADD COLUMN DP INTEGER;
+ALTER TABLE teams ADD COLUMN FP REAL;
+ALTER TABLE teams ADD COLUMN park TEXT;
+ALTER TABLE teams ADD COLUMN attendance INTEGER;
+ALTER TABLE teams ADD COLUMN BPF INTEGER;
+ALTER TABLE teams ADD COLUMN PPF INTEGER;
+ALTER TABLE teams ADD COLUMN teamIDBR TEXT;
+ALTER TABLE teams ADD COLUMN teamIDlahman45 TEXT;
+ALTER TABLE teams ADD COLUMN teamIDretro TEXT;
@@ -0,0 +1,10 @@
+-- Verified question/SQL pairs added through /api/examples. Built-in examples
+-- live in workers/example_library.ts; embedding is a JSON array of floats.
+
+CREATE TABLE IF NOT EXISTS sql_examples (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    question TEXT NOT NULL,
+    sql TEXT NOT NULL,
+    embedding TEXT,
+    created_at TEXT NOT NULL
+);
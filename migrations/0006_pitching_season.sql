@@ -0,0 +1,56 @@
+-- One row per pitcher and season. Pitchers traded mid-season have a pitching
+-- row per team stint; this view sums their counting stats and recomputes ERA
+-- and the rate stats from the totals, so a stint's ERA is never read as the
+-- season's. teams lists the teams in stint order; lgID is 'ML' for a season
+-- split between leagues.
+
+CREATE VIEW IF NOT EXISTS pitching_season AS
+SELECT
+    s.playerID,
+    s.yearID,
+    s.stints,
+    s.teams,
+    s.lgID,
+    s.W,
+    s.L,
+    s.G,
+    s.GS,
+    s.SV,
+    s.IPouts,
+    s.H,
+    s.ER,
+    s.HR,
+    s.BB,
+    s.SO,
+    s.HBP,
+    ROUND(s.ER * 27.0 / NULLIF(s.IPouts, 0), 2) AS ERA,
+    ROUND(s.IPouts / 3.0, 2) AS IP,
+    ROUND((s.BB + s.H) * 3.0 / NULLIF(s.IPouts, 0), 3) AS WHIP,
+    ROUND(s.SO * 27.0 / NULLIF(s.IPouts, 0), 2) AS K9,
+    ROUND(s.BB * 27.0 / NULLIF(s.IPouts, 0), 2) AS BB9,
+    ROUND(s.HR * 27.0 / NULLIF(s.IPouts, 0), 2) AS HR9,
+    ROUND(s.SO * 1.0 / NULLIF(s.BB, 0), 2) AS KBB,
+    ROUND((13.0 * s.HR + 3.0 * (s.BB + COALESCE(s.HBP, 0)) - 2.0 * s.SO) * 3.0 / NULLIF(s.IPouts, 0) + c.cFIP, 2) AS FIP
+FROM (
+    SELECT
+        playerID,
+        yearID,
+        COUNT(*) AS stints,
+        GROUP_CONCAT(teamID, ',') AS teams,
+        CASE WHEN COUNT(DISTINCT lgID) > 1 THEN 'ML' ELSE MAX(lgID) END AS lgID,
+        SUM(W) AS W,
+        SUM(L) AS L,
+        SUM(G) AS G,
+        SUM(GS) AS GS,
+        SUM(SV) AS SV,
+        SUM(IPouts) AS IPouts,
+        SUM(H) AS H,
+        SUM(ER) AS ER,
+        SUM(HR) AS HR,
+        SUM(BB) AS BB,
+        SUM(SO) AS SO,
+        SUM(HBP) AS HBP
+    FROM (SELECT * FROM pitching ORDER BY playerID, yearID, stint)
+    GROUP BY playerID, yearID
+) s
+LEFT JOIN league_pitching_constants c ON c.yearID = s.yearID;
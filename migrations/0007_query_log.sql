@@ -0,0 +1,27 @@
+-- One row per /api/chat or /api/chat/stream request, written after the
+-- response for /api/admin/stats. question_key is the normalized question
+-- the answer cache uses, so rephrasings that only differ in case or
+-- punctuation are counted together. Timings are in milliseconds.
+
+CREATE TABLE IF NOT EXISTS query_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    request_id TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    route TEXT NOT NULL,
+    caller TEXT,
+    question TEXT NOT NULL,
+    question_key TEXT NOT NULL,
+    sql TEXT,
+    row_count INTEGER,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    cache_sql TEXT,
+    error_class TEXT,
+    error TEXT,
+    latency_ms INTEGER NOT NULL,
+    resolve_ms INTEGER,
+    generate_ms INTEGER,
+    execute_ms INTEGER,
+    format_ms INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_log_created_at ON query_log (created_at);
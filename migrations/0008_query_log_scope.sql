@@ -0,0 +1,5 @@
+-- How the question was classified before SQL generation: 'answerable', or
+-- 'ambiguous' / 'out_of_coverage' when a clarification was sent instead of
+-- an answer. NULL for rows logged before classification existed.
+
+ALTER TABLE query_log ADD COLUMN scope TEXT;
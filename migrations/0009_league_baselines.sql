@@ -0,0 +1,26 @@
+-- League pitching baselines by season and league, from team totals, for
+-- ERA+ and other league-relative stats. lgID 'ML' rows combine both leagues,
+-- for pitchers whose season was split between them (pitching_season.lgID).
+
+CREATE VIEW IF NOT EXISTS league_baselines AS
+SELECT
+    yearID,
+    lgID,
+    COUNT(*) AS teams,
+    SUM(IPouts) / 3.0 AS IP,
+    SUM(ER) * 27.0 / NULLIF(SUM(IPouts), 0) AS lgERA,
+    (SUM(HA) + SUM(BBA)) * 3.0 / NULLIF(SUM(IPouts), 0) AS lgWHIP,
+    SUM(SOA) * 27.0 / NULLIF(SUM(IPouts), 0) AS lgK9
+FROM teams
+GROUP BY yearID, lgID
+UNION ALL
+SELECT
+    yearID,
+    'ML' AS lgID,
+    COUNT(*) AS teams,
+    SUM(IPouts) / 3.0 AS IP,
+    SUM(ER) * 27.0 / NULLIF(SUM(IPouts), 0) AS lgERA,
+    (SUM(HA) + SUM(BBA)) * 3.0 / NULLIF(SUM(IPouts), 0) AS lgWHIP,
+    SUM(SOA) * 27.0 / NULLIF(SUM(IPouts), 0) AS lgK9
+FROM teams
+GROUP BY yearID;
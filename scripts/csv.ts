@@ -0,0 +1,97 @@
+/**
+ * Streaming RFC 4180 CSV reader
+ * Handles quoted fields with embedded commas, quotes ("") and line breaks,
+ * CRLF or LF line endings and a leading UTF-8 byte order mark.
+ */
+
+import { createReadStream } from 'fs';
+
+export interface CSVRecord {
+	/** 1-based line number the record starts on */
+	line: number;
+	fields: string[];
+}
+
+/**
+ * Yield the records of a CSV file one at a time, header included
+ */
+export async function* readCSVRecords(filePath: string): AsyncGenerator<CSVRecord> {
+	const stream = createReadStream(filePath, { encoding: 'utf-8' });
+
+	let fields: string[] = [];
+	let field = '';
+	let inQuotes = false;
+	let quoteInQuotes = false;
+	let skipLineFeed = false;
+	let atStart = true;
+	let line = 1;
+	let recordLine = 1;
+
+	const endRecord = (): CSVRecord | null => {
+		fields.push(field);
+		const record = { line: recordLine, fields };
+		fields = [];
+		field = '';
+		recordLine = line;
+		// Blank lines are not records
+		return record.fields.length === 1 && record.fields[0] === '' ? null : record;
+	};
+
+	for await (const chunk of stream as AsyncIterable<string>) {
+		let text = chunk;
+		if (atStart) {
+			text = text.replace(/^\uFEFF/, '');
+			atStart = false;
+		}
+
+		for (let i = 0; i < text.length; i++) {
+			const ch = text[i];
+
+			if (skipLineFeed) {
+				skipLineFeed = false;
+				if (ch === '\n') continue;
+			}
+
+			if (inQuotes) {
+				if (quoteInQuotes) {
+					quoteInQuotes = false;
+					if (ch === '"') {
+						field += '"';
+						continue;
+					}
+					// The previous quote closed the field; handle ch as unquoted input
+					inQuotes = false;
+				} else if (ch === '"') {
+					quoteInQuotes = true;
+					continue;
+				} else {
+					if (ch === '\n') line++;
+					field += ch;
+					continue;
+				}
+			}
+
+			if (ch === '"' && field === '') {
+				inQuotes = true;
+			} else if (ch === ',') {
+				fields.push(field);
+				field = '';
+			} else if (ch === '\n' || ch === '\r') {
+				line++;
+				skipLineFeed = ch === '\r';
+				const record = endRecord();
+				if (record) yield record;
+			} else {
+				field += ch;
+			}
+		}
+	}
+
+	if (inQuotes && !quoteInQuotes) {
+		throw new Error(`${filePath}: unterminated quoted field starting on line ${recordLine}`);
+	}
+	if (field !== '' || fields.length > 0) {
+		const record = endRecord();
+		if (record) yield record;
+	}
+}
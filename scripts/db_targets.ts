@@ -0,0 +1,71 @@
+/**
+ * Databases the seed script can load into directly: a SQLite file through
+ * the sqlite3 CLI, or a local (Miniflare) or remote D1 database through
+ * wrangler. Lets developers seed without running those tools by hand.
+ */
+
+import { spawnSync } from 'child_process';
+import { readFileSync } from 'fs';
+import { basename } from 'path';
+
+export type DatabaseTarget = 'sqlite' | 'd1-local' | 'd1-remote';
+
+/**
+ * Apply SQL chunk files to the target database in order
+ */
+export function applyChunks(target: DatabaseTarget, database: string, files: string[]): void {
+	for (const file of files) {
+		console.log(`   ↳ ${basename(file)}`);
+		if (target === 'sqlite') {
+			runSQLite(database, readFileSync(file, 'utf-8'));
+		} else {
+			runWrangler(target, database, [`--file=${file}`]);
+		}
+	}
+}
+
+/**
+ * Run a single query against the target database and return its rows
+ */
+export function queryRows<T = Record<string, unknown>>(target: DatabaseTarget, database: string, sql: string): T[] {
+	if (target === 'sqlite') {
+		const output = runSQLite(database, sql, ['-json']);
+		return output.trim() ? JSON.parse(output) as T[] : [];
+	}
+
+	const output = runWrangler(target, database, ['--json', `--command=${sql}`]);
+	const json = output.slice(output.indexOf('['));
+	const [result] = JSON.parse(json) as { results: T[] }[];
+	return result?.results || [];
+}
+
+function runSQLite(database: string, input: string, flags: string[] = []): string {
+	const result = spawnSync('sqlite3', ['-bail', ...flags, database], {
+		input,
+		encoding: 'utf-8',
+		maxBuffer: 64 * 1024 * 1024,
+	});
+	if (result.error) {
+		throw new Error(`Could not run sqlite3 (${result.error.message}); is it installed and on PATH?`);
+	}
+	if (result.status !== 0) {
+		throw new Error(`sqlite3 failed: ${result.stderr.trim()}`);
+	}
+	return result.stdout;
+}
+
+function runWrangler(target: 'd1-local' | 'd1-remote', database: string, args: string[]): string {
+	const location = target === 'd1-local' ? '--local' : '--remote';
+	const result = spawnSync(
+		'npx',
+		['--no-install', 'wrangler', 'd1', 'execute', database, location, '--yes', ...args],
+		{ encoding: 'utf-8', maxBuffer: 64 * 1024 * 1024, shell: process.platform === 'win32' }
+	);
+	if (result.error) {
+		throw new Error(`Could not run wrangler (${result.error.message})`);
+	}
+	if (result.status !== 0) {
+		throw new Error(`wrangler d1 execute failed: ${(result.stderr || result.stdout).trim()}`);
+	}
+	return result.stdout;
+}
@@ -0,0 +1,121 @@
+/**
+ * Stand-ins for the Workers AI binding used by the evaluation runner: the
+ * real model over the Cloudflare REST API (optionally recording replies),
+ * replayed recordings, or a stub that answers with each golden query.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+
+export type EvalAIMode = 'remote' | 'recorded' | 'reference';
+
+interface RunInputs {
+	messages: { role: string; content: string }[];
+}
+
+interface Recording {
+	question: string;
+	response: string;
+}
+
+export interface EvalAIOptions {
+	recordingsFile: string;
+	/** Remote mode only: save every reply to recordingsFile */
+	record: boolean;
+	/** Reference mode: golden SQL by question */
+	reference: Map<string, string>;
+}
+
+export interface EvalAI {
+	ai: Ai;
+	/** Write recordings gathered during the run, if recording */
+	save(): void;
+}
+
+export function createEvalAI(mode: EvalAIMode, options: EvalAIOptions): EvalAI {
+	const recordings = loadRecordings(options.recordingsFile, mode === 'recorded');
+	let recorded = 0;
+
+	const run = async (model: string, inputs: RunInputs): Promise<{ response: string }> => {
+		const question = lastUserMessage(inputs);
+
+		if (mode === 'reference') {
+			const sql = options.reference.get(question);
+			if (!sql) throw new Error(`No golden query for "${question}"`);
+			return { response: sql };
+		}
+
+		// Keyed on the full prompt, so a changed SYSTEM_PROMPT or model needs new recordings
+		const key = recordingKey(model, inputs);
+		if (mode === 'recorded') {
+			const recording = recordings[key];
+			if (!recording) {
+				throw new Error(`No recorded response for "${question}"; record one with --ai=remote --record`);
+			}
+			return { response: recording.response };
+		}
+
+		const response = await runRemote(model, inputs);
+		if (options.record) {
+			recordings[key] = { question, response };
+			recorded++;
+		}
+		return { response };
+	};
+
+	return {
+		ai: { run } as unknown as Ai,
+		save() {
+			if (recorded === 0) return;
+			writeFileSync(options.recordingsFile, `${JSON.stringify(recordings, null, '\t')}\n`);
+			console.log(`💾 Saved ${recorded} recorded responses to ${options.recordingsFile}`);
+		},
+	};
+}
+
+/**
+ * Call Workers AI over the REST API with the same credentials wrangler uses
+ */
+async function runRemote(model: string, inputs: RunInputs): Promise<string> {
+	const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
+	const token = process.env.CLOUDFLARE_API_TOKEN;
+	if (!accountId || !token) {
+		throw new Error('--ai=remote needs CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_API_TOKEN');
+	}
+
+	const response = await fetch(`https://api.cloudflare.com/client/v4/accounts/${accountId}/ai/run/${model}`, {
+		method: 'POST',
+		headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+		body: JSON.stringify(inputs),
+	});
+	const body = await response.json() as {
+		success: boolean;
+		result?: { response: string };
+		errors?: { message: string }[];
+	};
+	if (!response.ok || !body.success || !body.result) {
+		const reason = body.errors?.map(error => error.message).join('; ') || response.statusText;
+		throw new Error(`Workers AI request failed (${response.status}): ${reason}`);
+	}
+	return body.result.response;
+}
+
+function loadRecordings(file: string, required: boolean): Record<string, Recording> {
+	if (!existsSync(file)) {
+		if (required) {
+			throw new Error(`No recordings at ${file}; record them first with --ai=remote --record`);
+		}
+		return {};
+	}
+	return JSON.parse(readFileSync(file, 'utf-8')) as Record<string, Recording>;
+}
+
+function recordingKey(model: string, inputs: RunInputs): string {
+	return createHash('sha256').update(JSON.stringify([model, inputs])).digest('hex').slice(0, 16);
+}
+
+/** The question itself, without the context blocks appended after a blank line */
+function lastUserMessage(inputs: RunInputs): string {
+	const user = inputs.messages.filter(message => message.role === 'user');
+	return (user[user.length - 1]?.content || '').split('\n\n')[0];
+}
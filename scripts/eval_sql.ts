@@ -0,0 +1,297 @@
+/**
+ * Offline NL-to-SQL evaluation
+ * Run with: npm run eval [-- options]
+ *
+ * Sends each question in the golden set through generateSQL, runs the SQL
+ * with executeQuery against a local SQLite copy of the seed (npm run
+ * seed:sqlite), and compares the result set with the one the golden query
+ * returns. Column names and extra columns are ignored, and row order only
+ * counts for cases marked "ordered". Reports execution accuracy, error rate
+ * and latency, so prompt and model changes can be compared run to run. The
+ * model is picked with the same SQL_PROVIDER, SQL_MODEL etc. env vars as the
+ * Worker (see workers/model_provider.ts).
+ *
+ * Options:
+ *   --database=FILE     SQLite database (default lahman_ai.sqlite)
+ *   --golden=FILE       golden question set (default eval/golden.json)
+ *   --ai=MODE           remote (Workers AI REST API, default), recorded or reference
+ *   --recordings=FILE   recorded responses (default eval/recordings.json)
+ *   --record            with --ai=remote, save responses for later --ai=recorded runs
+ *   --only=ID,ID        run only these cases
+ *   --report=FILE       also write the full results as JSON
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { performance } from 'perf_hooks';
+import { validateQuery } from '../workers/sql_guard';
+import { selectExamples } from '../workers/example_library';
+import { StageModel, createStageModel } from '../workers/model_provider';
+import { findQualification } from '../workers/qualification';
+import { executeQuery, generateSQL } from '../workers/sql_generation';
+import { queryRows } from './db_targets';
+import { EvalAIMode, createEvalAI } from './eval_ai';
+
+/** Numbers are compared at this many decimal places */
+const DECIMAL_PLACES = 2;
+
+interface EvalOptions {
+	database: string;
+	golden: string;
+	ai: EvalAIMode;
+	recordings: string;
+	record: boolean;
+	only: string[];
+	report: string | null;
+}
+
+interface GoldenCase {
+	id: string;
+	question: string;
+	/** Reference query whose result set is the expected answer */
+	sql: string;
+	/** Whether row order is part of the answer */
+	ordered?: boolean;
+}
+
+type CaseStatus = 'match' | 'mismatch' | 'error' | 'skipped';
+
+interface CaseResult {
+	id: string;
+	question: string;
+	status: CaseStatus;
+	sql: string | null;
+	error: string | null;
+	expectedRows: number | null;
+	actualRows: number | null;
+	generateMs: number | null;
+	executeMs: number | null;
+}
+
+function parseArgs(argv: string[]): EvalOptions {
+	const options: EvalOptions = {
+		database: 'lahman_ai.sqlite',
+		golden: 'eval/golden.json',
+		ai: 'remote',
+		recordings: 'eval/recordings.json',
+		record: false,
+		only: [],
+		report: null,
+	};
+
+	for (const arg of argv) {
+		const [flag, value] = arg.split('=', 2);
+		switch (flag) {
+			case '--database':
+				options.database = value;
+				break;
+			case '--golden':
+				options.golden = value;
+				break;
+			case '--ai':
+				if (value !== 'remote' && value !== 'recorded' && value !== 'reference') {
+					throw new Error(`Unknown --ai "${value}" (expected remote, recorded or reference)`);
+				}
+				options.ai = value;
+				break;
+			case '--recordings':
+				options.recordings = value;
+				break;
+			case '--record':
+				options.record = true;
+				break;
+			case '--only':
+				options.only = value.split(',');
+				break;
+			case '--report':
+				options.report = value;
+				break;
+			default:
+				throw new Error(`Unknown option ${arg}`);
+		}
+	}
+
+	if (options.record && options.ai !== 'remote') {
+		throw new Error('--record only applies to --ai=remote');
+	}
+	return options;
+}
+
+/**
+ * Just enough of D1Database for executeQuery, backed by the sqlite3 CLI
+ */
+function sqliteDatabase(file: string): D1Database {
+	const prepare = (sql: string) => ({
+		all: async () => ({ results: queryRows('sqlite', file, sql), success: true, meta: {} }),
+	});
+	return { prepare } as unknown as D1Database;
+}
+
+async function runCase(db: D1Database, model: StageModel, golden: GoldenCase): Promise<CaseResult> {
+	const result: CaseResult = {
+		id: golden.id,
+		question: golden.question,
+		status: 'error',
+		sql: null,
+		error: null,
+		expectedRows: null,
+		actualRows: null,
+		generateMs: null,
+		executeMs: null,
+	};
+
+	let expected: any[];
+	try {
+		expected = await executeQuery(db, validateQuery(golden.sql).sql);
+		result.expectedRows = expected.length;
+	} catch (error: any) {
+		result.status = 'skipped';
+		result.error = `Golden query failed: ${error.message}`;
+		return result;
+	}
+
+	try {
+		// Without an AI binding, examples are picked by lexical similarity
+		const examples = await selectExamples(db, undefined, golden.question);
+		const qualification = await findQualification(db, golden.question, process.env);
+
+		let start = performance.now();
+		result.sql = await generateSQL(model, golden.question, [], [], [], examples, qualification);
+		result.generateMs = Math.round(performance.now() - start);
+
+		start = performance.now();
+		const actual = await executeQuery(db, validateQuery(result.sql).sql);
+		result.executeMs = Math.round(performance.now() - start);
+		result.actualRows = actual.length;
+
+		result.status = resultSetsMatch(expected, actual, golden.ordered === true) ? 'match' : 'mismatch';
+	} catch (error: any) {
+		result.error = error.message;
+	}
+	return result;
+}
+
+/**
+ * Every expected column must appear among the actual columns with the same
+ * values, and the rows must agree once projected onto those columns
+ */
+function resultSetsMatch(expected: any[], actual: any[], ordered: boolean): boolean {
+	if (expected.length !== actual.length) return false;
+	if (expected.length === 0) return true;
+
+	const expectedColumns = columnValues(expected);
+	const actualColumns = columnValues(actual);
+	const mapping: number[] = [];
+	for (const column of expectedColumns) {
+		const index = actualColumns.findIndex(
+			(candidate, i) => !mapping.includes(i) && sameValues(column, candidate, ordered)
+		);
+		if (index === -1) return false;
+		mapping.push(index);
+	}
+
+	// Ordered columns matched position by position, so the rows already agree
+	if (ordered) return true;
+
+	const rowKeys = (columns: string[][]) =>
+		columns[0].map((_, row) => JSON.stringify(columns.map(column => column[row]))).sort();
+	const expectedRows = rowKeys(expectedColumns);
+	const actualRows = rowKeys(mapping.map(index => actualColumns[index]));
+	return expectedRows.every((row, i) => row === actualRows[i]);
+}
+
+function columnValues(rows: Record<string, unknown>[]): string[][] {
+	return Object.keys(rows[0]).map(name => rows.map(row => normalizeValue(row[name])));
+}
+
+function sameValues(a: string[], b: string[], ordered: boolean): boolean {
+	const left = ordered ? a : [...a].sort();
+	const right = ordered ? b : [...b].sort();
+	return left.every((value, i) => value === right[i]);
+}
+
+function normalizeValue(value: unknown): string {
+	if (value === null || value === undefined) return 'null';
+	const number = typeof value === 'number' ? value : Number(value);
+	if (typeof value !== 'boolean' && String(value).trim() !== '' && Number.isFinite(number)) {
+		return String(Number(number.toFixed(DECIMAL_PLACES)));
+	}
+	return String(value).trim();
+}
+
+function percentile(values: number[], p: number): number {
+	if (values.length === 0) return 0;
+	const sorted = [...values].sort((a, b) => a - b);
+	return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function formatPercent(count: number, total: number): string {
+	return total === 0 ? 'n/a' : `${((count / total) * 100).toFixed(1)}% (${count}/${total})`;
+}
+
+async function main() {
+	const options = parseArgs(process.argv.slice(2));
+
+	if (!existsSync(options.database)) {
+		throw new Error(`No SQLite database at ${options.database}; create one with npm run seed:sqlite`);
+	}
+	let cases = JSON.parse(readFileSync(options.golden, 'utf-8')) as GoldenCase[];
+	if (options.only.length > 0) {
+		cases = cases.filter(golden => options.only.includes(golden.id));
+	}
+
+	const evalAI = createEvalAI(options.ai, {
+		recordingsFile: options.recordings,
+		record: options.record,
+		reference: new Map(cases.map(golden => [golden.question, golden.sql])),
+	});
+	// SQL_PROVIDER, SQL_MODEL etc. select the model as in the Worker; --ai only
+	// swaps the binding behind the workers-ai provider
+	const model = createStageModel({ ...process.env, AI: evalAI.ai }, 'sql');
+	const db = sqliteDatabase(options.database);
+
+	console.log(`🧪 Evaluating ${cases.length} questions with ${model.provider.name} ${model.settings.model} (--ai=${options.ai})\n`);
+	const results: CaseResult[] = [];
+	for (const golden of cases) {
+		const result = await runCase(db, model, golden);
+		results.push(result);
+		console.log(`   ${result.status.padEnd(8)} ${golden.id}${result.error ? ` - ${result.error}` : ''}`);
+	}
+	evalAI.save();
+
+	const scored = results.filter(result => result.status !== 'skipped');
+	const count = (status: CaseStatus) => results.filter(result => result.status === status).length;
+	const latencies = scored
+		.filter(result => result.executeMs !== null)
+		.map(result => result.generateMs! + result.executeMs!);
+	const summary = {
+		provider: model.provider.name,
+		model: model.settings.model,
+		ai: options.ai,
+		questions: scored.length,
+		skipped: count('skipped'),
+		executionAccuracy: scored.length ? count('match') / scored.length : 0,
+		errorRate: scored.length ? count('error') / scored.length : 0,
+		latencyMs: {
+			mean: latencies.length ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length) : 0,
+			p50: percentile(latencies, 50),
+			p95: percentile(latencies, 95),
+		},
+	};
+
+	console.log(`\n📊 Execution accuracy: ${formatPercent(count('match'), scored.length)}`);
+	console.log(`   Error rate:         ${formatPercent(count('error'), scored.length)}`);
+	console.log(`   Latency (ms):       mean ${summary.latencyMs.mean}, p50 ${summary.latencyMs.p50}, p95 ${summary.latencyMs.p95}`);
+	if (summary.skipped > 0) {
+		console.log(`   ⚠️  ${summary.skipped} golden ${summary.skipped === 1 ? 'query' : 'queries'} failed against ${options.database} and skipped`);
+	}
+
+	if (options.report) {
+		writeFileSync(options.report, `${JSON.stringify({ summary, results }, null, '\t')}\n`);
+		console.log(`\n💾 Wrote ${options.report}`);
+	}
+}
+
+main().catch(error => {
+	console.error(error);
+	process.exit(1);
+});
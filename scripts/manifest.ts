@@ -0,0 +1,224 @@
+/**
+ * Declarative description of every table loaded by the seed script:
+ * which CSV it comes from, each column's SQL type and the primary key
+ * used for upserts. The tables themselves are created by migrations/;
+ * keep this file, the migrations and workers/schema.ts in sync.
+ */
+
+export type ColumnType = 'TEXT' | 'INTEGER' | 'REAL';
+
+export interface ColumnSpec {
+	name: string;
+	type: ColumnType;
+	/** CSV header when it differs from the column name (e.g. 2B -> doubles) */
+	source?: string;
+}
+
+export interface TableManifest {
+	table: string;
+	/** CSV file inside data/ */
+	file: string;
+	columns: ColumnSpec[];
+	primaryKey: string[];
+}
+
+const text = (name: string, options: Partial<ColumnSpec> = {}): ColumnSpec => ({ name, type: 'TEXT', ...options });
+const int = (name: string, options: Partial<ColumnSpec> = {}): ColumnSpec => ({ name, type: 'INTEGER', ...options });
+const real = (name: string, options: Partial<ColumnSpec> = {}): ColumnSpec => ({ name, type: 'REAL', ...options });
+
+/** Tables in load order (referenced tables first) */
+export const TABLES: TableManifest[] = [
+	{
+		table: 'people',
+		file: 'People.csv',
+		columns: [
+			text('playerID'),
+			text('nameFirst'),
+			text('nameLast'),
+			text('nameGiven'),
+			int('birthYear'),
+			int('birthMonth'),
+			int('birthDay'),
+			text('birthCountry'),
+			text('birthState'),
+			text('birthCity'),
+			int('deathYear'),
+			int('deathMonth'),
+			int('deathDay'),
+			text('deathCountry'),
+			text('deathState'),
+			text('deathCity'),
+			int('weight'),
+			int('height'),
+			text('bats'),
+			text('throws'),
+			text('debut'),
+			text('finalGame'),
+			text('retroID'),
+			text('bbrefID'),
+		],
+		primaryKey: ['playerID'],
+	},
+	{
+		table: 'teams',
+		file: 'Teams.csv',
+		columns: [
+			int('yearID'),
+			text('lgID'),
+			text('teamID'),
+			text('franchID'),
+			text('divID'),
+			text('name'),
+			int('G'),
+			int('W'),
+			int('L'),
+			int('Rank'),
+			int('Ghome'),
+			text('DivWin'),
+			text('WCWin'),
+			text('LgWin'),
+			text('WSWin'),
+			int('R'),
+			int('AB'),
+			int('H'),
+			int('doubles', { source: '2B' }),
+			int('triples', { source: '3B' }),
+			int('HR'),
+			int('BB'),
+			int('SO'),
+			int('SB'),
+			int('CS'),
+			int('HBP'),
+			int('SF'),
+			int('RA'),
+			int('ER'),
+			real('ERA'),
+			int('CG'),
+			int('SHO'),
+			int('SV'),
+			int('IPouts'),
+			int('HA'),
+			int('HRA'),
+			int('BBA'),
+			int('SOA'),
+			int('E'),
+			int('DP'),
+			real('FP'),
+			text('park'),
+			int('attendance'),
+			int('BPF'),
+			int('PPF'),
+			text('teamIDBR'),
+			text('teamIDlahman45'),
+			text('teamIDretro'),
+		],
+		primaryKey: ['yearID', 'teamID'],
+	},
+	{
+		table: 'pitching',
+		file: 'Pitching.csv',
+		columns: [
+			text('playerID'),
+			int('yearID'),
+			int('stint'),
+			text('teamID'),
+			text('lgID'),
+			int('W'),
+			int('L'),
+			int('G'),
+			int('GS'),
+			int('SV'),
+			int('IPouts'),
+			int('H'),
+			int('ER'),
+			int('HR'),
+			int('BB'),
+			int('SO'),
+			int('HBP'),
+			real('ERA'),
+		],
+		primaryKey: ['playerID', 'yearID', 'teamID', 'stint'],
+	},
+	{
+		table: 'batting',
+		file: 'Batting.csv',
+		columns: [
+			text('playerID'),
+			int('yearID'),
+			int('stint'),
+			text('teamID'),
+			text('lgID'),
+			int('G'),
+			int('AB'),
+			int('R'),
+			int('H'),
+			int('doubles', { source: '2B' }),
+			int('triples', { source: '3B' }),
+			int('HR'),
+			int('RBI'),
+			int('SB'),
+			int('CS'),
+			int('BB'),
+			int('SO'),
+			int('IBB'),
+			int('HBP'),
+			int('SH'),
+			int('SF'),
+			int('GIDP'),
+		],
+		primaryKey: ['playerID', 'yearID', 'teamID', 'stint'],
+	},
+	{
+		table: 'fielding',
+		file: 'Fielding.csv',
+		columns: [
+			text('playerID'),
+			int('yearID'),
+			int('stint'),
+			text('teamID'),
+			text('lgID'),
+			text('POS'),
+			int('G'),
+			int('GS'),
+			int('InnOuts'),
+			int('PO'),
+			int('A'),
+			int('E'),
+			int('DP'),
+			int('PB'),
+			int('WP'),
+			int('SB'),
+			int('CS'),
+			real('ZR'),
+		],
+		primaryKey: ['playerID', 'yearID', 'teamID', 'stint', 'POS'],
+	},
+	{
+		table: 'appearances',
+		file: 'Appearances.csv',
+		columns: [
+			int('yearID'),
+			text('teamID'),
+			text('lgID'),
+			text('playerID'),
+			int('G_all'),
+			int('GS'),
+			int('G_batting'),
+			int('G_defense'),
+			int('G_p'),
+			int('G_c'),
+			int('G_1b'),
+			int('G_2b'),
+			int('G_3b'),
+			int('G_ss'),
+			int('G_lf'),
+			int('G_cf'),
+			int('G_rf'),
+			int('G_of'),
+			int('G_dh'),
+			int('G_ph'),
+			int('G_pr'),
+		],
+		primaryKey: ['yearID', 'teamID', 'playerID'],
+	},
+];
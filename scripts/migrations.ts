@@ -0,0 +1,67 @@
+/**
+ * Versioned schema migrations
+ * Files in migrations/ are named NNNN_description.sql and applied in order.
+ * Applied versions are recorded in the schema_migrations table.
+ */
+
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+
+const MIGRATION_FILE_PATTERN = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+
+export interface Migration {
+	version: number;
+	name: string;
+	sql: string;
+}
+
+/**
+ * Tables that track seeding state; created before any migration runs.
+ * data_version changes whenever a seed run changes data or schema, and keys
+ * the worker's answer cache.
+ */
+export const STATE_TABLES_SQL = [
+	`CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at TEXT NOT NULL
+);`,
+	`CREATE TABLE IF NOT EXISTS seed_report (
+    run_id TEXT NOT NULL,
+    table_name TEXT NOT NULL,
+    inserted INTEGER NOT NULL,
+    updated INTEGER NOT NULL,
+    unchanged INTEGER NOT NULL,
+    PRIMARY KEY (run_id, table_name)
+);`,
+	`CREATE TABLE IF NOT EXISTS data_version (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    version TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);`,
+];
+
+export function readMigrations(dir: string): Migration[] {
+	const migrations: Migration[] = [];
+	for (const file of readdirSync(dir) as string[]) {
+		const match = MIGRATION_FILE_PATTERN.exec(file);
+		if (!match) continue;
+		migrations.push({
+			version: parseInt(match[1], 10),
+			name: file.replace(/\.sql$/, ''),
+			sql: readFileSync(join(dir, file), 'utf-8').trim(),
+		});
+	}
+	return migrations.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Statements that apply a migration and record it as applied
+ */
+export function migrationStatements(migration: Migration): string[] {
+	return [
+		`-- Migration ${migration.name}`,
+		migration.sql,
+		`INSERT INTO schema_migrations (version, name, applied_at) VALUES (${migration.version}, '${migration.name}', datetime('now'));`,
+	];
+}
@@ -1,195 +1,431 @@
 /**
  * Seed script to import Lahman Baseball Database into Cloudflare D1
- * Run with: npm run seed
+ * Run with: npm run seed [-- options]
+ *
+ * Seeding is incremental: pending migrations from migrations/ are applied,
+ * CSV rows are loaded into staging tables and then upserted on each table's
+ * primary key, so re-running with a new Lahman release only touches rows
+ * that changed. Per-table counts are written to seed_report, and data_version
+ * is bumped when anything changed.
+ *
+ * Options:
+ *   --rows-per-insert=N   rows per multi-row INSERT statement (default 100)
+ *   --rows-per-chunk=N    rows per numbered chunk file (default 20000)
+ *   --out=DIR             directory for chunk files (default seed)
+ *   --no-transactions     do not wrap chunks in BEGIN/COMMIT (required for wrangler d1 execute)
+ *   --target=TARGET       files (default), sqlite, d1-local or d1-remote
+ *   --database=NAME       D1 database name, or file path for sqlite
+ *   --after-migration=N   files target only: migrations up to N are already applied
+ *                         (0 for a new database); overrides the record below
+ *
+ * The other targets read the applied migrations from schema_migrations. The
+ * files target cannot, so it records the migrations it has written in
+ * schema_migrations.json in the output directory and leaves them out of
+ * later runs, because ALTER TABLE ADD COLUMN fails when it runs twice.
  */
 
-import { readFileSync } from 'fs';
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs';
 import { join } from 'path';
+import { readCSVRecords } from './csv';
+import { DatabaseTarget, applyChunks, queryRows } from './db_targets';
+import { ColumnSpec, TABLES, TableManifest } from './manifest';
+import { Migration, STATE_TABLES_SQL, migrationStatements, readMigrations } from './migrations';
 
-interface CSVRow {
-	[key: string]: string;
+const MAX_REPORTED_REJECTIONS = 20;
+const CHUNK_FILE_PATTERN = /^\d{4}_[a-z0-9_]+\.sql$/;
+/** Migrations already written to chunk files, for the files target */
+const MIGRATION_RECORD_FILE = 'schema_migrations.json';
+
+type SeedTarget = 'files' | DatabaseTarget;
+
+interface SeedOptions {
+	rowsPerInsert: number;
+	rowsPerChunk: number;
+	outDir: string;
+	transactions: boolean;
+	target: SeedTarget;
+	database: string;
+	/** Set by --after-migration; null reads the files target's record */
+	afterMigration: number | null;
+}
+
+interface Chunk {
+	name: string;
+	statements: string[];
+}
+
+interface SeedReportRow {
+	table_name: string;
+	inserted: number;
+	updated: number;
+	unchanged: number;
+}
+
+interface Rejection {
+	line: number;
+	reason: string;
+}
+
+interface TableLoad {
+	/** SQL value tuples, e.g. ('aardsda01', 2015, 1) */
+	rows: string[];
+	rejected: Rejection[];
+}
+
+function parseArgs(argv: string[]): SeedOptions {
+	const options: SeedOptions = {
+		rowsPerInsert: 100,
+		rowsPerChunk: 20000,
+		outDir: 'seed',
+		transactions: true,
+		target: 'files',
+		database: 'lahman_ai',
+		afterMigration: null,
+	};
+
+	for (const arg of argv) {
+		const [flag, value] = arg.split('=', 2);
+		switch (flag) {
+			case '--rows-per-insert':
+				options.rowsPerInsert = parsePositiveInt(flag, value);
+				break;
+			case '--rows-per-chunk':
+				options.rowsPerChunk = parsePositiveInt(flag, value);
+				break;
+			case '--out':
+				options.outDir = value;
+				break;
+			case '--no-transactions':
+				options.transactions = false;
+				break;
+			case '--target':
+				if (value !== 'files' && value !== 'sqlite' && value !== 'd1-local' && value !== 'd1-remote') {
+					throw new Error(`Unknown --target "${value}" (expected files, sqlite, d1-local or d1-remote)`);
+				}
+				options.target = value;
+				break;
+			case '--database':
+				options.database = value;
+				break;
+			case '--after-migration':
+				options.afterMigration = parseNonNegativeInt(flag, value);
+				break;
+			default:
+				throw new Error(`Unknown option ${arg}`);
+		}
+	}
+
+	// D1 rejects explicit BEGIN/COMMIT in executed files
+	if (options.target === 'd1-local' || options.target === 'd1-remote') options.transactions = false;
+	if (options.target === 'sqlite' && !argv.some(arg => arg.startsWith('--database='))) {
+		options.database = 'lahman_ai.sqlite';
+	}
+
+	return options;
+}
+
+function parsePositiveInt(flag: string, value: string | undefined): number {
+	const parsed = Number(value);
+	if (!Number.isInteger(parsed) || parsed < 1) {
+		throw new Error(`${flag} expects a positive integer, got "${value}"`);
+	}
+	return parsed;
+}
+
+function parseNonNegativeInt(flag: string, value: string | undefined): number {
+	const parsed = value === '' ? NaN : Number(value);
+	if (!Number.isInteger(parsed) || parsed < 0) {
+		throw new Error(`${flag} expects a non-negative integer, got "${value}"`);
+	}
+	return parsed;
 }
 
 /**
- * Parse CSV file into array of objects
+ * Versions already recorded in schema_migrations; an empty list for a
+ * database that has never been seeded. For the files target, the versions
+ * up to --after-migration or those written by earlier runs.
  */
-function parseCSV(filePath: string): CSVRow[] {
-	const content = readFileSync(filePath, 'utf-8');
-	const lines = content.trim().split('\n');
-	const headers = lines[0].split(',').map(h => h.trim());
-
-	return lines.slice(1).map(line => {
-		// Simple CSV parser (doesn't handle quoted commas)
-		const values = line.split(',').map(v => v.trim());
-		const row: CSVRow = {};
-		headers.forEach((header, i) => {
-			row[header] = values[i] || '';
-		});
-		return row;
-	});
+function appliedMigrations(options: SeedOptions): Set<number> {
+	if (options.target === 'files') {
+		if (options.afterMigration !== null) {
+			return new Set(Array.from({ length: options.afterMigration }, (_, i) => i + 1));
+		}
+		const record = join(process.cwd(), options.outDir, MIGRATION_RECORD_FILE);
+		return new Set(existsSync(record) ? JSON.parse(readFileSync(record, 'utf-8')) as number[] : []);
+	}
+	try {
+		const rows = queryRows<{ version: number }>(options.target, options.database, 'SELECT version FROM schema_migrations');
+		return new Set(rows.map(row => row.version));
+	} catch (error: any) {
+		if (/no such table/i.test(error.message)) return new Set();
+		throw error;
+	}
 }
 
 /**
- * Generate SQL INSERT statements
+ * Convert a raw CSV value to a SQL literal of the column's declared type.
+ * Throws with a reason when the value does not fit the type.
  */
-function generateInserts(tableName: string, rows: CSVRow[], columns: string[]): string[] {
-	const statements: string[] = [];
+function toSQLValue(raw: string | undefined, column: ColumnSpec, required: boolean): string {
+	const value = raw ?? '';
+
+	if (value.trim() === '') {
+		if (required) throw new Error(`${column.name} is part of the primary key and cannot be empty`);
+		return 'NULL';
+	}
+
+	if (column.type === 'INTEGER') {
+		if (!/^-?\d+$/.test(value.trim())) {
+			throw new Error(`${column.name} expected INTEGER, got "${value}"`);
+		}
+		return String(parseInt(value, 10));
+	}
+
+	if (column.type === 'REAL') {
+		if (!/^-?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(value.trim())) {
+			throw new Error(`${column.name} expected REAL, got "${value}"`);
+		}
+		return value.trim();
+	}
 
-	for (const row of rows) {
-		const values = columns.map(col => {
-			const value = row[col];
-			// Handle NULL values and proper escaping
-			if (!value || value === '') return 'NULL';
-			// If it's a number, don't quote it
-			if (!isNaN(parseFloat(value)) && isFinite(Number(value))) {
-				return value;
+	// Escape single quotes for strings
+	return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Stream a CSV file into SQL value tuples for every valid row,
+ * collecting the rows that had to be rejected
+ */
+async function loadTable(dataDir: string, table: TableManifest): Promise<TableLoad> {
+	const filePath = join(dataDir, table.file);
+	const rows: string[] = [];
+	const rejected: Rejection[] = [];
+	let header: string[] | null = null;
+	let indexes: number[] = [];
+
+	for await (const record of readCSVRecords(filePath)) {
+		if (!header) {
+			header = record.fields.map(field => field.trim());
+			indexes = table.columns.map(column => header!.indexOf(column.source ?? column.name));
+			const missing = table.columns.filter((_, i) => indexes[i] === -1).map(column => column.source ?? column.name);
+			if (missing.length > 0) {
+				throw new Error(`${table.file} is missing columns: ${missing.join(', ')}`);
 			}
-			// Escape single quotes for strings
-			return `'${value.replace(/'/g, "''")}'`;
-		});
+			continue;
+		}
 
-		statements.push(
-			`INSERT INTO ${tableName} (${columns.join(', ')}) VALUES (${values.join(', ')});`
-		);
+		if (record.fields.length !== header.length) {
+			rejected.push({
+				line: record.line,
+				reason: `expected ${header.length} fields, found ${record.fields.length}`,
+			});
+			continue;
+		}
+
+		try {
+			const values = table.columns.map((column, i) =>
+				toSQLValue(record.fields[indexes[i]], column, table.primaryKey.includes(column.name))
+			);
+			rows.push(`(${values.join(', ')})`);
+		} catch (error: any) {
+			rejected.push({ line: record.line, reason: error.message });
+		}
 	}
 
+	return { rows, rejected };
+}
+
+function stagingTable(table: TableManifest): string {
+	return `_staging_${table.table}`;
+}
+
+/**
+ * Group value tuples into multi-row INSERT statements against the staging table
+ */
+function batchInserts(table: TableManifest, rows: string[], rowsPerInsert: number): string[] {
+	const columnNames = table.columns.map(column => column.name).join(', ');
+	const statements: string[] = [];
+	for (let i = 0; i < rows.length; i += rowsPerInsert) {
+		const batch = rows.slice(i, i + rowsPerInsert);
+		statements.push(`INSERT INTO ${stagingTable(table)} (${columnNames}) VALUES\n${batch.join(',\n')};`);
+	}
 	return statements;
 }
 
+/**
+ * Record inserted/updated/unchanged counts for a staged table, upsert it
+ * into the live table keyed on the primary key, and drop the staging table
+ */
+function mergeStatements(table: TableManifest, runId: string): string[] {
+	const staging = stagingTable(table);
+	const columns = table.columns.map(column => column.name);
+	const valueColumns = columns.filter(column => !table.primaryKey.includes(column));
+	const joinOn = table.primaryKey.map(key => `t.${key} = s.${key}`).join(' AND ');
+	const changed = valueColumns.length > 0
+		? valueColumns.map(column => `t.${column} IS NOT s.${column}`).join(' OR ')
+		: '0';
+	const missing = `t.${table.primaryKey[0]} IS NULL`;
+
+	const conflict = valueColumns.length > 0
+		? `DO UPDATE SET ${valueColumns.map(column => `${column} = excluded.${column}`).join(', ')}
+WHERE ${valueColumns.map(column => `${table.table}.${column} IS NOT excluded.${column}`).join(' OR ')}`
+		: 'DO NOTHING';
+
+	return [
+		`INSERT INTO seed_report (run_id, table_name, inserted, updated, unchanged)
+SELECT '${runId}', '${table.table}',
+    COALESCE(SUM(CASE WHEN ${missing} THEN 1 ELSE 0 END), 0),
+    COALESCE(SUM(CASE WHEN NOT ${missing} AND (${changed}) THEN 1 ELSE 0 END), 0),
+    COALESCE(SUM(CASE WHEN NOT ${missing} AND NOT (${changed}) THEN 1 ELSE 0 END), 0)
+FROM ${staging} s
+LEFT JOIN ${table.table} t ON ${joinOn};`,
+		`INSERT INTO ${table.table} (${columns.join(', ')})
+SELECT ${columns.join(', ')} FROM ${staging} WHERE true
+ON CONFLICT (${table.primaryKey.join(', ')}) ${conflict};`,
+		`DROP TABLE ${staging};`,
+	];
+}
+
+/**
+ * Bump data_version to this run when it applied migrations or changed any
+ * rows, so cached answers computed against the old data are not reused
+ */
+function dataVersionStatement(runId: string, migrated: boolean): string {
+	const changed = migrated
+		? 'true'
+		: `EXISTS (SELECT 1 FROM seed_report WHERE run_id = '${runId}' AND inserted + updated > 0)`;
+	return `INSERT INTO data_version (id, version, updated_at)
+SELECT 1, '${runId}', datetime('now')
+WHERE ${changed} OR NOT EXISTS (SELECT 1 FROM data_version)
+ON CONFLICT (id) DO UPDATE SET version = excluded.version, updated_at = excluded.updated_at;`;
+}
+
+/**
+ * Write numbered chunk files, replacing chunks from a previous run
+ */
+function writeChunks(outDir: string, chunks: Chunk[], transactions: boolean): string[] {
+	mkdirSync(outDir, { recursive: true });
+	for (const file of readdirSync(outDir)) {
+		if (CHUNK_FILE_PATTERN.test(file)) rmSync(join(outDir, file));
+	}
+
+	return chunks.map((chunk, i) => {
+		const path = join(outDir, `${String(i).padStart(4, '0')}_${chunk.name}.sql`);
+		const body = transactions
+			? ['BEGIN TRANSACTION;', ...chunk.statements, 'COMMIT;']
+			: chunk.statements;
+		writeFileSync(path, body.join('\n') + '\n', 'utf-8');
+		return path;
+	});
+}
+
+function reportRejections(table: TableManifest, rejected: Rejection[]): void {
+	if (rejected.length === 0) return;
+	console.warn(`⚠️  Rejected ${rejected.length} row(s) from ${table.file}:`);
+	for (const rejection of rejected.slice(0, MAX_REPORTED_REJECTIONS)) {
+		console.warn(`   line ${rejection.line}: ${rejection.reason}`);
+	}
+	if (rejected.length > MAX_REPORTED_REJECTIONS) {
+		console.warn(`   ... and ${rejected.length - MAX_REPORTED_REJECTIONS} more`);
+	}
+}
+
 async function main() {
+	const options = parseArgs(process.argv.slice(2));
+
 	console.log('🌱 Starting D1 database seeding...\n');
 
 	const dataDir = join(process.cwd(), 'data');
 
 	// Read CSV files
 	console.log('📂 Reading CSV files...');
-	const peopleData = parseCSV(join(dataDir, 'People.csv'));
-	const teamsData = parseCSV(join(dataDir, 'Teams.csv'));
-	const pitchingData = parseCSV(join(dataDir, 'Pitching.csv'));
-
-	console.log(`✅ Loaded ${peopleData.length} people`);
-	console.log(`✅ Loaded ${teamsData.length} teams`);
-	console.log(`✅ Loaded ${pitchingData.length} pitching records\n`);
+	const loads = new Map<string, TableLoad>();
+	for (const table of TABLES) {
+		const load = await loadTable(dataDir, table);
+		loads.set(table.table, load);
+		console.log(`✅ Loaded ${load.rows.length} ${table.table} rows`);
+		reportRejections(table, load.rejected);
+	}
 
 	// Generate SQL
-	console.log('🔨 Generating SQL statements...\n');
-
-	const sql: string[] = [];
-
-	// Drop existing tables
-	sql.push('DROP TABLE IF EXISTS pitching;');
-	sql.push('DROP TABLE IF EXISTS teams;');
-	sql.push('DROP TABLE IF EXISTS people;');
-	sql.push('');
-
-	// Create tables
-	sql.push(`CREATE TABLE people (
-    playerID TEXT PRIMARY KEY,
-    nameFirst TEXT,
-    nameLast TEXT
-);`);
-	sql.push('');
-
-	sql.push(`CREATE TABLE teams (
-    yearID INTEGER,
-    lgID TEXT,
-    teamID TEXT,
-    franchID TEXT,
-    divID TEXT,
-    name TEXT,
-    G INTEGER,
-    W INTEGER,
-    L INTEGER,
-    PRIMARY KEY (yearID, teamID)
-);`);
-	sql.push('');
-
-	sql.push(`CREATE TABLE pitching (
-    playerID TEXT,
-    yearID INTEGER,
-	stint INTEGER,
-    teamID TEXT,
-    lgID TEXT,
-    W INTEGER,
-    L INTEGER,
-    G INTEGER,
-    GS INTEGER,
-    SV INTEGER,
-    IPouts INTEGER,
-    H INTEGER,
-    ER INTEGER,
-    HR INTEGER,
-    BB INTEGER,
-    SO INTEGER,
-    ERA REAL,
-	PRIMARY KEY (playerID, yearID, teamID, stint),
-    FOREIGN KEY (playerID) REFERENCES people(playerID)
-);`);
-	sql.push('');
-
-	// Insert data
-	console.log('📝 Generating INSERT statements...');
-
-	// People inserts
-	sql.push('-- Insert people');
-	const peopleInserts = generateInserts('people', peopleData, [
-		'playerID',
-		'nameFirst',
-		'nameLast',
-	]);
-	sql.push(...peopleInserts);
-	sql.push('');
-
-	// Teams inserts
-	sql.push('-- Insert teams');
-	const teamsInserts = generateInserts('teams', teamsData, [
-		'yearID',
-		'lgID',
-		'teamID',
-		'franchID',
-		'divID',
-		'name',
-		'G',
-		'W',
-		'L',
-	]);
-	sql.push(...teamsInserts);
-	sql.push('');
-
-	// Pitching inserts
-	sql.push('-- Insert pitching');
-	const pitchingInserts = generateInserts('pitching', pitchingData, [
-		'playerID',
-		'yearID',
-		'stint',
-		'teamID',
-		'lgID',
-		'W',
-		'L',
-		'G',
-		'GS',
-		'SV',
-		'IPouts',
-		'H',
-		'ER',
-		'HR',
-		'BB',
-		'SO',
-		'ERA',
-	]);
-	sql.push(...pitchingInserts);
-
-	// Write to file
-	const outputPath = join(process.cwd(), 'seed.sql');
-	const fs = await import('fs');
-	fs.writeFileSync(outputPath, sql.join('\n'), 'utf-8');
-
-	console.log(`\n✅ SQL file generated: ${outputPath}`);
+	console.log('\n🔨 Generating SQL statements...\n');
+
+	const runId = new Date().toISOString();
+	const chunks: Chunk[] = [{ name: 'state', statements: STATE_TABLES_SQL }];
+
+	// Pending schema migrations
+	const applied = appliedMigrations(options);
+	const pending: Migration[] = readMigrations(join(process.cwd(), 'migrations')).filter(
+		migration => !applied.has(migration.version)
+	);
+	for (const migration of pending) {
+		chunks.push({ name: `migrate_${migration.name}`, statements: migrationStatements(migration) });
+	}
+	console.log(`🧱 ${pending.length} pending migration(s)${pending.length ? `: ${pending.map(m => m.name).join(', ')}` : ''}`);
+
+	// Empty staging tables shaped like the live ones
+	chunks.push({
+		name: 'stage',
+		statements: TABLES.flatMap(table => [
+			`DROP TABLE IF EXISTS ${stagingTable(table)};`,
+			`CREATE TABLE ${stagingTable(table)} AS SELECT * FROM ${table.table} WHERE 0;`,
+		]),
+	});
+
+	// Insert data into staging, split into chunks of at most rowsPerChunk rows
+	console.log(`📝 Generating INSERT statements (${options.rowsPerInsert} rows each)...`);
+	for (const table of TABLES) {
+		const { rows } = loads.get(table.table)!;
+		for (let i = 0; i < rows.length; i += options.rowsPerChunk) {
+			chunks.push({
+				name: table.table,
+				statements: batchInserts(table, rows.slice(i, i + options.rowsPerChunk), options.rowsPerInsert),
+			});
+		}
+	}
+
+	// Upsert every table in one final chunk so a refresh lands all at once
+	chunks.push({
+		name: 'merge',
+		statements: [...TABLES.flatMap(table => mergeStatements(table, runId)), dataVersionStatement(runId, pending.length > 0)],
+	});
+
+	// Write to files
+	const outDir = join(process.cwd(), options.outDir);
+	const files = writeChunks(outDir, chunks, options.transactions);
+	console.log(`\n✅ Wrote ${files.length} SQL chunk files to ${outDir}`);
+	if (options.target === 'files') {
+		const written = [...applied, ...pending.map(migration => migration.version)].sort((a, b) => a - b);
+		writeFileSync(join(outDir, MIGRATION_RECORD_FILE), JSON.stringify(written) + '\n', 'utf-8');
+		console.log(`   Migrations ${written.join(', ') || 'none'} are recorded in ${MIGRATION_RECORD_FILE} and left out of later runs;`);
+		console.log(`   pass --after-migration=0 to write them again for a new database`);
+	}
+
+	if (options.target !== 'files') {
+		console.log(`\n💾 Loading into ${options.target} database ${options.database}...`);
+		applyChunks(options.target, options.database, files);
+
+		const report = queryRows<SeedReportRow>(
+			options.target,
+			options.database,
+			`SELECT table_name, inserted, updated, unchanged FROM seed_report WHERE run_id = '${runId}'`
+		);
+		const [version] = queryRows<{ version: string }>(options.target, options.database, 'SELECT version FROM data_version');
+		console.log(`✅ Seeded ${options.database} (data version ${version?.version})\n`);
+		console.table(report);
+		return;
+	}
+
 	console.log(`\n📋 Next steps:`);
 	console.log(`   1. Create D1 database: npx wrangler d1 create lahman_ai`);
 	console.log(`   2. Update wrangler.toml with the database_id`);
-	console.log(`   3. Run migrations: npx wrangler d1 execute lahman_ai --file=seed.sql --remote`);
-	console.log(`\n🚀 Or run locally: npx wrangler d1 execute lahman_ai --file=seed.sql --local\n`);
+	console.log(`   3. Seed it directly (applies pending migrations, then upserts): npm run seed -- --target=d1-remote`);
+	console.log(`   4. Or apply the chunks yourself in order (generate them with --no-transactions, which D1 requires)`);
+	console.log(`      and read the counts with: SELECT * FROM seed_report WHERE run_id = '${runId}'`);
+	console.log(`\n🚀 Or seed the local D1 database in one step: npm run seed:local\n`);
 }
 
-main().catch(console.error);
+main().catch(error => {
+	console.error(error);
+	process.exit(1);
+});
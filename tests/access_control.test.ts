@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { AccessEnv, AccessGrant, checkAccess } from '../workers/access_control';
+import { RateLimiter } from '../workers/rate_limiter';
+import { fakeNamespace } from './fake_durable_object';
+
+const API_KEYS = JSON.stringify([
+	{ name: 'dashboard', key: 'dash-secret', chatPerMinute: 1 },
+	{ name: 'ops', key: 'ops-secret', admin: true },
+]);
+
+function accessEnv(vars: Partial<AccessEnv> = {}): AccessEnv {
+	return { RATE_LIMITER: fakeNamespace(state => new RateLimiter(state)), API_KEYS, ...vars };
+}
+
+function request(path: string, init: RequestInit & { headers?: Record<string, string> } = {}): Request {
+	return new Request(`https://worker.test${path}`, {
+		...init,
+		headers: { 'CF-Connecting-IP': '192.0.2.1', ...init.headers },
+	});
+}
+
+function status(result: AccessGrant | Response): number | string {
+	return result instanceof Response ? result.status : 'granted';
+}
+
+describe('checkAccess', () => {
+	it('allows same-origin and listed origins and refuses the rest', async () => {
+		const env = accessEnv({ CORS_ORIGINS: 'https://stats.example.com/' });
+		const listed = await checkAccess(request('/api/examples', { headers: { Origin: 'https://stats.example.com' } }), env) as AccessGrant;
+		assert.equal(listed.headers['Access-Control-Allow-Origin'], 'https://stats.example.com');
+		assert.equal(status(await checkAccess(request('/api/examples', { headers: { Origin: 'https://worker.test' } }), env)), 'granted');
+		assert.equal(status(await checkAccess(request('/api/examples', { headers: { Origin: 'https://evil.example' } }), env)), 403);
+
+		const preflight = await checkAccess(request('/api/chat', { method: 'OPTIONS', headers: { Origin: 'https://stats.example.com' } }), env) as Response;
+		assert.equal(preflight.status, 204);
+		assert.match(preflight.headers.get('Access-Control-Allow-Headers')!, /X-API-Key/);
+	});
+
+	it('names the caller by key and refuses unknown or missing keys', async () => {
+		const env = accessEnv();
+		const keyed = await checkAccess(request('/api/examples', { headers: { Authorization: 'Bearer dash-secret' } }), env) as AccessGrant;
+		assert.deepEqual(keyed.caller, { kind: 'key', id: 'dashboard', admin: false });
+		const anonymous = await checkAccess(request('/api/examples'), env) as AccessGrant;
+		assert.deepEqual(anonymous.caller, { kind: 'ip', id: '192.0.2.1', admin: false });
+
+		assert.equal(status(await checkAccess(request('/api/examples', { headers: { 'X-API-Key': 'guess' } }), env)), 401);
+		assert.equal(status(await checkAccess(request('/api/examples'), accessEnv({ REQUIRE_API_KEY: 'true' }))), 401);
+		assert.equal(status(await checkAccess(request('/api/examples', { headers: { 'X-API-Key': 'dash-secret' } }), accessEnv({ API_KEYS: 'nope' }))), 503);
+	});
+
+	it('opens the admin routes only to admin keys', async () => {
+		const env = accessEnv();
+		const admin = { 'X-API-Key': 'ops-secret' };
+		const other = { 'X-API-Key': 'dash-secret' };
+		for (const [method, path] of [['GET', '/api/admin/stats'], ['POST', '/api/examples'], ['DELETE', '/api/examples/7']]) {
+			assert.equal(status(await checkAccess(request(path, { method, headers: other }), env)), 403, `${method} ${path}`);
+			assert.equal(status(await checkAccess(request(path, { method, headers: admin }), env)), 'granted', `${method} ${path}`);
+		}
+		assert.equal(status(await checkAccess(request('/api/examples', { headers: other }), env)), 'granted');
+	});
+
+	it('limits chat separately from the other routes, per key', async () => {
+		const env = accessEnv({ RATE_LIMIT_API_PER_MINUTE: '1' });
+		const key = { 'X-API-Key': 'dash-secret' };
+		const first = await checkAccess(request('/api/chat', { method: 'POST', headers: key }), env) as AccessGrant;
+		assert.deepEqual([first.headers['X-RateLimit-Limit'], first.headers['X-RateLimit-Remaining']], ['1', '0']);
+		const refused = await checkAccess(request('/api/chat', { method: 'POST', headers: key }), env) as Response;
+		assert.equal(refused.status, 429);
+		assert.ok(Number(refused.headers.get('Retry-After')) > 0);
+
+		assert.equal(status(await checkAccess(request('/api/examples', { headers: key }), env)), 'granted');
+		assert.equal(status(await checkAccess(request('/api/examples'), env)), 'granted');
+		assert.equal(status(await checkAccess(request('/api/examples'), env)), 429, 'the anonymous limit comes from the vars');
+		assert.equal(status(await checkAccess(request('/'), env)), 'granted', 'the UI is not limited');
+	});
+});
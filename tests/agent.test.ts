@@ -0,0 +1,159 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import worker, { ChatState, Env, RateLimiter } from '../workers/agent';
+import { AnswerCache } from '../workers/answer_cache';
+import { fakeDB } from './fake_d1';
+import { fakeNamespace } from './fake_durable_object';
+
+const SAVES_LEADER = { playerID: 'clasee01', nameFirst: 'Emmanuel', nameLast: 'Clase', teams: 'CLE', SV: 44 };
+const BATTING_LEADER = { playerID: 'arraelu01', nameFirst: 'Luis', nameLast: 'Arraez', AVG: 0.354 };
+const ERA_LEADER = { playerID: 'coleg01', nameFirst: 'Gerrit', nameLast: 'Cole', teams: 'NYA', ERA: 2.63 };
+const HR_TEAM = { name: 'Minnesota Twins', HR: 307 };
+
+// The first run of the team home run query fails, as a bad column would
+let teamHomeRunRuns = 0;
+
+const queries: string[] = [];
+const db = fakeDB(sql => {
+	queries.push(sql);
+	if (sql.includes('AS minYear')) {
+		return ['pitching', 'batting', 'fielding', 'teams'].map(table => ({ table, rows: 1000, minYear: 1871, maxYear: 2023 }));
+	}
+	if (sql.includes('FROM data_version')) return [{ version: 'test' }];
+	if (sql.includes('FROM teams GROUP BY yearID')) return [{ yearID: 2023, games: 162 }];
+	if (sql.includes('ORDER BY ps.SV DESC')) return [SAVES_LEADER];
+	if (sql.includes('ORDER BY AVG DESC')) return [BATTING_LEADER];
+	if (sql.includes('ORDER BY ps.ERA ASC')) return [ERA_LEADER];
+	if (sql.includes('ORDER BY t.HR DESC') && teamHomeRunRuns++ === 0) throw new Error('D1_ERROR: no such column: t.HRS');
+	if (sql.includes('ORDER BY t.HR DESC')) return [HR_TEAM];
+	if (sql.includes('AS WinsAbovePyth')) throw new Error('D1_ERROR: no such column: t.R');
+	return [];
+});
+
+/** A Worker with the mock provider for both stages and no AI binding */
+function testEnv(vars: Partial<Env> = {}): Env {
+	return {
+		DB: db,
+		CHAT_STATE: fakeNamespace(state => new ChatState(state)),
+		RATE_LIMITER: fakeNamespace(state => new RateLimiter(state)),
+		SQL_PROVIDER: 'mock',
+		ANSWER_PROVIDER: 'mock',
+		...vars,
+	};
+}
+
+async function post(env: Env, path: string, body: unknown): Promise<Response> {
+	const background: Promise<unknown>[] = [];
+	const ctx = { waitUntil: (promise: Promise<unknown>) => background.push(promise), passThroughOnException: () => {} };
+	const response = await worker.fetch(
+		new Request(`https://worker.test${path}`, { method: 'POST', body: JSON.stringify(body), headers: { 'CF-Connecting-IP': '192.0.2.1' } }),
+		env,
+		ctx as unknown as ExecutionContext
+	);
+	const text = await response.text();
+	await Promise.all(background);
+	return new Response(text, response);
+}
+
+describe('worker without an AI binding', () => {
+	it('answers a chat question end to end with the mock provider', async () => {
+		queries.length = 0;
+		const response = await post(testEnv(), '/api/chat', { message: 'Who led the majors in saves in 2023?' });
+		assert.equal(response.status, 200);
+		const body = await response.json() as Record<string, any>;
+		assert.equal(body.success, true);
+		assert.match(body.sql, /ORDER BY ps\.SV DESC LIMIT 1;$/);
+		assert.deepEqual(body.results, [SAVES_LEADER]);
+		assert.equal(body.message, 'Mock answer to "Who led the majors in saves in 2023?".');
+		assert.ok(response.headers.get('X-Request-ID'));
+		assert.ok(queries.some(sql => sql.startsWith('INSERT INTO query_log')), 'the request is written to the query log');
+	});
+
+	it('keeps the session for a follow-up', async () => {
+		const env = testEnv();
+		const first = await (await post(env, '/api/chat', { message: 'Who led the majors in saves in 2023?' })).json() as Record<string, any>;
+		const followUp = await post(env, '/api/chat', { message: 'Highest batting average in 2023', sessionId: first.sessionId });
+		const body = await followUp.json() as Record<string, any>;
+		assert.deepEqual(body.results, [BATTING_LEADER]);
+
+		const session = await worker.fetch(
+			new Request(`https://worker.test/api/sessions/${first.sessionId}`, { headers: { 'CF-Connecting-IP': '192.0.2.1' } }),
+			env,
+			{ waitUntil: () => {} } as unknown as ExecutionContext
+		);
+		const { turns } = await session.json() as { turns: { question: string }[] };
+		assert.deepEqual(turns.map(turn => turn.question), ['Who led the majors in saves in 2023?', 'Highest batting average in 2023']);
+	});
+
+	it('streams the SQL, rows, answer tokens and done events', async () => {
+		const response = await post(testEnv(), '/api/chat/stream', { message: 'Who led the majors in saves in 2023?' });
+		assert.equal(response.headers.get('Content-Type'), 'text/event-stream');
+		const events = (await response.text()).split('\n\n').filter(Boolean).map(block => block.match(/^event: (\w+)/)![1]);
+		assert.deepEqual([...new Set(events)], ['sql', 'rows', 'token', 'done']);
+	});
+
+	it('streams an error event when no attempt works', async () => {
+		const response = await post(testEnv(), '/api/chat/stream', { message: 'Which teams most outperformed their Pythagorean record in 2022?' });
+		const blocks = (await response.text()).split('\n\n').filter(Boolean);
+		assert.deepEqual(blocks.map(block => block.match(/^event: (\w+)/)![1]), ['error']);
+		assert.match(blocks[0], /no such column: t\.R/);
+	});
+
+	it('applies the qualification minimum to a rate-stat leaderboard', async () => {
+		const body = await (await post(testEnv(), '/api/chat', { message: 'Who had the lowest ERA in 2023?' })).json() as Record<string, any>;
+		assert.equal(body.qualification?.minimum, 162);
+	});
+
+	it('answers without a minimum when the qualification settings are broken', async () => {
+		const response = await post(testEnv({ QUALIFY_IP_PER_GAME: 'lots' }), '/api/chat', { message: 'Who had the lowest ERA in 2023?' });
+		assert.equal(response.status, 200);
+		const body = await response.json() as Record<string, any>;
+		assert.deepEqual([body.results, body.qualification], [[ERA_LEADER], null]);
+	});
+
+	it('regenerates a cached question whose SQL the guard now rejects', async () => {
+		const question = 'Who led the majors in saves in 2023?';
+		const cache = await AnswerCache.open(db, undefined, 'mock:mock');
+		await cache.putQuestion(question, {}, { sql: 'DELETE FROM pitching', entities: [] });
+
+		const body = await (await post(testEnv(), '/api/chat', { message: question })).json() as Record<string, any>;
+		assert.deepEqual(body.results, [SAVES_LEADER]);
+		assert.match((await cache.getQuestion(question, {}))!.sql, /ORDER BY ps\.SV DESC/);
+	});
+
+	it('leaves adding and deleting examples to admin keys', async () => {
+		const added = await post(testEnv(), '/api/examples', { question: 'Most saves in 2023', sql: 'SELECT 1 LIMIT 1;' });
+		assert.equal(added.status, 403);
+		const deleted = await worker.fetch(
+			new Request('https://worker.test/api/examples/1', { method: 'DELETE', headers: { 'CF-Connecting-IP': '192.0.2.1' } }),
+			testEnv(),
+			{ waitUntil: () => {} } as unknown as ExecutionContext
+		);
+		assert.equal(deleted.status, 403);
+	});
+
+	it('sends a database error back to the model and runs the repaired query', async () => {
+		const response = await post(testEnv(), '/api/chat', { message: 'Which team hit the most home runs in 2019?' });
+		assert.equal(response.status, 200);
+		const body = await response.json() as Record<string, any>;
+		assert.deepEqual(body.results, [HR_TEAM]);
+		assert.equal(body.attempts.length, 2);
+		assert.equal(body.attempts[0].error, 'Database query failed: D1_ERROR: no such column: t.HRS');
+	});
+
+	it('gives up after three failed attempts', async () => {
+		const response = await post(testEnv(), '/api/chat', { message: 'Which teams most outperformed their Pythagorean record in 2022?' });
+		assert.equal(response.status, 500);
+		const body = await response.json() as Record<string, any>;
+		assert.equal(body.attempts.length, 3);
+		assert.match(body.error, /no such column: t\.R/);
+	});
+
+	it('reports a missing AI binding when a stage still uses Workers AI', async () => {
+		const response = await post(testEnv({ SQL_PROVIDER: undefined }), '/api/chat', { message: 'Who led the majors in saves in 2023?' });
+		assert.equal(response.status, 500);
+		const body = await response.json() as Record<string, any>;
+		assert.match(body.error, /SQL_PROVIDER is workers-ai but there is no AI binding/);
+	});
+});
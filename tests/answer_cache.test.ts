@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+
+import { AnswerCache, normalizeQuestion } from '../workers/answer_cache';
+import { fakeDB } from './fake_d1';
+
+let version = 'v1';
+const db = fakeDB(sql => (sql.includes('FROM data_version') && version ? [{ version }] : []));
+
+// The data version is re-read at most once a minute, so each test starts a minute after the last
+let now = Date.now();
+beforeEach(() => {
+	now += 61 * 1000;
+	mock.timers.enable({ apis: ['Date'], now });
+});
+afterEach(() => {
+	mock.timers.reset();
+	version = 'v1';
+});
+
+describe('normalizeQuestion', () => {
+	it('ignores case, spacing, curly quotes and trailing punctuation', () => {
+		assert.equal(normalizeQuestion('  Who had  the most HRs in ’23?! '), "who had the most hrs in '23");
+		assert.equal(normalizeQuestion('Who led the majors in saves in 2023?'), normalizeQuestion('who led the majors in saves in 2023'));
+	});
+});
+
+describe('AnswerCache', () => {
+	const cached = { sql: 'SELECT 1 LIMIT 1;', entities: [] };
+
+	it('keeps SQL per question, entity choices and SQL model', async () => {
+		const cache = await AnswerCache.open(db, 'development', 'mock:mock');
+		await cache.putQuestion('Will Smith saves in 2023?', { 'Will Smith': 'smithwi04' }, cached);
+
+		assert.deepEqual(await cache.getQuestion('will smith saves in 2023', { 'will smith': 'smithwi04' }), cached);
+		assert.equal(cache.report.sql, 'hit');
+		assert.equal(await cache.getQuestion('Will Smith saves in 2023?', { 'Will Smith': 'smithwi01' }), null);
+		assert.equal(cache.report.sql, 'miss');
+
+		const otherModel = await AnswerCache.open(db, 'development', 'openai:gpt-4o-mini');
+		assert.equal(await otherModel.getQuestion('Will Smith saves in 2023?', { 'Will Smith': 'smithwi04' }), null);
+	});
+
+	it('runs a query only when its rows are not cached', async () => {
+		const cache = await AnswerCache.open(db, 'development');
+		let runs = 0;
+		const run = async () => [{ run: ++runs }];
+		assert.deepEqual(await cache.rows('SELECT 2 LIMIT 1;', run), [{ run: 1 }]);
+		assert.equal(cache.report.rows, 'miss');
+		assert.deepEqual(await cache.rows('SELECT 2 LIMIT 1;', run), [{ run: 1 }]);
+		assert.equal(cache.report.rows, 'hit');
+	});
+
+	it('starts over when the data version changes', async () => {
+		const before = await AnswerCache.open(db, 'development');
+		await before.putQuestion('Most wins in 2022', {}, cached);
+		await before.rows('SELECT 3 LIMIT 1;', async () => [{ wins: 106 }]);
+
+		version = 'v2';
+		assert.deepEqual(await (await AnswerCache.open(db, 'development')).getQuestion('Most wins in 2022', {}), cached, 'the version is re-read once a minute');
+		mock.timers.tick(61 * 1000);
+		const after = await AnswerCache.open(db, 'development');
+		assert.equal(after.report.dataVersion, 'v2');
+		assert.equal(await after.getQuestion('Most wins in 2022', {}), null);
+		assert.deepEqual(await after.rows('SELECT 3 LIMIT 1;', async () => [{ wins: 104 }]), [{ wins: 104 }]);
+	});
+
+	it('drops a question on request', async () => {
+		const cache = await AnswerCache.open(db, 'development');
+		await cache.putQuestion('Most strikeouts in 2019', {}, cached);
+		await cache.deleteQuestion('Most strikeouts in 2019', {});
+		assert.equal(await cache.getQuestion('Most strikeouts in 2019', {}), null);
+	});
+
+	it('is bypassed when the database has no data version', async () => {
+		version = '';
+		const cache = await AnswerCache.open(db, 'development');
+		await cache.putQuestion('Most walks in 2004', {}, cached);
+		assert.equal(await cache.getQuestion('Most walks in 2004', {}), null);
+		let runs = 0;
+		await cache.rows('SELECT 4 LIMIT 1;', async () => [{ run: ++runs }]);
+		await cache.rows('SELECT 4 LIMIT 1;', async () => [{ run: ++runs }]);
+		assert.equal(runs, 2);
+		assert.deepEqual(cache.report, { sql: 'bypass', rows: 'bypass', dataVersion: null });
+	});
+});
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { after, describe, it } from 'node:test';
+
+import { BUILT_IN_EXAMPLES } from '../workers/example_library';
+import { NEEDS_SQLITE, migratedDatabase } from './sqlite';
+
+function exampleSQL(question: string): string {
+	const example = BUILT_IN_EXAMPLES.find(entry => entry.question === question);
+	assert.ok(example, `no built-in example asks "${question}"`);
+	return example.sql;
+}
+
+describe('biographical examples', { skip: NEEDS_SQLITE }, () => {
+	const db = migratedDatabase();
+	after(() => db.close());
+	db.run(`
+		INSERT INTO people (playerID, nameFirst, nameLast, birthYear, birthMonth, birthDay, birthCountry, throws, debut) VALUES
+			('lefty01', 'Lefty', 'Abroad', 1995, 4, 2, 'Venezuela', 'L', '2017-06-01'),
+			('lefty02', 'Lefty', 'Home', 1994, 1, 1, 'USA', 'L', '2016-05-01'),
+			('righty01', 'Righty', 'Abroad', 1996, 3, 3, 'D.R.', 'R', '2018-04-01'),
+			('rookie01', 'Old', 'Rookie', 1994, 12, 1, 'USA', 'R', '2019-04-01'),
+			('rookie02', 'Young', 'Rookie', 1998, 9, 30, 'CAN', 'R', '2019-09-01');
+		INSERT INTO pitching (playerID, yearID, stint, teamID, lgID, G, GS, IPouts, H, ER, HR, BB, SO, HBP) VALUES
+			('lefty01', 2022, 1, 'SEA', 'AL', 30, 30, 540, 150, 50, 15, 50, 180, 5),
+			('lefty02', 2022, 1, 'NYA', 'AL', 30, 30, 540, 150, 40, 15, 50, 180, 5),
+			('righty01', 2022, 1, 'NYN', 'NL', 30, 30, 540, 150, 40, 15, 50, 180, 5),
+			('rookie01', 2019, 1, 'SEA', 'AL', 10, 0, 60, 20, 10, 2, 5, 10, 0),
+			('rookie02', 2019, 1, 'TOR', 'AL', 5, 0, 30, 10, 5, 1, 3, 8, 0);
+	`);
+
+	it('finds left-handed starters by birth country', () => {
+		const rows = db.query(exampleSQL('Left-handed starters born outside the USA with ERA under 3 in 2022'));
+		assert.deepEqual(rows, [{ playerID: 'lefty01', nameFirst: 'Lefty', nameLast: 'Abroad', birthCountry: 'Venezuela', teams: 'SEA', ERA: 2.5 }]);
+	});
+
+	it('works out a debut age from the birth date', () => {
+		const rows = db.query(exampleSQL('Youngest pitcher to debut in 2019'));
+		assert.deepEqual(rows, [{ playerID: 'rookie02', nameFirst: 'Young', nameLast: 'Rookie', debut: '2019-09-01', debutAge: 20.9 }]);
+	});
+});
+
+describe('team examples', { skip: NEEDS_SQLITE }, () => {
+	const db = migratedDatabase();
+	after(() => db.close());
+	db.run(`
+		INSERT INTO teams (yearID, lgID, teamID, divID, name, G, W, L, Rank, DivWin, R, RA, park, BPF, PPF) VALUES
+			(2022, 'AL', 'SEA', 'W', 'Seattle Mariners', 162, 90, 72, 2, 'N', 690, 623, 'T-Mobile Park', 94, 94),
+			(2022, 'AL', 'CLE', 'C', 'Cleveland Guardians', 162, 92, 70, 1, 'Y', 698, 634, 'Progressive Field', 97, 97),
+			(2022, 'NL', 'SDN', 'W', 'San Diego Padres', 162, 89, 73, 2, 'N', 705, 660, 'Petco Park', 96, 96),
+			(2005, 'NL', 'SDN', 'W', 'San Diego Padres', 162, 82, 80, 1, 'Y', 684, 726, 'Petco Park', 91, 92),
+			(2023, 'AL', 'TEX', 'W', 'Texas Rangers', 162, 90, 72, 2, 'N', 881, 716, 'Globe Life Field', 98, 98),
+			(2023, 'AL', 'HOU', 'W', 'Houston Astros', 162, 90, 72, 1, 'Y', 827, 698, 'Minute Maid Park', 99, 99),
+			(2024, 'NL', 'COL', 'W', 'Colorado Rockies', 162, 61, 101, 5, 'N', 682, 929, 'Coors Field', 112, 113),
+			(2024, 'AL', 'SEA', 'W', 'Seattle Mariners', 162, 85, 77, 2, 'N', 676, 607, 'T-Mobile Park', 91, 92);
+	`);
+
+	it('lists a division in standings order', () => {
+		const rows = db.query<{ name: string; WinPct: number }>(exampleSQL('AL West standings in 2023'));
+		assert.deepEqual(rows.map(row => [row.name, row.WinPct]), [['Houston Astros', 0.556], ['Texas Rangers', 0.556]]);
+	});
+
+	it('finds division winners outscored by their opponents', () => {
+		const rows = db.query(exampleSQL('Which division winners had a negative run differential?'));
+		assert.deepEqual(rows, [{ yearID: 2005, name: 'San Diego Padres', R: 684, RA: 726, RunDiff: -42 }]);
+	});
+
+	it('compares wins with the Pythagorean expectation', () => {
+		const rows = db.query<{ name: string; PythW: number }>(exampleSQL('Which teams most outperformed their Pythagorean record in 2022?'));
+		assert.deepEqual(rows.map(row => [row.name, row.PythW]), [['Cleveland Guardians', 88.8], ['San Diego Padres', 86.3], ['Seattle Mariners', 89.2]]);
+	});
+
+	it('ranks parks by batting park factor', () => {
+		const rows = db.query<{ park: string }>(exampleSQL('Most hitter-friendly parks in 2024'));
+		assert.deepEqual(rows.map(row => row.park), ['Coors Field', 'T-Mobile Park']);
+	});
+});
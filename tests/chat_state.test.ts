@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { Caller } from '../workers/access_control';
+import {
+	ChatState,
+	ChatTurn,
+	SessionAccessError,
+	appendTurn,
+	clearSession,
+	isValidSessionId,
+	listSessions,
+	loadHistory,
+	sessionAccess,
+	summarizeResults,
+} from '../workers/chat_state';
+import { fakeNamespace } from './fake_durable_object';
+
+const ANONYMOUS: Caller = { kind: 'ip', id: '192.0.2.1', admin: false };
+const OTHER: Caller = { kind: 'ip', id: '192.0.2.2', admin: false };
+const ADMIN: Caller = { kind: 'key', id: 'ops', admin: true };
+
+function turn(question: string): ChatTurn {
+	return { question, sql: 'SELECT 1 LIMIT 1;', summary: '1 row(s)', answer: 'Answer', createdAt: '2024-04-01T00:00:00.000Z' };
+}
+
+describe('sessionAccess', () => {
+	it('keys the owner hash with the secret', async () => {
+		const keyed = await sessionAccess(ANONYMOUS, 'secret');
+		assert.match(keyed.owner, /^[0-9a-f]{64}$/);
+		assert.equal((await sessionAccess(ANONYMOUS, 'secret')).owner, keyed.owner);
+		assert.notEqual((await sessionAccess(ANONYMOUS, 'other secret')).owner, keyed.owner);
+		assert.notEqual((await sessionAccess(ANONYMOUS)).owner, keyed.owner);
+		assert.notEqual((await sessionAccess(OTHER, 'secret')).owner, keyed.owner);
+		assert.ok(!keyed.owner.includes('192.0.2.1'));
+	});
+});
+
+describe('ChatState sessions', () => {
+	it('keeps turns in order and lists the session for its owner', async () => {
+		const ns = fakeNamespace(state => new ChatState(state));
+		const owner = await sessionAccess(ANONYMOUS, 'secret');
+		await appendTurn(ns, 'session-1', turn('Who led the majors in saves in 2023?'), owner);
+		await appendTurn(ns, 'session-1', turn('What about 2022?'), owner);
+
+		const turns = await loadHistory(ns, 'session-1', owner);
+		assert.deepEqual(turns.map(entry => entry.question), ['Who led the majors in saves in 2023?', 'What about 2022?']);
+		const [session] = await listSessions(ns, owner);
+		assert.deepEqual([session.id, session.title, session.turnCount], ['session-1', 'Who led the majors in saves in 2023?', 2]);
+	});
+
+	it('keeps the latest twenty turns', async () => {
+		const ns = fakeNamespace(state => new ChatState(state));
+		const owner = await sessionAccess(ANONYMOUS);
+		for (let i = 1; i <= 22; i++) await appendTurn(ns, 'long', turn(`Question ${i}`), owner);
+		const turns = await loadHistory(ns, 'long', owner);
+		assert.deepEqual([turns.length, turns[0].question], [20, 'Question 3']);
+	});
+
+	it('refuses other callers but not admin keys', async () => {
+		const ns = fakeNamespace(state => new ChatState(state));
+		const owner = await sessionAccess(ANONYMOUS, 'secret');
+		const other = await sessionAccess(OTHER, 'secret');
+		await appendTurn(ns, 'session-1', turn('Most wins in 2022'), owner);
+
+		await assert.rejects(loadHistory(ns, 'session-1', other), SessionAccessError);
+		await assert.rejects(appendTurn(ns, 'session-1', turn('Mine now'), other), SessionAccessError);
+		await assert.rejects(clearSession(ns, 'session-1', other), SessionAccessError);
+		assert.deepEqual(await listSessions(ns, other), []);
+		assert.equal((await loadHistory(ns, 'session-1', await sessionAccess(ADMIN, 'secret'))).length, 1);
+	});
+
+	it('clears the turns and the owner\'s index entry', async () => {
+		const ns = fakeNamespace(state => new ChatState(state));
+		const owner = await sessionAccess(ANONYMOUS, 'secret');
+		await appendTurn(ns, 'session-1', turn('Most wins in 2022'), owner);
+		await clearSession(ns, 'session-1', await sessionAccess(ADMIN, 'secret'));
+
+		assert.deepEqual(await loadHistory(ns, 'session-1', owner), []);
+		assert.deepEqual(await listSessions(ns, owner), []);
+	});
+});
+
+describe('session helpers', () => {
+	it('accepts only short URL-safe session IDs', () => {
+		assert.ok(isValidSessionId('0b6f1d3e-5a1c-4f7e-9c1a-2d3e4f5a6b7c'));
+		assert.ok(!isValidSessionId('../admin'));
+		assert.ok(!isValidSessionId('x'.repeat(65)));
+		assert.ok(!isValidSessionId(42));
+	});
+
+	it('summarizes at most three rows', () => {
+		assert.equal(summarizeResults([]), 'no rows');
+		assert.equal(summarizeResults([{ W: 1 }, { W: 2 }, { W: 3 }, { W: 4 }]), '4 row(s): [{"W":1},{"W":2},{"W":3}]');
+	});
+});
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { ComparisonRequest, buildComparison, comparisonSQL, describeComparison, findComparison } from '../workers/comparison';
+import { ResolvedEntity } from '../workers/entity_resolver';
+import { validateQuery } from '../workers/sql_guard';
+
+const DEGROM: ResolvedEntity = { kind: 'player', mention: 'deGrom', id: 'degroja01', label: 'Jacob deGrom' };
+const SCHERZER: ResolvedEntity = { kind: 'player', mention: 'Scherzer', id: 'scherma01', label: 'Max Scherzer' };
+const NATIONALS: ResolvedEntity = { kind: 'team', mention: 'Nationals', id: 'WAS', label: 'Washington Nationals', franchID: 'WSN' };
+const RANGERS: ResolvedEntity = { kind: 'team', mention: 'Rangers', id: 'TEX', label: 'Texas Rangers', franchID: 'TEX' };
+
+describe('findComparison', () => {
+	it('compares players over the span in the question', () => {
+		const request = findComparison('Compare deGrom and Scherzer 2018-2019', [DEGROM, SCHERZER]);
+		assert.deepEqual(request, {
+			kind: 'player',
+			subjects: [
+				{ id: 'degroja01', label: 'Jacob deGrom', from: 2018, to: 2019 },
+				{ id: 'scherma01', label: 'Max Scherzer', from: 2018, to: 2019 },
+			],
+		});
+	});
+
+	it('gives each team its own season when the question pairs them', () => {
+		const request = findComparison('2019 Nationals vs 2023 Rangers', [NATIONALS, RANGERS]);
+		assert.deepEqual(
+			request?.subjects.map(({ id, from, to }) => [id, from, to]),
+			[
+				['WSN', 2019, 2019],
+				['TEX', 2023, 2023],
+			]
+		);
+	});
+
+	it('covers every season without a year and needs two subjects', () => {
+		assert.equal(findComparison('Who was better, deGrom or Scherzer?', [DEGROM, SCHERZER])?.subjects[0].from, null);
+		assert.equal(findComparison('Compare deGrom and the Nationals', [DEGROM, NATIONALS]), null);
+		assert.equal(findComparison('deGrom and Scherzer strikeouts in 2019', [DEGROM, SCHERZER]), null);
+	});
+});
+
+describe('comparisonSQL', () => {
+	it('passes the SQL guard for players and teams', () => {
+		validateQuery(comparisonSQL(findComparison('Compare deGrom and Scherzer 2018-2019', [DEGROM, SCHERZER])!));
+		validateQuery(comparisonSQL(findComparison('2019 Nationals vs 2023 Rangers', [NATIONALS, RANGERS])!));
+	});
+
+	it('escapes quotes in inlined IDs', () => {
+		const request: ComparisonRequest = { kind: 'player', subjects: [{ id: "o'neil01", label: "O'Neil", from: null, to: null }] };
+		assert.match(comparisonSQL(request), /s\.playerID = 'o''neil01'/);
+	});
+});
+
+describe('buildComparison', () => {
+	const request = findComparison('Compare deGrom and Scherzer 2018-2019', [DEGROM, SCHERZER])!;
+	const rows = [
+		{ id: 'degroja01', firstYear: 2018, lastYear: 2019, seasons: 2, W: 21, L: 17, G: 64, ERA: 1.98, SO: 524 },
+		{ id: 'scherma01', firstYear: 2018, lastYear: 2019, seasons: 2, W: 29, L: 14, G: 60, ERA: 2.71, SO: 543 },
+	];
+
+	it('picks the leader of each stat in its direction with the gap', () => {
+		const comparison = buildComparison(request, rows);
+		const stat = (key: string) => comparison.stats.find(entry => entry.key === key)!;
+		assert.deepEqual([stat('ERA').leader, stat('ERA').difference], ['degroja01', 0.73]);
+		assert.deepEqual([stat('W').leader, stat('W').difference], ['scherma01', 8]);
+		assert.equal(stat('G').leader, null);
+		assert.deepEqual([stat('WHIP').leader, stat('WHIP').difference], [null, null]);
+		assert.deepEqual(comparison.missing, []);
+	});
+
+	it('lists subjects with no rows as missing', () => {
+		const comparison = buildComparison(request, rows.slice(0, 1));
+		assert.deepEqual(comparison.missing, ['Max Scherzer']);
+		assert.equal(comparison.stats.find(entry => entry.key === 'ERA')?.leader, null);
+	});
+
+	it('describes the leaders and spans', () => {
+		const text = describeComparison(buildComparison(request, rows));
+		assert.match(text, /^Compared: Jacob deGrom \(2018–2019\); Max Scherzer \(2018–2019\)/);
+		assert.match(text, /- ERA: lowest is Jacob deGrom \(Jacob deGrom 1\.98, Max Scherzer 2\.71\)/);
+		assert.doesNotMatch(text, /Games:/);
+	});
+});
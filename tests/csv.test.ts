@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+
+import { CSVRecord, readCSVRecords } from '../scripts/csv';
+
+const dir = mkdtempSync(join(tmpdir(), 'csv-test-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+async function read(text: string): Promise<CSVRecord[]> {
+	const file = join(dir, 'input.csv');
+	writeFileSync(file, text, 'utf-8');
+	const records: CSVRecord[] = [];
+	for await (const record of readCSVRecords(file)) records.push(record);
+	return records;
+}
+
+describe('readCSVRecords', () => {
+	it('reads quoted commas, doubled quotes and line breaks inside quotes', async () => {
+		const records = await read('playerID,birthCity,nameGiven\nruthba01,"Baltimore, MD","George ""Babe"" Herman"\nx01,"Two\nLines",\n');
+		assert.deepEqual(records, [
+			{ line: 1, fields: ['playerID', 'birthCity', 'nameGiven'] },
+			{ line: 2, fields: ['ruthba01', 'Baltimore, MD', 'George "Babe" Herman'] },
+			{ line: 3, fields: ['x01', 'Two\nLines', ''] },
+		]);
+	});
+
+	it('accepts CRLF, a byte order mark, blank lines and no final newline', async () => {
+		const records = await read('\uFEFFa,b\r\n1,2\r\n\r\n3,4');
+		assert.deepEqual(records, [
+			{ line: 1, fields: ['a', 'b'] },
+			{ line: 2, fields: ['1', '2'] },
+			{ line: 4, fields: ['3', '4'] },
+		]);
+	});
+
+	it('keeps values as text, so numeric-looking IDs are not converted', async () => {
+		const [, record] = await read('id,n\n1e5,007\n');
+		assert.deepEqual(record.fields, ['1e5', '007']);
+	});
+
+	it('refuses an unterminated quoted field', async () => {
+		await assert.rejects(read('a,b\n1,"open\n'), /unterminated quoted field starting on line 2/);
+	});
+});
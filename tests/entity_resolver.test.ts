@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { resolveEntities } from '../workers/entity_resolver';
+import { fakeDB } from './fake_d1';
+
+const PEOPLE = [
+	{ playerID: 'kershcl01', nameFirst: 'Clayton', nameLast: 'Kershaw', nameGiven: 'Clayton Edward' },
+	{ playerID: 'degroja01', nameFirst: 'Jacob', nameLast: 'deGrom', nameGiven: 'Jacob Anthony' },
+	{ playerID: 'scherma01', nameFirst: 'Max', nameLast: 'Scherzer', nameGiven: 'Maxwell M.' },
+	{ playerID: 'parksbo01', nameFirst: 'Bobby', nameLast: 'Parks', nameGiven: 'Robert' },
+	{ playerID: 'youngcy01', nameFirst: 'Cy', nameLast: 'Young', nameGiven: 'Denton True' },
+	{ playerID: 'youngch03', nameFirst: 'Chris', nameLast: 'Young', nameGiven: 'Christopher Ryan' },
+	{ playerID: 'youngro01', nameFirst: 'Ross', nameLast: 'Youngs', nameGiven: 'Royce Middlebrook' },
+	{ playerID: 'tallebr01', nameFirst: 'Brian', nameLast: 'Tallet', nameGiven: 'Brian Edward' },
+	{ playerID: 'smithwi04', nameFirst: 'Will', nameLast: 'Smith', nameGiven: 'William Michael' },
+	{ playerID: 'smithwi05', nameFirst: 'Will', nameLast: 'Smith', nameGiven: 'William Dills' },
+];
+
+const TEAMS = [
+	{ teamID: 'LAN', franchID: 'LAD', name: 'Los Angeles Dodgers', firstYear: 1958, lastYear: 2023 },
+	{ teamID: 'NYN', franchID: 'NYM', name: 'New York Mets', firstYear: 1962, lastYear: 2023 },
+	{ teamID: 'WAS', franchID: 'WSN', name: 'Washington Nationals', firstYear: 2005, lastYear: 2023 },
+];
+
+const APPEARANCES = [
+	{ playerID: 'kershcl01', yearID: 2018, teamID: 'LAN' },
+	{ playerID: 'degroja01', yearID: 2018, teamID: 'NYN' },
+	{ playerID: 'scherma01', yearID: 2018, teamID: 'WAS' },
+	{ playerID: 'smithwi04', yearID: 2019, teamID: 'LAN' },
+	{ playerID: 'smithwi05', yearID: 2019, teamID: 'SFN' },
+];
+
+const db = fakeDB((sql, params) => {
+	if (sql.includes('FROM people')) return PEOPLE;
+	if (sql.includes('FROM teams')) return TEAMS;
+	const ids: string[] = JSON.parse(String(params[0]));
+	return APPEARANCES.filter(row => ids.includes(row.playerID));
+});
+
+const ids = async (question: string) => (await resolveEntities(db, question)).entities.map(entity => entity.id);
+
+describe('resolveEntities', () => {
+	it('resolves capitalized names and teams', async () => {
+		assert.deepEqual(await ids('Compare deGrom and Scherzer in 2018'), ['degroja01', 'scherma01']);
+		assert.deepEqual(await ids("What was Clayton Kershaw's ERA for the Dodgers?"), ['LAN', 'kershcl01']);
+	});
+
+	it('reads lowercase words that are also surnames as words', async () => {
+		assert.deepEqual(await ids('which pitchers had the lowest era in hitter-friendly parks in 2019'), []);
+		assert.deepEqual(await ids('youngest pitcher to debut in 2019'), []);
+		assert.deepEqual(await ids('Best ERA in hitter-friendly parks in 2019'), []);
+	});
+
+	it('does not read the first word of a sentence as a name because of its capital', async () => {
+		const youngest = await resolveEntities(db, 'Youngest pitcher to debut in 2019');
+		assert.deepEqual([youngest.entities, youngest.ambiguous], [[], []]);
+		assert.deepEqual(await ids('Tallest pitcher in 2023'), []);
+		assert.deepEqual(await ids('Compare the two. Tallest pitcher in 2023?'), []);
+	});
+
+	it('resolves a sentence-initial possessive last name or full name', async () => {
+		assert.deepEqual(await ids("Kershaw's ERA in 2018?"), ['kershcl01']);
+		assert.deepEqual(await ids('Clayton Kershaw ERA in 2018'), ['kershcl01']);
+		const young = await resolveEntities(db, 'Young pitchers with the most strikeouts in 2023');
+		assert.deepEqual([young.entities, young.ambiguous], [[], []]);
+	});
+
+	it('resolves a lowercase possessive last name', async () => {
+		assert.deepEqual(await ids("what was kershaw's era in 2018"), ['kershcl01']);
+	});
+
+	it('narrows a shared name by team, or asks which one', async () => {
+		assert.deepEqual(await ids('How did Will Smith pitch for the Dodgers in 2019?'), ['LAN', 'smithwi04']);
+		const resolution = await resolveEntities(db, 'How many saves did Will Smith have?');
+		assert.deepEqual(resolution.ambiguous.map(mention => mention.candidates.map(candidate => candidate.id)), [['smithwi04', 'smithwi05']]);
+		assert.deepEqual((await resolveEntities(db, 'How many saves did Will Smith have?', { 'Will Smith': 'smithwi05' })).entities.map(entity => entity.id), ['smithwi05']);
+	});
+});
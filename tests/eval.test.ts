@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+
+import { createEvalAI } from '../scripts/eval_ai';
+import { NEEDS_SQLITE, migratedDatabase } from './sqlite';
+
+const ROOT = process.cwd();
+const MODEL = '@cf/meta/llama-3.1-8b-instruct';
+
+function ask(question: string) {
+	return { messages: [{ role: 'system', content: 'Write SQL.' }, { role: 'user', content: `${question}\n\nSchema: ...` }] };
+}
+
+describe('createEvalAI', () => {
+	const dir = mkdtempSync(join(tmpdir(), 'eval-ai-'));
+	before(() => Object.assign(process.env, { CLOUDFLARE_ACCOUNT_ID: 'account', CLOUDFLARE_API_TOKEN: 'token' }));
+	after(() => {
+		delete process.env.CLOUDFLARE_ACCOUNT_ID;
+		delete process.env.CLOUDFLARE_API_TOKEN;
+		rmSync(dir, { recursive: true, force: true });
+	});
+	afterEach(() => mock.restoreAll());
+
+	it('answers each question with its golden query in reference mode', async () => {
+		const { ai } = createEvalAI('reference', {
+			recordingsFile: join(dir, 'unused.json'),
+			record: false,
+			reference: new Map([['Who won the 1927 World Series?', 'SELECT name FROM teams']]),
+		});
+		assert.deepEqual(await ai.run(MODEL as any, ask('Who won the 1927 World Series?') as any), { response: 'SELECT name FROM teams' });
+		await assert.rejects(ai.run(MODEL as any, ask('Who pitched in 1927?') as any), /No golden query for "Who pitched in 1927\?"/);
+	});
+
+	it('replays recorded remote replies and needs a new one when the prompt changes', async () => {
+		const file = join(dir, 'recordings.json');
+		assert.throws(
+			() => createEvalAI('recorded', { recordingsFile: file, record: false, reference: new Map() }),
+			/No recordings at .*recordings\.json/
+		);
+
+		const fetch = mock.method(globalThis, 'fetch', async () =>
+			Response.json({ success: true, result: { response: 'SELECT 1' } })
+		);
+		mock.method(console, 'log', () => {});
+		const remote = createEvalAI('remote', { recordingsFile: file, record: true, reference: new Map() });
+		assert.deepEqual(await remote.ai.run(MODEL as any, ask('How many teams?') as any), { response: 'SELECT 1' });
+		assert.equal(fetch.mock.calls[0].arguments[0], `https://api.cloudflare.com/client/v4/accounts/account/ai/run/${MODEL}`);
+		remote.save();
+		assert.deepEqual(Object.values(JSON.parse(readFileSync(file, 'utf-8'))), [{ question: 'How many teams?', response: 'SELECT 1' }]);
+
+		const recorded = createEvalAI('recorded', { recordingsFile: file, record: false, reference: new Map() });
+		assert.deepEqual(await recorded.ai.run(MODEL as any, ask('How many teams?') as any), { response: 'SELECT 1' });
+		await assert.rejects(
+			recorded.ai.run('@cf/other-model' as any, ask('How many teams?') as any),
+			/No recorded response for "How many teams\?"/
+		);
+		assert.equal(fetch.mock.callCount(), 1);
+	});
+
+	it('reports Workers AI errors', async () => {
+		mock.method(globalThis, 'fetch', async () =>
+			Response.json({ success: false, errors: [{ message: 'Capacity temporarily exceeded' }] }, { status: 429 })
+		);
+		const { ai } = createEvalAI('remote', { recordingsFile: join(dir, 'none.json'), record: false, reference: new Map() });
+		await assert.rejects(ai.run(MODEL as any, ask('How many teams?') as any), /Workers AI request failed \(429\): Capacity temporarily exceeded/);
+	});
+});
+
+describe('eval runner', { skip: NEEDS_SQLITE }, () => {
+	const db = migratedDatabase();
+	after(() => db.close());
+
+	it('scores every golden question as a match when the model answers with the golden query', () => {
+		const report = join(db.path, '..', 'report.json');
+		const result = spawnSync(
+			join(ROOT, 'node_modules', '.bin', 'tsx'),
+			[join(ROOT, 'scripts', 'eval_sql.ts'), '--ai=reference', `--database=${db.path}`, `--report=${report}`],
+			{ cwd: ROOT, env: { ...process.env, SQL_PROVIDER: 'workers-ai' }, encoding: 'utf-8' }
+		);
+		assert.equal(result.status, 0, result.stderr);
+		assert.ok(existsSync(report));
+
+		const { summary, results } = JSON.parse(readFileSync(report, 'utf-8'));
+		const golden = JSON.parse(readFileSync(join(ROOT, 'eval', 'golden.json'), 'utf-8'));
+		assert.equal(results.length, golden.length);
+		assert.deepEqual(results.filter((r: any) => r.status !== 'match').map((r: any) => `${r.id}: ${r.error}`), []);
+		assert.equal(summary.executionAccuracy, 1);
+		assert.equal(summary.skipped, 0);
+	});
+
+	it('fails without a database', () => {
+		const result = spawnSync(
+			join(ROOT, 'node_modules', '.bin', 'tsx'),
+			[join(ROOT, 'scripts', 'eval_sql.ts'), '--ai=reference', `--database=${join(db.path, '..', 'missing.sqlite')}`],
+			{ cwd: ROOT, encoding: 'utf-8' }
+		);
+		assert.equal(result.status, 1);
+		assert.match(result.stderr, /No SQLite database at .*missing\.sqlite; create one with npm run seed:sqlite/);
+	});
+});
@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, describe, it, mock } from 'node:test';
+
+import {
+	BUILT_IN_EXAMPLES,
+	SQLExample,
+	addExample,
+	deleteExample,
+	formatExamples,
+	listExamples,
+	selectExamples,
+} from '../workers/example_library';
+import { validateQuery } from '../workers/sql_guard';
+import { fakeDB } from './fake_d1';
+import { NEEDS_SQLITE, migratedDatabase } from './sqlite';
+
+interface StoredRow {
+	id: number;
+	question: string;
+	sql: string;
+	embedding: string | null;
+}
+
+/** A sql_examples table kept in memory */
+function libraryDB(rows: StoredRow[] = []): D1Database {
+	return fakeDB((sql, params) => {
+		if (sql.startsWith('INSERT INTO sql_examples')) {
+			const [question, exampleSQL, embedding] = params as [string, string, string | null];
+			const row = { id: rows.length + 1, question, sql: exampleSQL, embedding };
+			rows.push(row);
+			return [{ id: row.id, question, sql: exampleSQL, createdAt: '2024-05-01 12:00:00' }];
+		}
+		if (sql.startsWith('DELETE FROM sql_examples')) {
+			const index = rows.findIndex(row => row.id === params[0]);
+			return index === -1 ? [] : rows.splice(index, 1);
+		}
+		if (sql.includes('created_at AS createdAt')) {
+			return rows.map(({ id, question, sql }) => ({ id, question, sql, createdAt: '2024-05-01 12:00:00' }));
+		}
+		return rows.map(({ question, sql, embedding }) => ({ question, sql, embedding }));
+	});
+}
+
+/** Embeddings with one dimension per topic, so similarity is easy to predict */
+function topicAI(calls: string[][] = []): Ai {
+	const topics = ['saves', 'kershaw', 'park'];
+	const run = async (_model: string, inputs: { text: string[] }) => {
+		calls.push(inputs.text);
+		return { data: inputs.text.map(text => [...topics.map(topic => (text.toLowerCase().includes(topic) ? 1 : 0)), 0.01]) };
+	};
+	return { run } as unknown as Ai;
+}
+
+const questions = (examples: SQLExample[]) => examples.map(example => example.question);
+
+describe('selectExamples', () => {
+	const rows: StoredRow[] = [];
+	const db = libraryDB(rows);
+	afterEach(() => mock.restoreAll());
+
+	it('ranks built-in examples by rare shared words without an AI binding', async () => {
+		const examples = await selectExamples(db, undefined, 'Who had the most saves in 2011?', 1);
+		assert.deepEqual(questions(examples), ['Who led the majors in saves in 2023?']);
+
+		const kershaw = await selectExamples(db, undefined, "What was Clayton Kershaw's ERA in 2014?", 1);
+		assert.deepEqual(questions(kershaw), ['Clayton Kershaw career ERA']);
+		assert.equal((await selectExamples(db, undefined, 'anything')).length, 6);
+	});
+
+	it('adds stored examples to the library and drops deleted ones', async () => {
+		const stored = await addExample(db, undefined, {
+			question: 'Which closers blew the most saves in 2015?',
+			sql: 'SELECT playerID, SV FROM pitching WHERE yearID = 2015',
+		});
+		assert.deepEqual(stored, {
+			id: 1,
+			question: 'Which closers blew the most saves in 2015?',
+			sql: 'SELECT playerID, SV FROM pitching WHERE yearID = 2015',
+			createdAt: '2024-05-01 12:00:00',
+		});
+		assert.equal(rows[0].embedding, null);
+		assert.deepEqual(await listExamples(db), [stored]);
+
+		const examples = await selectExamples(db, undefined, 'Which closers blew saves in 2019?', 1);
+		assert.deepEqual(questions(examples), ['Which closers blew the most saves in 2015?']);
+
+		assert.equal(await deleteExample(db, 1), true);
+		assert.equal(await deleteExample(db, 1), false);
+		const remaining = await selectExamples(db, undefined, 'Which closers blew saves in 2019?', 1);
+		assert.deepEqual(questions(remaining), ['Who led the majors in saves in 2023?']);
+	});
+
+	it('ranks by embeddings when the AI binding answers, embedding built-ins once', async () => {
+		const calls: string[][] = [];
+		const ai = topicAI(calls);
+		const stored = await addExample(db, ai, { question: 'Park factors at Coors', sql: 'SELECT park, BPF FROM teams' });
+		assert.deepEqual(JSON.parse(rows.find(row => row.id === stored.id)!.embedding!), [0, 0, 1, 0.01]);
+
+		const first = await selectExamples(db, ai, 'kershaw strikeouts', 1);
+		assert.deepEqual(questions(first), ['Clayton Kershaw career ERA']);
+		const second = await selectExamples(db, ai, 'which park helps hitters', 2);
+		assert.deepEqual(questions(second), ['Most hitter-friendly parks in 2024', 'Park factors at Coors']);
+
+		// Built-ins, the new example, then one call per question
+		assert.deepEqual(calls.map(texts => texts.length), [1, BUILT_IN_EXAMPLES.length, 1, 1]);
+	});
+
+	it('falls back to lexical scores when embedding fails', async () => {
+		const warn = mock.method(console, 'warn', () => {});
+		const ai = { run: async () => { throw new Error('3040: capacity exceeded'); } } as unknown as Ai;
+		const examples = await selectExamples(db, ai, 'Who had the most saves in 2011?', 1);
+		assert.deepEqual(questions(examples), ['Who led the majors in saves in 2023?']);
+		assert.equal(warn.mock.callCount(), 1);
+	});
+});
+
+describe('formatExamples', () => {
+	it('writes each example as a question and answer pair', () => {
+		assert.equal(
+			formatExamples([{ question: 'Q1?', sql: 'SELECT 1' }, { question: 'Q2?', sql: 'SELECT 2' }]),
+			'Q: Q1?\nA: SELECT 1\n\nQ: Q2?\nA: SELECT 2'
+		);
+	});
+});
+
+describe('built-in examples', () => {
+	it('pass the SQL guard', () => {
+		for (const example of BUILT_IN_EXAMPLES) {
+			assert.doesNotThrow(() => validateQuery(example.sql), example.question);
+		}
+	});
+
+	describe('against the migrated schema', { skip: NEEDS_SQLITE }, () => {
+		const db = migratedDatabase();
+		after(() => db.close());
+
+		it('all run', () => {
+			for (const example of BUILT_IN_EXAMPLES) {
+				assert.doesNotThrow(() => db.query(validateQuery(example.sql).sql), example.question);
+			}
+		});
+	});
+});
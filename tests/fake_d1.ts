@@ -0,0 +1,18 @@
+/**
+ * In-memory stand-in for a D1 binding: every query is answered by a
+ * function of its SQL and bound values, so modules that read D1 can be
+ * tested without a database. For run(), the rows returned count as the
+ * rows changed.
+ */
+
+export type Responder = (sql: string, params: unknown[]) => Record<string, unknown>[];
+
+export function fakeDB(respond: Responder): D1Database {
+	const statement = (sql: string, params: unknown[] = []) => ({
+		bind: (...values: unknown[]) => statement(sql, values),
+		all: async () => ({ results: respond(sql, params), success: true, meta: {} }),
+		first: async () => respond(sql, params)[0] ?? null,
+		run: async () => ({ results: [], success: true, meta: { changes: respond(sql, params).length } }),
+	});
+	return { prepare: (sql: string) => statement(sql) } as unknown as D1Database;
+}
@@ -0,0 +1,45 @@
+/**
+ * In-memory stand-in for a Durable Object namespace: one instance of the
+ * class per name, each with its own storage, reached through stubs the
+ * same way the Worker reaches them
+ */
+
+interface DurableObject {
+	fetch(request: Request): Promise<Response>;
+}
+
+export function fakeNamespace(create: (state: DurableObjectState) => DurableObject): DurableObjectNamespace {
+	const objects = new Map<string, DurableObject>();
+	return {
+		idFromName: (name: string) => ({ toString: () => name, name }),
+		get: (id: DurableObjectId) => {
+			const name = id.toString();
+			if (!objects.has(name)) {
+				objects.set(name, create({ storage: memoryStorage() } as unknown as DurableObjectState));
+			}
+			return { fetch: (input: RequestInfo, init?: RequestInit) => objects.get(name)!.fetch(new Request(input, init)) };
+		},
+	} as unknown as DurableObjectNamespace;
+}
+
+function memoryStorage() {
+	const values = new Map<string, unknown>();
+	const copy = <T>(value: T): T => (value === undefined ? value : structuredClone(value));
+	return {
+		async get(keys: string | string[]) {
+			if (!Array.isArray(keys)) return copy(values.get(keys));
+			return new Map(keys.filter(key => values.has(key)).map(key => [key, copy(values.get(key))]));
+		},
+		async put(entries: string | Record<string, unknown>, value?: unknown) {
+			const pairs = typeof entries === 'string' ? [[entries, value] as const] : Object.entries(entries);
+			for (const [key, entry] of pairs) values.set(key, copy(entry));
+		},
+		async delete(keys: string | string[]) {
+			for (const key of Array.isArray(keys) ? keys : [keys]) values.delete(key);
+		},
+		async list({ prefix = '' }: { prefix?: string } = {}) {
+			const keys = [...values.keys()].filter(key => key.startsWith(prefix)).sort();
+			return new Map(keys.map(key => [key, copy(values.get(key))]));
+		},
+	};
+}
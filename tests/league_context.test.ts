@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { ERA_PLUS_SQL, LeagueContext, describeLeagueContext, findLeagueContext } from '../workers/league_context';
+import { fakeDB } from './fake_d1';
+
+const COLE = {
+	playerID: 'coleg01', yearID: 2023, lgID: 'AL', nameFirst: 'Gerrit', nameLast: 'Cole',
+	G: 33, GS: 33, IP: 209, ERA: 2.63, WHIP: 0.98, K9: 9.6, FIP: 3.16, lgERA: 4.33, eraPlus: 165,
+};
+const CLASE = {
+	playerID: 'clasee01', yearID: 2023, lgID: 'AL', nameFirst: 'Emmanuel', nameLast: 'Clase',
+	G: 75, GS: 0, IP: 72.1, ERA: 3.22, WHIP: 1.21, K9: 8.2, FIP: 3.24, lgERA: 4.33, eraPlus: 134,
+};
+const STARTERS = [2.63, 3.1, 3.5, 3.9, 4.2, 4.8].map(ERA => ({ ERA, WHIP: 1.2, K9: 8, FIP: ERA }));
+
+/** A database with Cole and Clase, six qualified AL starters and two AL relievers */
+function leagueDB(queries: { sql: string; params: unknown[] }[] = []) {
+	return fakeDB((sql, params) => {
+		queries.push({ sql, params });
+		if (sql.includes('FROM teams GROUP BY yearID')) return [{ yearID: 2023, games: 162 }];
+		if (sql.includes('JOIN people p')) return [COLE, CLASE].filter(line => params.includes(line.playerID));
+		if (sql.includes('GS * 2 >= G')) return STARTERS;
+		if (sql.includes('GS * 2 < G')) return [{ ERA: 3.22, WHIP: 1.21, K9: 8.2, FIP: 3.24 }, { ERA: 1.9, WHIP: 1, K9: 11, FIP: 2.5 }];
+		return [];
+	});
+}
+
+describe('findLeagueContext', () => {
+	it('ranks a starter among qualified starters in the same season and league', async () => {
+		const queries: { sql: string; params: unknown[] }[] = [];
+		const [context] = await findLeagueContext(
+			leagueDB(queries),
+			'SELECT ps.playerID, ps.ERA FROM pitching_season ps WHERE ps.yearID = 2023 ORDER BY ps.ERA ASC LIMIT 1;',
+			[{ playerID: 'coleg01', ERA: 2.63 }]
+		);
+		assert.deepEqual(
+			[context.role, context.leagueERA, context.eraPlus, context.qualified, context.minimumIP, context.poolSize],
+			['starter', 4.33, 165, true, 162, 6]
+		);
+		assert.deepEqual(context.percentiles, { ERA: 92, WHIP: 100, K9: 100, FIP: 67 });
+		assert.ok(queries.some(({ sql }) => sql.includes(`${ERA_PLUS_SQL} AS eraPlus`)), 'ERA+ uses the shared definition');
+		assert.deepEqual(queries.find(({ sql }) => sql.includes('GS * 2 >= G'))!.params, [2023, 'AL', 162]);
+	});
+
+	it('judges a reliever against the relief minimum and gives small pools no percentiles', async () => {
+		const [context] = await findLeagueContext(
+			leagueDB(),
+			'SELECT p.nameLast, ps.SV FROM pitching_season ps JOIN people p ON p.playerID = ps.playerID WHERE ps.yearID = 2023;',
+			[{ nameLast: 'Clase', SV: 44 }],
+			['clasee01']
+		);
+		assert.deepEqual([context.role, context.minimumIP, context.qualified, context.poolSize], ['reliever', 54, true, 2]);
+		assert.deepEqual(context.percentiles, {});
+	});
+
+	it('keeps the order of the rows', async () => {
+		const contexts = await findLeagueContext(
+			leagueDB(),
+			'SELECT ps.playerID, ps.yearID FROM pitching_season ps LIMIT 2;',
+			[{ playerID: 'clasee01', yearID: 2023 }, { playerID: 'coleg01', yearID: 2023 }]
+		);
+		assert.deepEqual(contexts.map(context => context.playerID), ['clasee01', 'coleg01']);
+	});
+
+	it('adds nothing to answers that are not about pitchers', async () => {
+		const queries: { sql: string; params: unknown[] }[] = [];
+		const contexts = await findLeagueContext(
+			leagueDB(queries),
+			'SELECT b.playerID, b.HR FROM batting b WHERE b.yearID = 2023 LIMIT 1;',
+			[{ playerID: 'olsonma02', HR: 54 }]
+		);
+		assert.deepEqual([contexts, queries], [[], []]);
+	});
+});
+
+describe('describeLeagueContext', () => {
+	it('writes ERA+, percentiles and a missed minimum', () => {
+		const context: LeagueContext = {
+			playerID: 'coleg01', name: 'Gerrit Cole', yearID: 2023, lgID: 'ML', role: 'starter', ERA: 2.63,
+			leagueERA: 4.33, eraPlus: 165, qualified: false, minimumIP: 162, poolSize: 45, percentiles: { ERA: 97, K9: 81 },
+		};
+		assert.equal(
+			describeLeagueContext([context]),
+			'- Gerrit Cole, 2023: ERA+ 165 (league ERA 4.33); 97th percentile in ERA, 81st percentile in K/9 among 45 qualified MLB starters; below the 162 IP minimum to qualify'
+		);
+	});
+});
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { BUILT_IN_EXAMPLES } from '../workers/example_library';
+import { DEFAULT_WORKERS_AI_MODEL, MockProvider, createStageModel } from '../workers/model_provider';
+import { generateSQL } from '../workers/sql_generation';
+
+describe('createStageModel', () => {
+	it('builds each stage from its own vars', () => {
+		const env = { SQL_PROVIDER: 'mock', SQL_TEMPERATURE: '0', ANSWER_PROVIDER: 'mock', ANSWER_MAX_TOKENS: '800' };
+		const sql = createStageModel(env, 'sql');
+		const answer = createStageModel(env, 'answer');
+		assert.equal(sql.provider.name, 'mock');
+		assert.deepEqual(sql.settings, { model: 'mock', temperature: 0, maxTokens: 500 });
+		assert.deepEqual(answer.settings, { model: 'mock', temperature: 0.3, maxTokens: 800 });
+	});
+
+	it('defaults to Workers AI, which needs the AI binding', () => {
+		const model = createStageModel({ AI: {} as Ai }, 'sql');
+		assert.deepEqual([model.provider.name, model.settings.model], ['workers-ai', DEFAULT_WORKERS_AI_MODEL]);
+		assert.throws(() => createStageModel({}, 'sql'), /SQL_PROVIDER is workers-ai but there is no AI binding/);
+	});
+
+	it('refuses incomplete or unknown settings', () => {
+		assert.throws(() => createStageModel({ ANSWER_PROVIDER: 'openai', ANSWER_MODEL: 'gpt-4o-mini' }, 'answer'), /OPENAI_BASE_URL/);
+		assert.throws(() => createStageModel({ SQL_PROVIDER: 'llama' }, 'sql'), /Unknown SQL_PROVIDER "llama"/);
+		assert.throws(() => createStageModel({ SQL_PROVIDER: 'mock', SQL_MAX_TOKENS: 'lots' }, 'sql'), /SQL_MAX_TOKENS must be a number/);
+	});
+});
+
+describe('MockProvider', () => {
+	const mock = { provider: new MockProvider(), settings: { model: 'mock', temperature: 0, maxTokens: 500 } };
+
+	it('answers SQL prompts with the matching few-shot example', async () => {
+		const example = BUILT_IN_EXAMPLES.find(entry => entry.question === 'Who led the majors in saves in 2023?')!;
+		assert.equal(await generateSQL(mock, example.question), example.sql);
+		assert.equal(await generateSQL(mock, 'Something no example asks'), BUILT_IN_EXAMPLES[0].sql);
+	});
+
+	it('matches a follow-up by its own question, not the context added to it', async () => {
+		const history = [{ question: 'Who had the lowest ERA in 2023?', sql: BUILT_IN_EXAMPLES[0].sql, summary: '1 row(s)', answer: '', createdAt: '' }];
+		const example = BUILT_IN_EXAMPLES.find(entry => entry.question === 'Highest batting average in 2023')!;
+		assert.equal(await generateSQL(mock, example.question, [], history), example.sql);
+	});
+
+	it('streams the same reply it completes', async () => {
+		const messages = [{ role: 'user' as const, content: 'The user asked: "Who won?"\n\nrows' }];
+		let streamed = '';
+		for await (const token of mock.provider.stream(messages)) streamed += token;
+		assert.equal(streamed, 'Mock answer to "Who won?".');
+		assert.equal(await mock.provider.complete(messages), streamed);
+	});
+});
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { after, describe, it } from 'node:test';
+
+import { NEEDS_SQLITE, migratedDatabase } from './sqlite';
+
+// A 2023 league of two full pitching lines and one that never recorded an out:
+// 900 outs and 100 earned runs make a 3.00 league ERA
+const PITCHING = [
+	"('acepi01', 2023, 1, 'SEA', 'AL', 32, 32, 600, 150, 50, 20, 40, 220, 5)",
+	"('backe01', 2023, 1, 'SEA', 'AL', 30, 10, 300, 100, 50, 15, 30, 80, 5)",
+	"('ghost01', 2023, 1, 'SEA', 'AL', 1, 0, 0, 2, 2, 0, 1, 0, 0)",
+];
+
+describe('pitching_advanced', { skip: NEEDS_SQLITE }, () => {
+	const db = migratedDatabase();
+	after(() => db.close());
+	db.run(`INSERT INTO pitching (playerID, yearID, stint, teamID, lgID, G, GS, IPouts, H, ER, HR, BB, SO, HBP) VALUES ${PITCHING.join(', ')};`);
+
+	it('derives the league ERA and FIP constant from the season totals', () => {
+		const [constants] = db.query<{ lgERA: number; cFIP: number }>('SELECT lgERA, ROUND(cFIP, 4) AS cFIP FROM league_pitching_constants WHERE yearID = 2023');
+		assert.deepEqual(constants, { lgERA: 3, cFIP: 2.6833 });
+	});
+
+	it('computes innings and rate stats from outs', () => {
+		const [ace] = db.query("SELECT IP, WHIP, K9, BB9, HR9, KBB, FIP FROM pitching_advanced WHERE playerID = 'acepi01'");
+		assert.deepEqual(ace, { IP: 200, WHIP: 0.95, K9: 9.9, BB9: 1.8, HR9: 0.9, KBB: 5.5, FIP: 2.46 });
+	});
+
+	it('leaves rates empty for a line without outs', () => {
+		const [ghost] = db.query("SELECT IP, WHIP, K9, FIP FROM pitching_advanced WHERE playerID = 'ghost01'");
+		assert.deepEqual(ghost, { IP: 0, WHIP: null, K9: null, FIP: null });
+	});
+});
+
+describe('pitching_season', { skip: NEEDS_SQLITE }, () => {
+	const db = migratedDatabase();
+	after(() => db.close());
+	// Traded from Detroit to Los Angeles: stints inserted out of order, each with its own ERA
+	db.run(`
+		INSERT INTO pitching (playerID, yearID, stint, teamID, lgID, W, L, G, GS, SV, IPouts, H, ER, HR, BB, SO, HBP, ERA) VALUES
+			('traded01', 2021, 2, 'LAN', 'NL', 7, 0, 11, 11, 0, 204, 40, 9, 4, 8, 89, 1, 1.19),
+			('traded01', 2021, 1, 'DET', 'AL', 8, 4, 19, 19, 0, 333, 96, 38, 14, 28, 147, 3, 3.08),
+			('stayed01', 2021, 1, 'SEA', 'AL', 12, 8, 30, 30, 0, 540, 160, 60, 20, 45, 180, 4, 3.00),
+			('stayed01', 2021, 2, 'HOU', 'AL', 0, 1, 3, 0, 1, 9, 4, 2, 1, 1, 2, 0, 6.00);
+	`);
+
+	it('sums a traded pitcher\'s stints into one season', () => {
+		const rows = db.query("SELECT stints, teams, lgID, W, L, G, GS, IPouts, ER, SO FROM pitching_season WHERE playerID = 'traded01'");
+		assert.deepEqual(rows, [{ stints: 2, teams: 'DET,LAN', lgID: 'ML', W: 15, L: 4, G: 30, GS: 30, IPouts: 537, ER: 47, SO: 236 }]);
+	});
+
+	it('recomputes ERA and rates from the season totals rather than a stint', () => {
+		const [season] = db.query("SELECT ERA, IP, WHIP, K9 FROM pitching_season WHERE playerID = 'traded01'");
+		assert.deepEqual(season, { ERA: 2.36, IP: 179, WHIP: 0.961, K9: 11.87 });
+	});
+
+	it('keeps the league for a season spent in one league', () => {
+		const [season] = db.query("SELECT stints, teams, lgID, SV, ERA FROM pitching_season WHERE playerID = 'stayed01'");
+		assert.deepEqual(season, { stints: 2, teams: 'SEA,HOU', lgID: 'AL', SV: 1, ERA: 3.05 });
+	});
+});
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { Qualification, checkQualification, findQualification } from '../workers/qualification';
+import { fakeDB } from './fake_d1';
+
+// Team games per season: a full 2023 and the shortened 2020
+const db = fakeDB(sql => (/FROM teams GROUP BY yearID/.test(sql) ? [{ yearID: 2020, games: 60 }, { yearID: 2023, games: 162 }] : []));
+
+const SEASON: Qualification = {
+	group: 'pitching',
+	stat: 'ERA',
+	unit: 'IP',
+	minimum: 162,
+	perGame: 1,
+	source: 'rule',
+	description: 'at least 162 innings pitched',
+};
+const EVERY_SEASON: Qualification = { ...SEASON, minimum: null, description: 'at least 1 innings pitched per team game in each season' };
+
+describe('findQualification', () => {
+	it('uses the season schedule for the default minimum', async () => {
+		assert.equal((await findQualification(db, 'Who had the lowest ERA in 2023?'))?.minimum, 162);
+		assert.equal((await findQualification(db, 'Who had the lowest ERA in 2020?'))?.minimum, 60);
+	});
+
+	it('applies the reliever, batting and career rules', async () => {
+		const relief = await findQualification(db, 'Which reliever had the lowest ERA in 2023?');
+		assert.deepEqual([relief?.group, relief?.minimum], ['relief', 54]);
+		const batting = await findQualification(db, 'Highest batting average in 2023');
+		assert.deepEqual([batting?.unit, batting?.minimum], ['PA', 502]);
+		assert.equal((await findQualification(db, 'Lowest career ERA'))?.minimum, 1000);
+	});
+
+	it('takes a minimum from the question, or none at all', async () => {
+		const user = await findQualification(db, 'Lowest WHIP in 2022 with at least 100 innings');
+		assert.deepEqual([user?.source, user?.unit, user?.minimum], ['question', 'IP', 100]);
+		assert.equal(await findQualification(db, 'Lowest ERA in 2023, no minimum'), null);
+	});
+
+	it('ignores team questions, counting stats and "era" as a period', async () => {
+		assert.equal(await findQualification(db, 'Which team had the lowest ERA in 2023?'), null);
+		assert.equal(await findQualification(db, 'Who had the most strikeouts in 2023?'), null);
+		assert.equal(await findQualification(db, 'Best pitchers of the modern era'), null);
+	});
+
+	it('reads a follow-up together with the question it follows', async () => {
+		const followUp = await findQualification(db, 'What about 2020?', {}, 'Who had the lowest ERA in 2023?');
+		assert.equal(followUp?.minimum, 60);
+	});
+});
+
+describe('checkQualification', () => {
+	const passes = (sql: string, qualification = SEASON) => checkQualification(sql, qualification) === null;
+
+	it('accepts thresholds that reach the minimum', () => {
+		assert.ok(passes('SELECT * FROM pitching_season WHERE yearID = 2023 AND IP >= 162 ORDER BY ERA'));
+		assert.ok(passes('SELECT * FROM pitching_season ps WHERE ps.IPouts >= 486 ORDER BY ERA'));
+		assert.ok(passes('SELECT * FROM pitching_season ps WHERE ps.IPouts > 485 ORDER BY ERA'));
+		assert.ok(passes('SELECT playerID FROM pitching GROUP BY playerID HAVING SUM(IPouts) / 3.0 >= 162'));
+	});
+
+	it('rejects comparisons that do not qualify anyone', () => {
+		assert.ok(!passes('SELECT * FROM pitching_season WHERE IPouts > 0 ORDER BY ERA'));
+		assert.ok(!passes('SELECT * FROM pitching_season WHERE IP >= 1 ORDER BY ERA'));
+		assert.ok(!passes('SELECT * FROM pitching_season WHERE IPouts >= 162 ORDER BY ERA'));
+		assert.ok(!passes('SELECT * FROM pitching_season WHERE GS >= 162 ORDER BY ERA'));
+		assert.ok(!passes('SELECT * FROM pitching_season ORDER BY ERA'));
+	});
+
+	it('accepts a minimum per team game across seasons', () => {
+		const games = '(SELECT MAX(t.G) FROM teams t WHERE t.yearID = ps.yearID)';
+		assert.ok(passes(`SELECT * FROM pitching_season ps WHERE ps.IP >= 1 * ${games}`, EVERY_SEASON));
+		assert.ok(passes('SELECT * FROM pitching_season ps JOIN teams t ON t.yearID = ps.yearID WHERE ps.IP >= t.G', EVERY_SEASON));
+		assert.ok(!passes(`SELECT * FROM pitching_season ps WHERE ps.IP >= 0.5 * ${games}`, EVERY_SEASON));
+
+		const relief = { ...EVERY_SEASON, group: 'relief' as const, perGame: 1 / 3 };
+		assert.ok(passes(`SELECT * FROM pitching_season ps WHERE ps.IP >= (1.0 / 3) * ${games}`, relief));
+		assert.ok(passes(`SELECT * FROM pitching_season ps WHERE ps.IP >= ${games} / 3`, relief));
+	});
+
+	it('checks plate appearances written as their sum', () => {
+		const batting: Qualification = { ...SEASON, group: 'batting', stat: 'AVG', unit: 'PA', minimum: 502, perGame: 3.1 };
+		assert.ok(passes('SELECT * FROM batting WHERE (AB + BB + HBP + SH + SF) >= 502', batting));
+		assert.ok(!passes('SELECT * FROM batting WHERE (AB + BB + HBP + SH + SF) >= 100', batting));
+	});
+});
@@ -0,0 +1,196 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, beforeEach, describe, it, mock } from 'node:test';
+
+import { QueryLogEntry, queryStats, writeQueryLog } from '../workers/query_log';
+import { RequestTrace, describeError } from '../workers/tracing';
+import { fakeDB } from './fake_d1';
+import { NEEDS_SQLITE, TestDatabase, migratedDatabase } from './sqlite';
+
+const NOW = Date.parse('2024-06-01T12:00:00Z');
+
+/**
+ * D1 over the sqlite3 CLI, with bound values written into the SQL as
+ * literals; enough for the query log's statements
+ */
+function sqliteD1(db: TestDatabase): D1Database {
+	const inline = (sql: string, params: unknown[]) => {
+		let index = 0;
+		return sql.replace(/\?/g, () => {
+			const value = params[index++];
+			if (value === null || value === undefined) return 'NULL';
+			return typeof value === 'number' ? String(value) : `'${String(value).replace(/'/g, "''")}'`;
+		});
+	};
+	const statement = (sql: string, params: unknown[] = []) => ({
+		bind: (...values: unknown[]) => statement(sql, values),
+		all: async () => ({ results: db.query(inline(sql, params)), success: true, meta: {} }),
+		first: async () => db.query(inline(sql, params))[0] ?? null,
+		run: async () => {
+			db.run(`${inline(sql, params)};`);
+			return { results: [], success: true, meta: {} };
+		},
+	});
+	return { prepare: (sql: string) => statement(sql) } as unknown as D1Database;
+}
+
+/** Log one request that took `latencyMs`, with the given stage timings */
+async function logRequest(d1: D1Database, latencyMs: number, entry: QueryLogEntry, timings: RequestTrace['timings'] = {}) {
+	const trace = new RequestTrace('/api/chat');
+	Object.assign(trace.timings, timings);
+	mock.timers.tick(latencyMs);
+	await writeQueryLog(d1, trace, entry);
+}
+
+describe('query log', { skip: NEEDS_SQLITE }, () => {
+	const db = migratedDatabase();
+	const d1 = sqliteD1(db);
+	after(() => db.close());
+	beforeEach(() => {
+		mock.timers.enable({ apis: ['Date'], now: NOW });
+		mock.method(console, 'log', () => {});
+		mock.method(console, 'warn', () => {});
+	});
+	afterEach(() => {
+		mock.timers.reset();
+		mock.restoreAll();
+	});
+
+	it('stores one row per request with its timings', async () => {
+		await logRequest(d1, 850, {
+			question: 'Who had the lowest ERA in 2023?',
+			caller: 'ip:192.0.2.1',
+			sql: 'SELECT 1',
+			rowCount: 10,
+			attempts: 1,
+			cacheSql: 'miss',
+		}, { resolve: 20, generate_sql: 600, execute_sql: 30 });
+
+		const rows = db.query('SELECT created_at, route, caller, question_key, row_count, attempts, cache_sql, error_class, latency_ms, resolve_ms, generate_ms, execute_ms, format_ms FROM query_log');
+		assert.deepEqual(rows, [{
+			created_at: '2024-06-01T12:00:00.850Z',
+			route: '/api/chat',
+			caller: 'ip:192.0.2.1',
+			question_key: 'who had the lowest era in 2023',
+			row_count: 10,
+			attempts: 1,
+			cache_sql: 'miss',
+			error_class: null,
+			latency_ms: 850,
+			resolve_ms: 20,
+			generate_ms: 600,
+			execute_ms: 30,
+			format_ms: null,
+		}]);
+	});
+
+	it('summarizes failures, clarifications, cache hits, latency and popular questions', async () => {
+		// Five more requests on top of the one stored above
+		await logRequest(d1, 150, { question: 'who had the lowest era in 2023', rowCount: 10, cacheSql: 'hit' }, { resolve: 10 });
+		await logRequest(d1, 2000, { question: 'Who had the lowest ERA in 2023?', errorClass: 'QueryValidationError', error: 'Only SELECT' });
+		await logRequest(d1, 400, { question: 'Smith stats', scope: 'ambiguous' });
+		await logRequest(d1, 300, { question: 'NFL passing leaders', scope: 'out_of_coverage' });
+		await logRequest(d1, 600, { question: 'Saves leaders in 1850', rowCount: 0 });
+
+		const stats = await queryStats(d1, 7);
+		assert.deepEqual(stats, {
+			since: '2024-05-25T12:00:03.450Z',
+			days: 7,
+			requests: 6,
+			failures: 1,
+			failureRate: 1 / 6,
+			emptyResults: 1,
+			clarifications: { ambiguous: 1, outOfCoverage: 1 },
+			cacheHitRate: 1 / 6,
+			latencyMs: { p50: 400, p95: 2000 },
+			stageMs: { resolve: 15, generateSQL: 600, executeQuery: 30, formatResponse: null },
+			errorClasses: [{ errorClass: 'QueryValidationError', count: 1 }],
+			popularQuestions: [
+				{ question: 'who had the lowest era in 2023', count: 3, failures: 1 },
+				{ question: 'NFL passing leaders', count: 1, failures: 0 },
+				{ question: 'Saves leaders in 1850', count: 1, failures: 0 },
+				{ question: 'Smith stats', count: 1, failures: 0 },
+			],
+		});
+
+		mock.timers.tick(8 * 24 * 60 * 60 * 1000);
+		const later = await queryStats(d1, 7);
+		assert.equal(later.requests, 0);
+		assert.deepEqual(later.latencyMs, { p50: null, p95: null });
+	});
+});
+
+describe('writeQueryLog', () => {
+	afterEach(() => mock.restoreAll());
+
+	it('logs the request and only warns when the table is missing', async () => {
+		const lines: string[] = [];
+		mock.method(console, 'warn', (line: string) => lines.push(line));
+		const db = fakeDB(() => {
+			throw new Error('D1_ERROR: no such table: query_log');
+		});
+		const trace = new RequestTrace('/api/chat/stream');
+		await writeQueryLog(db, trace, { question: 'Who won?', errorClass: 'Error', error: 'boom' });
+
+		const [complete, failed] = lines.map(line => JSON.parse(line));
+		assert.deepEqual(
+			{ level: complete.level, event: complete.event, requestId: complete.requestId, route: complete.route, errorClass: complete.errorClass },
+			{ level: 'warn', event: 'request_complete', requestId: trace.id, route: '/api/chat/stream', errorClass: 'Error' }
+		);
+		assert.deepEqual(failed, {
+			level: 'warn',
+			event: 'query_log_failed',
+			requestId: trace.id,
+			route: '/api/chat/stream',
+			error: 'D1_ERROR: no such table: query_log',
+		});
+	});
+});
+
+describe('RequestTrace', () => {
+	afterEach(() => {
+		mock.timers.reset();
+		mock.restoreAll();
+	});
+
+	it('sums stage timings over repeats, including failed runs', async () => {
+		mock.timers.enable({ apis: ['Date'], now: NOW });
+		const trace = new RequestTrace('/api/chat');
+		await trace.time('generate_sql', async () => mock.timers.tick(300));
+		await assert.rejects(trace.time('generate_sql', async () => {
+			mock.timers.tick(200);
+			throw new Error('model timeout');
+		}));
+		const stop = trace.start('format_answer');
+		mock.timers.tick(50);
+		stop();
+
+		assert.deepEqual(trace.timings, { generate_sql: 500, format_answer: 50 });
+		assert.equal(trace.elapsed(), 550);
+	});
+
+	it('writes one JSON line per event at its level', () => {
+		const info = mock.method(console, 'log', () => {});
+		const error = mock.method(console, 'error', () => {});
+		const trace = new RequestTrace('/api/chat');
+		trace.log('sql_generated', { attempts: 2 });
+		trace.log('request_failed', describeError(new TypeError('bad input')), 'error');
+
+		assert.deepEqual(JSON.parse(info.mock.calls[0].arguments[0]), { level: 'info', event: 'sql_generated', requestId: trace.id, route: '/api/chat', attempts: 2 });
+		assert.deepEqual(JSON.parse(error.mock.calls[0].arguments[0]), {
+			level: 'error',
+			event: 'request_failed',
+			requestId: trace.id,
+			route: '/api/chat',
+			errorClass: 'TypeError',
+			error: 'bad input',
+		});
+		assert.notEqual(new RequestTrace('/api/chat').id, trace.id);
+	});
+});
+
+describe('describeError', () => {
+	it('names the class of errors and stringifies anything else', () => {
+		assert.deepEqual(describeError(new RangeError('too far')), { errorClass: 'RangeError', error: 'too far' });
+		assert.deepEqual(describeError('plain string'), { errorClass: 'Error', error: 'plain string' });
+	});
+});
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { classifyQuestion } from '../workers/question_scope';
+import { fakeDB } from './fake_d1';
+
+const db = fakeDB(() => [
+	{ table: 'pitching', rows: 50000, minYear: 1871, maxYear: 2023 },
+	{ table: 'batting', rows: 110000, minYear: 1871, maxYear: 2023 },
+	{ table: 'fielding', rows: 0, minYear: null, maxYear: null },
+	{ table: 'teams', rows: 3000, minYear: 1871, maxYear: 2023 },
+]);
+
+const kind = async (question: string, previousQuestion?: string) => (await classifyQuestion(db, question, previousQuestion)).kind;
+
+describe('classifyQuestion', () => {
+	it('answers stat questions that mention earning', async () => {
+		assert.equal(await kind('Who earned the most saves in 2023?'), 'answerable');
+		assert.equal(await kind('How often does a starter earn a win after allowing 5 runs?'), 'answerable');
+	});
+
+	it('refuses salary questions only when they mention money', async () => {
+		assert.equal(await kind('Who had the highest salary in 2023?'), 'out_of_coverage');
+		assert.equal(await kind('Which pitchers signed contracts over $30 million?'), 'out_of_coverage');
+		assert.equal(await kind('Who was the highest-paid pitcher in 2020?'), 'out_of_coverage');
+	});
+
+	it('refuses topics without a table but answers ERA+', async () => {
+		const war = await classifyQuestion(db, 'Who led the league in WAR in 2019?');
+		assert.equal(war.kind, 'out_of_coverage');
+		assert.ok(war.missing?.topic);
+		assert.equal(await kind('Who had the highest OPS+ in 2019?'), 'out_of_coverage');
+		assert.equal(await kind('Who had the best ERA+ in 2019?'), 'answerable');
+	});
+
+	it('refuses managers and awards but not the same words in stat questions', async () => {
+		assert.equal(await kind('Which pitcher managed 250 strikeouts in 2019?'), 'answerable');
+		assert.equal(await kind('How many wins did Cy Young have in 1892?'), 'answerable');
+		assert.equal(await kind('Who managed the Yankees in 2019?'), 'out_of_coverage');
+		assert.equal(await kind('Which managers won the most games?'), 'out_of_coverage');
+		assert.equal(await kind('Who won the Cy Young in 2019?'), 'out_of_coverage');
+		assert.equal(await kind('Which Cy Young award winners had an ERA over 3?'), 'out_of_coverage');
+	});
+
+	it('answers a decade the data partly covers and says which seasons it has', async () => {
+		const decision = await classifyQuestion(db, 'Who hit the most home runs in the 2020s?');
+		assert.equal(decision.kind, 'answerable');
+		assert.equal(decision.note, 'The batting table covers 1871–2023, so the 2020s only include 2020–2023.');
+		assert.equal((await classifyQuestion(db, 'Who hit the most home runs in the 1990s?')).note, undefined);
+	});
+
+	it('refuses a decade with no covered seasons and offers the nearest one', async () => {
+		const decision = await classifyQuestion(db, 'Who hit the most home runs in the 2030s?');
+		assert.equal(decision.kind, 'out_of_coverage');
+		assert.equal(decision.message, 'The batting table covers 1871–2023, so there is no batting data for 2030–2039.');
+		assert.deepEqual(decision.options, ['Who hit the most home runs in the 2020s?']);
+	});
+
+	it('offers the nearest covered season for a year outside the data', async () => {
+		const decision = await classifyQuestion(db, 'Who had the most home runs in 2025?');
+		assert.equal(decision.kind, 'out_of_coverage');
+		assert.deepEqual(decision.missing, { table: 'batting', years: [2025] });
+		assert.deepEqual(decision.options, ['Who had the most home runs in 2023?']);
+	});
+
+	it('reports an empty table', async () => {
+		const decision = await classifyQuestion(db, 'Who made the most errors in 2019?');
+		assert.deepEqual([decision.kind, decision.missing?.table], ['out_of_coverage', 'fielding']);
+	});
+
+	it('asks which measure a subjective question means', async () => {
+		const decision = await classifyQuestion(db, 'Who is the best pitcher?');
+		assert.equal(decision.kind, 'ambiguous');
+		assert.ok(decision.options.length > 0);
+		assert.equal(await kind('Who had the best ERA in 2023?'), 'answerable');
+		assert.equal(await kind('Who was better, deGrom or Scherzer?'), 'answerable');
+	});
+});
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+
+import { RateLimiter, RateWindow, consumeRateLimit } from '../workers/rate_limiter';
+import { fakeNamespace } from './fake_durable_object';
+
+const CHAT: RateWindow[] = [
+	{ name: 'chat:minute', limit: 2, seconds: 60 },
+	{ name: 'chat:day', limit: 3, seconds: 86400 },
+];
+
+describe('RateLimiter', () => {
+	// Start at midnight UTC so every window opens together
+	beforeEach(() => mock.timers.enable({ apis: ['Date'], now: Date.UTC(2024, 3, 1) }));
+	afterEach(() => mock.timers.reset());
+
+	it('counts against every window and reports the tightest', async () => {
+		const limiter = fakeNamespace(state => new RateLimiter(state));
+		assert.deepEqual(await consumeRateLimit(limiter, 'ip:192.0.2.1', CHAT), { allowed: true, limit: 2, remaining: 1, retryAfter: 0 });
+		assert.deepEqual(await consumeRateLimit(limiter, 'ip:192.0.2.1', CHAT), { allowed: true, limit: 2, remaining: 0, retryAfter: 0 });
+	});
+
+	it('refuses until the full window resets, without counting the refusal', async () => {
+		const limiter = fakeNamespace(state => new RateLimiter(state));
+		await consumeRateLimit(limiter, 'ip:192.0.2.1', CHAT);
+		await consumeRateLimit(limiter, 'ip:192.0.2.1', CHAT);
+		mock.timers.tick(15 * 1000);
+		assert.deepEqual(await consumeRateLimit(limiter, 'ip:192.0.2.1', CHAT), { allowed: false, limit: 2, remaining: 0, retryAfter: 45 });
+
+		mock.timers.tick(45 * 1000);
+		assert.deepEqual(await consumeRateLimit(limiter, 'ip:192.0.2.1', CHAT), { allowed: true, limit: 3, remaining: 0, retryAfter: 0 });
+		const refused = await consumeRateLimit(limiter, 'ip:192.0.2.1', CHAT);
+		assert.deepEqual([refused.allowed, refused.limit, refused.retryAfter], [false, 3, 86340]);
+	});
+
+	it('keeps a separate count per caller', async () => {
+		const limiter = fakeNamespace(state => new RateLimiter(state));
+		const windows = [{ name: 'api:minute', limit: 1, seconds: 60 }];
+		assert.equal((await consumeRateLimit(limiter, 'ip:192.0.2.1', windows)).allowed, true);
+		assert.equal((await consumeRateLimit(limiter, 'ip:192.0.2.1', windows)).allowed, false);
+		assert.equal((await consumeRateLimit(limiter, 'key:dashboard', windows)).allowed, true);
+	});
+});
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { handleApiRequest } from '../workers/rest_api';
+import { fakeDB } from './fake_d1';
+
+const RUTH = { playerID: 'ruthba01', nameFirst: 'Babe', nameLast: 'Ruth' };
+
+interface Query {
+	sql: string;
+	params: unknown[];
+}
+
+/** A database holding Ruth and nothing else, recording every query */
+function recordingDB(queries: Query[] = [], rows: Record<string, unknown>[] = []): D1Database {
+	return fakeDB((sql, params) => {
+		queries.push({ sql, params });
+		if (sql.startsWith('SELECT COUNT(*)')) return [{ total: rows.length }];
+		if (sql.includes('FROM people WHERE')) return params[0] === RUTH.playerID ? [RUTH] : [];
+		return rows;
+	});
+}
+
+async function get(path: string, db = recordingDB()): Promise<{ status: number; body: any }> {
+	const response = await handleApiRequest(new Request(`https://worker.test/api/v1${path}`), db);
+	return { status: response.status, body: await response.json() };
+}
+
+describe('handleApiRequest', () => {
+	it('reads one player with only the requested fields', async () => {
+		const queries: Query[] = [];
+		const { status, body } = await get('/players/ruthba01?fields=nameLast,NAMEFIRST', recordingDB(queries));
+		assert.equal(status, 200);
+		assert.deepEqual(body.data, RUTH);
+		assert.deepEqual(queries, [{ sql: 'SELECT nameLast, nameFirst FROM people WHERE playerID = ?', params: ['ruthba01'] }]);
+	});
+
+	it('answers 404 for unknown players, team seasons and routes', async () => {
+		assert.deepEqual(await get('/players/nobody01'), { status: 404, body: { success: false, error: "No player with playerID 'nobody01'" } });
+		assert.equal((await get('/players/nobody01/pitching')).status, 404);
+		assert.equal((await get('/teams/1927/NYA')).body.error, "No team season with yearID '1927' and teamID 'NYA'");
+		assert.equal((await get('/umpires')).status, 404);
+	});
+
+	it('lists a pitcher\'s seasons with filters, sorting and paging', async () => {
+		const queries: Query[] = [];
+		const rows = [{ yearID: 1916, ERA: 1.75 }, { yearID: 1917, ERA: 2.01 }];
+		const { status, body } = await get('/players/ruthba01/pitching?fields=yearID,ERA&sort=-era&minGS=10&limit=1', recordingDB(queries, rows));
+		assert.equal(status, 200);
+		assert.deepEqual(body.meta, { limit: 1, offset: 0, total: 2, nextOffset: 1 });
+		assert.deepEqual(queries[0], {
+			sql: 'SELECT s.yearID AS yearID, s.ERA AS ERA FROM pitching_advanced s WHERE s.playerID = ? AND s.GS >= ? ORDER BY s.ERA DESC LIMIT ? OFFSET ?',
+			params: ['ruthba01', 10, 1, 0],
+		});
+	});
+
+	it('refuses fields, sorts and filters outside the table\'s columns', async () => {
+		const refused = [
+			['/players/ruthba01?fields=password', "Unknown field 'password' for people"],
+			['/players/ruthba01/pitching?sort=nameLast;DROP', "Cannot sort by 'nameLast;DROP'"],
+			['/players/ruthba01/pitching?salary=1', "Unknown parameter 'salary'"],
+			['/players/ruthba01/pitching?minteamID=SEA', 'minteamID needs a numeric column'],
+			['/players/ruthba01/pitching?maxERA=low', 'maxERA must be a number'],
+			['/players/ruthba01/pitching?limit=0', 'limit must be an integer between 1 and'],
+			['/leaders?stat=teams', 'stat must be a numeric pitching column'],
+			['/leaders?stat=SO&group=fielding', "Unknown group 'fielding'"],
+			['/leaders?stat=SO&order=up', "order must be 'asc' or 'desc'"],
+		];
+		for (const [path, error] of refused) {
+			const { status, body } = await get(path);
+			assert.equal(status, 400, path);
+			assert.ok(body.error.startsWith(error), `${path}: ${body.error}`);
+		}
+	});
+
+	it('ranks leaders with lower-is-better stats ascending', async () => {
+		const queries: Query[] = [];
+		await get('/leaders?stat=era&year=2023&minGS=10', recordingDB(queries));
+		assert.equal(
+			queries[0].sql,
+			'SELECT s.playerID AS playerID, p.nameFirst AS nameFirst, p.nameLast AS nameLast, s.yearID AS yearID, s.teams AS teams, s.ERA AS ERA '
+				+ 'FROM pitching_season s JOIN people p ON p.playerID = s.playerID '
+				+ 'WHERE s.ERA IS NOT NULL AND s.yearID = ? AND s.GS >= ? ORDER BY s.ERA ASC, s.playerID ASC LIMIT ? OFFSET ?'
+		);
+		assert.deepEqual(queries[0].params, [2023, 10, 25, 0]);
+
+		queries.length = 0;
+		await get('/leaders?group=batting&stat=HR', recordingDB(queries));
+		assert.match(queries[0].sql, /s\.teamID AS teamID, s\.HR AS HR FROM batting s .* ORDER BY s\.HR DESC, s\.playerID ASC/);
+	});
+
+	it('serves the OpenAPI document and refuses writes', async () => {
+		const { status, body } = await get('/openapi.json');
+		assert.equal(status, 200);
+		assert.equal(body.servers[0].url, 'https://worker.test/api/v1');
+		assert.ok(body.paths['/leaders']);
+
+		const post = await handleApiRequest(new Request('https://worker.test/api/v1/leaders', { method: 'POST' }), recordingDB());
+		assert.equal(post.status, 405);
+	});
+});
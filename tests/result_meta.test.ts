@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { describeResults } from '../workers/result_meta';
+
+describe('describeResults', () => {
+	it('types columns and treats IDs and years as dimensions', () => {
+		const { columns } = describeResults([
+			{ playerID: 'degroja01', yearID: 2018, ERA: 1.7, SO: 269, note: null },
+			{ playerID: 'degroja01', yearID: 2019, ERA: 2.43, SO: 255, note: null },
+		]);
+		assert.deepEqual(columns, [
+			{ name: 'playerID', type: 'text', role: 'dimension' },
+			{ name: 'yearID', type: 'integer', role: 'dimension' },
+			{ name: 'ERA', type: 'real', role: 'measure' },
+			{ name: 'SO', type: 'integer', role: 'measure' },
+			{ name: 'note', type: 'null', role: 'dimension' },
+		]);
+	});
+
+	it('charts a season-by-season result as a line over the years', () => {
+		const rows = [2018, 2019, 2020].map(yearID => ({ yearID, ERA: 2, SO: 200, W: 10, L: 9 }));
+		assert.deepEqual(describeResults(rows).visualization, { type: 'line', x: 'yearID', y: ['ERA', 'SO', 'W'] });
+	});
+
+	it('charts a ranking as bars of its last stat, labelled by name', () => {
+		const rows = [
+			{ playerID: 'snellbl01', nameFirst: 'Blake', nameLast: 'Snell', yearID: 2023, ERA: 2.25 },
+			{ playerID: 'coleg01', nameFirst: 'Gerrit', nameLast: 'Cole', yearID: 2023, ERA: 2.63 },
+		];
+		assert.deepEqual(describeResults(rows).visualization, { type: 'bar', x: 'nameLast', y: ['ERA'] });
+	});
+
+	it('shows single rows, empty results and text-only rows as a table', () => {
+		assert.deepEqual(describeResults([{ nameLast: 'Cole', ERA: 2.63 }]).visualization, { type: 'table' });
+		assert.deepEqual(describeResults([]), { columns: [], visualization: { type: 'table' } });
+		assert.deepEqual(describeResults([{ bats: 'L' }, { bats: 'R' }]).visualization, { type: 'table' });
+	});
+});
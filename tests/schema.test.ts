@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { after, describe, it } from 'node:test';
+
+import { TABLES } from '../scripts/manifest';
+import { TABLE_COLUMNS } from '../workers/schema';
+import { NEEDS_SQLITE, migratedDatabase } from './sqlite';
+
+describe('schema after the migrations', { skip: NEEDS_SQLITE }, () => {
+	const db = migratedDatabase();
+	after(() => db.close());
+	const columns = (table: string) => db.query<{ name: string; pk: number }>(`PRAGMA table_info(${table})`);
+
+	it('has every table and view the worker may query, with the listed columns', () => {
+		for (const [table, listed] of Object.entries(TABLE_COLUMNS)) {
+			assert.deepEqual(columns(table).map(column => column.name).sort(), [...listed].sort(), table);
+		}
+	});
+
+	it('has a column for everything the seed script loads, keyed as the manifest says', () => {
+		for (const table of TABLES) {
+			const actual = columns(table.table);
+			assert.deepEqual(
+				table.columns.map(column => column.name).filter(name => !actual.some(column => column.name === name)),
+				[],
+				table.table
+			);
+			const keys = actual.filter(column => column.pk > 0).sort((a, b) => a.pk - b.pk).map(column => column.name);
+			assert.deepEqual(keys, table.primaryKey, table.table);
+		}
+	});
+});
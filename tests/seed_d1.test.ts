@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+
+import { TABLES } from '../scripts/manifest';
+
+const ROOT = process.cwd();
+const MIGRATIONS = readdirSync(join(ROOT, 'migrations')).filter(file => file.endsWith('.sql')).length;
+const projects: string[] = [];
+
+after(() => {
+	for (const dir of projects) rmSync(dir, { recursive: true, force: true });
+});
+
+const RUTH = { playerID: 'ruthba01', nameFirst: 'Babe', nameLast: 'Ruth' };
+
+/** A project directory with the repo's migrations and header-only CSVs, plus the given players */
+function project(people: Record<string, string>[] = [RUTH]): string {
+	const dir = mkdtempSync(join(tmpdir(), 'seed-test-'));
+	projects.push(dir);
+	mkdirSync(join(dir, 'data'));
+	for (const table of TABLES) {
+		const header = table.columns.map(column => column.source ?? column.name);
+		const rows = table.table === 'people' ? people.map(person => header.map(name => person[name] ?? '')) : [];
+		writeFileSync(join(dir, 'data', table.file), [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n');
+	}
+	symlinkSync(join(ROOT, 'migrations'), join(dir, 'migrations'));
+	return dir;
+}
+
+function csvField(value: string): string {
+	return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Run the seed script in a project and return the migration chunks it wrote */
+function seed(dir: string, args: string[] = []): string[] {
+	const result = spawnSync(join(ROOT, 'node_modules', '.bin', 'tsx'), [join(ROOT, 'scripts', 'seed_d1.ts'), ...args], {
+		cwd: dir,
+		encoding: 'utf-8',
+		timeout: 60 * 1000,
+	});
+	assert.equal(result.status, 0, result.stderr);
+	return readdirSync(join(dir, 'seed')).filter(file => file.includes('_migrate_'));
+}
+
+function sqlite(database: string, sql: string): Record<string, unknown>[] {
+	const output = spawnSync('sqlite3', ['-json', database, sql], { encoding: 'utf-8' }).stdout.trim();
+	return output ? JSON.parse(output) : [];
+}
+
+describe('seed script, files target', () => {
+	it('writes each migration once and records it', () => {
+		const dir = project();
+		assert.equal(seed(dir).length, MIGRATIONS);
+		const recorded = JSON.parse(readFileSync(join(dir, 'seed', 'schema_migrations.json'), 'utf-8')) as number[];
+		assert.deepEqual(recorded, Array.from({ length: MIGRATIONS }, (_, i) => i + 1));
+
+		assert.deepEqual(seed(dir, ['--no-transactions']), [], 'a second run leaves out the migrations already written');
+	});
+
+	it('follows --after-migration over the record', () => {
+		const dir = project();
+		seed(dir);
+		assert.equal(seed(dir, ['--after-migration=0']).length, MIGRATIONS);
+		assert.deepEqual(seed(dir, [`--after-migration=${MIGRATIONS - 1}`]).map(file => file.replace(/^\d{4}_/, '')), [
+			`migrate_${readdirSync(join(ROOT, 'migrations')).sort().pop()!.replace(/\.sql$/, '')}.sql`,
+		]);
+	});
+});
+
+describe('seed script, chunk files', () => {
+	const players = ['a', 'b', 'c', 'd', 'e'].map(letter => ({ playerID: `${letter}01`, nameFirst: letter, nameLast: letter }));
+
+	it('batches rows into multi-row INSERTs and numbered chunks wrapped in transactions', () => {
+		const dir = project(players);
+		seed(dir, ['--rows-per-insert=2', '--rows-per-chunk=3']);
+		const chunks = readdirSync(join(dir, 'seed')).filter(file => file.endsWith('_people.sql'));
+		assert.equal(chunks.length, 2);
+
+		const first = readFileSync(join(dir, 'seed', chunks[0]), 'utf-8').trim().split('\n');
+		assert.deepEqual([first[0], first[first.length - 1]], ['BEGIN TRANSACTION;', 'COMMIT;']);
+		const inserts = first.filter(line => line.startsWith('INSERT INTO _staging_people'));
+		assert.equal(inserts.length, 2);
+		assert.equal(first.filter(line => /^\('[a-e]01'/.test(line)).length, 3);
+	});
+
+	it('leaves out BEGIN/COMMIT for D1 and replaces the chunks of an earlier run', () => {
+		const dir = project(players);
+		seed(dir, ['--rows-per-chunk=1']);
+		seed(dir, ['--no-transactions']);
+		const files = readdirSync(join(dir, 'seed')).filter(file => file.endsWith('.sql'));
+		assert.equal(files.filter(file => file.endsWith('_people.sql')).length, 1);
+		assert.ok(files.every(file => !readFileSync(join(dir, 'seed', file), 'utf-8').includes('BEGIN TRANSACTION')));
+	});
+});
+
+describe('seed script, sqlite target', { skip: spawnSync('sqlite3', ['-version']).error ? 'needs the sqlite3 CLI' : false }, () => {
+	it('migrates once and upserts on a second run', () => {
+		const dir = project();
+		const database = join(dir, 'test.sqlite');
+		seed(dir, ['--target=sqlite', `--database=${database}`]);
+		assert.deepEqual(sqlite(database, 'SELECT nameFirst, nameLast FROM people'), [{ nameFirst: 'Babe', nameLast: 'Ruth' }]);
+		const [first] = sqlite(database, 'SELECT version FROM data_version');
+
+		assert.deepEqual(seed(dir, ['--target=sqlite', `--database=${database}`]), []);
+		assert.deepEqual(
+			sqlite(database, "SELECT inserted, updated, unchanged FROM seed_report WHERE table_name = 'people' ORDER BY run_id"),
+			[{ inserted: 1, updated: 0, unchanged: 0 }, { inserted: 0, updated: 0, unchanged: 1 }]
+		);
+		assert.deepEqual(sqlite(database, 'SELECT version FROM data_version'), [first], 'an unchanged reseed keeps the data version');
+	});
+
+	it('loads values by their column type and rejects rows that do not fit', () => {
+		const dir = project([
+			{ playerID: '1e5', nameFirst: 'Number', nameLast: 'Like', birthYear: '1990' },
+			{ playerID: 'gibsojo01', nameFirst: 'Josh', nameLast: 'Gibson', birthCity: 'Buena Vista, GA', birthYear: '19x1' },
+			{ playerID: 'paigesa01', nameFirst: 'Satchel', nameLast: 'Paige', birthCity: 'Mobile, AL', weight: '180' },
+		]);
+		const database = join(dir, 'test.sqlite');
+		seed(dir, ['--target=sqlite', `--database=${database}`]);
+		assert.deepEqual(sqlite(database, 'SELECT playerID, typeof(playerID) AS type, birthYear, birthCity, weight FROM people ORDER BY nameLast'), [
+			{ playerID: '1e5', type: 'text', birthYear: 1990, birthCity: null, weight: null },
+			{ playerID: 'paigesa01', type: 'text', birthYear: null, birthCity: 'Mobile, AL', weight: 180 },
+		]);
+	});
+});
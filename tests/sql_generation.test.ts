@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { ChatMessage, ModelProvider, StageModel } from '../workers/model_provider';
+import { executeQuery, generateSQL } from '../workers/sql_generation';
+import { fakeDB } from './fake_d1';
+
+/** A model that replies with the given text and keeps the messages it was sent */
+function scripted(reply: string): StageModel & { sent: ChatMessage[][] } {
+	const sent: ChatMessage[][] = [];
+	const provider: ModelProvider = {
+		name: 'mock',
+		complete: async messages => {
+			sent.push(messages);
+			return reply;
+		},
+		stream: async function* () {},
+	};
+	return { provider, settings: { model: 'scripted', temperature: 0, maxTokens: 500 }, sent };
+}
+
+describe('generateSQL', () => {
+	it('strips code fences and ends the statement', async () => {
+		const model = scripted('```sql\nSELECT t.name FROM teams t LIMIT 1\n```');
+		assert.equal(await generateSQL(model, 'Any team'), 'SELECT t.name FROM teams t LIMIT 1;');
+	});
+
+	it('sends each failed attempt back with its error', async () => {
+		const model = scripted('SELECT ps.IP FROM pitching_season ps LIMIT 1;');
+		await generateSQL(model, 'Most innings in 2023', [
+			{ sql: 'SELECT p.IP FROM pitching p LIMIT 1;', error: 'Database query failed: no such column: p.IP' },
+		]);
+		const [messages] = model.sent;
+		assert.deepEqual(
+			messages.slice(1).map(message => message.role),
+			['user', 'assistant', 'user']
+		);
+		assert.equal(messages[2].content, 'SELECT p.IP FROM pitching p LIMIT 1;');
+		assert.match(messages[3].content, /^That query did not work: Database query failed: no such column: p\.IP\n/);
+	});
+});
+
+describe('executeQuery', () => {
+	it('returns the rows, or says the database refused the query', async () => {
+		const db = fakeDB(sql => {
+			if (sql.includes('p.IP')) throw new Error('D1_ERROR: no such column: p.IP');
+			return [{ W: 1 }];
+		});
+		assert.deepEqual(await executeQuery(db, 'SELECT 1 AS W LIMIT 1;'), [{ W: 1 }]);
+		await assert.rejects(executeQuery(db, 'SELECT p.IP FROM pitching p LIMIT 1;'), {
+			message: 'Database query failed: D1_ERROR: no such column: p.IP',
+		});
+	});
+});
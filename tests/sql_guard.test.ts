@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { MAX_ROWS, QueryRejectedError, RejectionCode, validateQuery } from '../workers/sql_guard';
+
+function rejection(sql: string): RejectionCode {
+	try {
+		validateQuery(sql);
+	} catch (error) {
+		assert.ok(error instanceof QueryRejectedError);
+		return error.code;
+	}
+	assert.fail(`expected "${sql}" to be rejected`);
+}
+
+describe('validateQuery', () => {
+	it('accepts a read-only query and adds a LIMIT', () => {
+		const query = validateQuery('SELECT playerID, ERA FROM pitching_season WHERE yearID = 2023 ORDER BY ERA');
+		assert.equal(query.sql, `SELECT playerID, ERA FROM pitching_season WHERE yearID = 2023 ORDER BY ERA LIMIT ${MAX_ROWS};`);
+		assert.deepEqual(query.tables, ['pitching_season']);
+	});
+
+	it('clamps a LIMIT above the maximum and keeps a smaller one', () => {
+		assert.equal(validateQuery('SELECT W FROM teams LIMIT 5000').limit, MAX_ROWS);
+		assert.equal(validateQuery('SELECT W FROM teams LIMIT 5').limit, 5);
+		assert.equal(rejection('SELECT W FROM teams LIMIT (SELECT 1)'), 'invalid_limit');
+	});
+
+	it('refuses writes, stacked statements and dangerous functions', () => {
+		assert.equal(rejection('DELETE FROM people'), 'not_select');
+		assert.equal(rejection('WITH gone AS (SELECT 1) DELETE FROM people'), 'forbidden_keyword');
+		assert.equal(rejection('SELECT 1; DROP TABLE people'), 'multiple_statements');
+		assert.equal(rejection("SELECT load_extension('x') FROM people"), 'forbidden_function');
+		assert.equal(rejection('PRAGMA table_info(people)'), 'not_select');
+		assert.equal(rejection('SELECT * FROM people WHERE playerID = ?'), 'parameter');
+	});
+
+	it('refuses unknown tables and columns', () => {
+		assert.equal(rejection('SELECT * FROM sqlite_master'), 'unknown_table');
+		assert.equal(rejection('SELECT salary FROM people'), 'unknown_column');
+		assert.equal(rejection('SELECT p.salary FROM people p'), 'unknown_column');
+		assert.equal(rejection('SELECT nameLast, bogus, nameFirst FROM people'), 'unknown_column');
+	});
+
+	it('accepts column aliases with and without AS', () => {
+		validateQuery('SELECT p.playerID, SUM(p.SO) AS total FROM pitching p GROUP BY p.playerID ORDER BY total DESC');
+		validateQuery('SELECT pe.nameLast, SUM(p.SO) total FROM pitching p JOIN people pe ON pe.playerID = p.playerID GROUP BY p.playerID ORDER BY total DESC');
+		validateQuery("SELECT CASE WHEN ERA < 3 THEN 'ace' ELSE 'other' END tier, COUNT(*) n FROM pitching GROUP BY tier");
+		validateQuery('SELECT x.total FROM (SELECT SUM(SO) total FROM pitching) x');
+	});
+
+	it('accepts table aliases, CTEs and derived tables', () => {
+		validateQuery('SELECT p.nameLast FROM people p, teams t WHERE t.yearID = 2019');
+		validateQuery('WITH leaders (id, so) AS (SELECT playerID, SUM(SO) FROM pitching GROUP BY playerID) SELECT id, so FROM leaders');
+	});
+});
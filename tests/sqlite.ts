@@ -0,0 +1,43 @@
+/**
+ * A SQLite file with every migration applied, reached through the sqlite3
+ * CLI the seed script already uses, for tests of the schema and views
+ */
+
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { STATE_TABLES_SQL, migrationStatements, readMigrations } from '../scripts/migrations';
+
+/** Skip reason for suites that need the sqlite3 CLI, or false when it is installed */
+export const NEEDS_SQLITE = spawnSync('sqlite3', ['-version']).error ? 'needs the sqlite3 CLI' : false;
+
+export interface TestDatabase {
+	path: string;
+	run(sql: string): void;
+	query<T = Record<string, unknown>>(sql: string): T[];
+	close(): void;
+}
+
+export function migratedDatabase(): TestDatabase {
+	const dir = mkdtempSync(join(tmpdir(), 'sqlite-test-'));
+	const path = join(dir, 'test.sqlite');
+	const sqlite = (input: string, flags: string[] = []) => {
+		const result = spawnSync('sqlite3', ['-bail', ...flags, path], { input, encoding: 'utf-8' });
+		if (result.status !== 0) throw new Error(`sqlite3 failed: ${result.stderr.trim()}`);
+		return result.stdout;
+	};
+
+	const migrations = readMigrations(join(process.cwd(), 'migrations'));
+	sqlite([...STATE_TABLES_SQL, ...migrations.flatMap(migrationStatements)].join('\n'));
+	return {
+		path,
+		run: sql => void sqlite(sql),
+		query: sql => {
+			const output = sqlite(sql, ['-json']).trim();
+			return output ? JSON.parse(output) : [];
+		},
+		close: () => rmSync(dir, { recursive: true, force: true }),
+	};
+}
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { readAIStream, readEventData, sseEvent } from '../workers/stream';
+
+/** A byte stream delivered in the given pieces */
+function bytes(...pieces: (string | Uint8Array)[]): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	return new ReadableStream({
+		start(controller) {
+			for (const piece of pieces) controller.enqueue(typeof piece === 'string' ? encoder.encode(piece) : piece);
+			controller.close();
+		},
+	});
+}
+
+async function collect<T>(items: AsyncGenerator<T>): Promise<T[]> {
+	const collected: T[] = [];
+	for await (const item of items) collected.push(item);
+	return collected;
+}
+
+describe('sseEvent', () => {
+	it('frames a named event with a JSON payload', () => {
+		assert.equal(sseEvent('token', { text: 'Cole\n' }), 'event: token\ndata: {"text":"Cole\\n"}\n\n');
+	});
+});
+
+describe('readAIStream', () => {
+	it('joins lines split across chunks, including inside a character', async () => {
+		const encoded = new TextEncoder().encode('data: {"response":"Acuña"}\n\n');
+		const cut = encoded.indexOf(0xc3) + 1;
+		const stream = bytes('data: {"respo', 'nse":"Ronald "}\n\n', encoded.slice(0, cut), encoded.slice(cut));
+		assert.deepEqual(await collect(readAIStream(stream)), ['Ronald ', 'Acuña']);
+	});
+
+	it('stops at [DONE] and skips empty deltas and other lines', async () => {
+		const stream = bytes(': keep-alive\n', 'data: {"response":""}\n', 'data: {"response":"a"}\n', 'data: [DONE]\n', 'data: {"response":"b"}\n');
+		assert.deepEqual(await collect(readAIStream(stream)), ['a']);
+	});
+});
+
+describe('readEventData', () => {
+	it('yields each payload as parsed JSON', async () => {
+		const stream = bytes('event: x\ndata: {"choices":[{"delta":{"content":"Hi"}}]}\n\n');
+		assert.deepEqual(await collect(readEventData(stream)), [{ choices: [{ delta: { content: 'Hi' } }] }]);
+	});
+});
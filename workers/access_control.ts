@@ -0,0 +1,301 @@
+/**
+ * Access policy for the API routes: CORS origin allowlist, optional API
+ * keys and per-caller rate limits. Anonymous callers are limited per IP
+ * address and key holders per key, with chat requests (two model calls
+ * each) counted separately from the cheaper REST and session routes.
+ * Routes that change what every caller gets (/api/admin, adding and
+ * deleting few-shot examples) need an admin key; session routes are
+ * further limited to the session's owner (see chat_state.ts).
+ *
+ *   CORS_ORIGINS                 comma-separated origins allowed to call the API
+ *                                from a browser, or * for any; unset means same-origin only
+ *   API_KEYS                     JSON array of keys (a secret), e.g.
+ *                                [{ "name": "dashboard", "key": "...", "chatPerDay": 1000 }];
+ *                                "admin": true also opens the admin routes
+ *   REQUIRE_API_KEY              "true" to refuse callers without a key
+ *   RATE_LIMIT_CHAT_PER_MINUTE   anonymous chat requests per IP (default 10)
+ *   RATE_LIMIT_CHAT_PER_DAY      anonymous chat requests per IP (default 200)
+ *   RATE_LIMIT_API_PER_MINUTE    anonymous requests to other routes per IP (default 120)
+ *
+ * A limit of 0 turns that limit off. The vars are checked once per isolate:
+ * a malformed limit falls back to its default, and malformed API_KEYS
+ * refuses keyed requests with 503 while anonymous callers carry on.
+ */
+
+import { jsonResponse } from './http';
+import { RateWindow, consumeRateLimit } from './rate_limiter';
+
+export interface AccessEnv {
+	RATE_LIMITER: DurableObjectNamespace;
+	CORS_ORIGINS?: string;
+	API_KEYS?: string;
+	REQUIRE_API_KEY?: string;
+	RATE_LIMIT_CHAT_PER_MINUTE?: string;
+	RATE_LIMIT_CHAT_PER_DAY?: string;
+	RATE_LIMIT_API_PER_MINUTE?: string;
+}
+
+export interface Limits {
+	chatPerMinute: number;
+	chatPerDay: number;
+	apiPerMinute: number;
+}
+
+interface ApiKey extends Partial<Limits> {
+	name: string;
+	key: string;
+	admin?: boolean;
+}
+
+/** Who is calling, for rate limiting and logs */
+export interface Caller {
+	kind: 'ip' | 'key';
+	/** IP address or key name */
+	id: string;
+	/** Holds a key with access to the admin routes */
+	admin: boolean;
+}
+
+/** A request that passed the policy, with headers to add to its response */
+export interface AccessGrant {
+	caller: Caller;
+	headers: Record<string, string>;
+}
+
+const ANONYMOUS_LIMITS: Limits = { chatPerMinute: 10, chatPerDay: 200, apiPerMinute: 120 };
+const KEY_LIMITS: Limits = { chatPerMinute: 60, chatPerDay: 5000, apiPerMinute: 600 };
+
+const CHAT_PATHS = new Set(['/api/chat', '/api/chat/stream']);
+/** Method and path of each route that needs an admin key; the route handlers do not check again */
+const ADMIN_ROUTES: { method: string | null; path: RegExp }[] = [
+	{ method: null, path: /^\/api\/admin(?:\/|$)/ },
+	{ method: 'POST', path: /^\/api\/examples$/ },
+	{ method: 'DELETE', path: /^\/api\/examples\/[^/]+$/ },
+];
+const ALLOWED_METHODS = 'GET, POST, DELETE, OPTIONS';
+const ALLOWED_HEADERS = 'Content-Type, Authorization, X-API-Key';
+const EXPOSED_HEADERS = 'Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining';
+
+/** The parsed vars; keys is null when API_KEYS is malformed */
+interface AccessConfig {
+	anonymous: Limits;
+	keys: Map<string, ApiKey> | null;
+}
+
+let config: { source: string; value: Promise<AccessConfig> } | null = null;
+
+/**
+ * Apply the policy to a request. Returns the response to send instead
+ * (preflight, 401, 403 or 429) or a grant to continue with.
+ */
+export async function checkAccess(request: Request, env: AccessEnv): Promise<AccessGrant | Response> {
+	const url = new URL(request.url);
+	const origin = request.headers.get('Origin');
+	const cors = corsHeaders(origin, url, env);
+	if (!cors) {
+		return refuse(403, `Origin ${origin} is not allowed`, {});
+	}
+
+	if (request.method === 'OPTIONS') {
+		return new Response(null, {
+			status: 204,
+			headers: {
+				...cors,
+				'Access-Control-Allow-Methods': ALLOWED_METHODS,
+				'Access-Control-Allow-Headers': ALLOWED_HEADERS,
+				'Access-Control-Max-Age': '86400',
+			},
+		});
+	}
+
+	const ip = request.headers.get('CF-Connecting-IP') || 'unknown';
+	if (!url.pathname.startsWith('/api/')) {
+		return { caller: { kind: 'ip', id: ip, admin: false }, headers: cors };
+	}
+
+	const { anonymous, keys } = await loadConfig(env);
+	const presented = presentedKey(request);
+	let caller: Caller = { kind: 'ip', id: ip, admin: false };
+	let limits = anonymous;
+	if (presented) {
+		if (!keys) {
+			return refuse(503, 'API keys are misconfigured on the server', cors);
+		}
+		const apiKey = keys.get(await sha256(presented));
+		if (!apiKey) {
+			return refuse(401, 'Invalid API key', cors);
+		}
+		caller = { kind: 'key', id: apiKey.name, admin: apiKey.admin === true };
+		limits = { ...KEY_LIMITS, ...definedLimits(apiKey) };
+	} else if (env.REQUIRE_API_KEY === 'true') {
+		return refuse(401, 'An API key is required (Authorization: Bearer <key> or X-API-Key)', cors);
+	}
+	if (!caller.admin && ADMIN_ROUTES.some(route => (!route.method || route.method === request.method) && route.path.test(url.pathname))) {
+		return refuse(403, 'An admin API key is required', cors);
+	}
+
+	const chat = request.method === 'POST' && CHAT_PATHS.has(url.pathname);
+	const windows: RateWindow[] = (chat
+		? [
+			{ name: 'chat:minute', limit: limits.chatPerMinute, seconds: 60 },
+			{ name: 'chat:day', limit: limits.chatPerDay, seconds: 86400 },
+		]
+		: [{ name: 'api:minute', limit: limits.apiPerMinute, seconds: 60 }]
+	).filter(window => window.limit > 0);
+	if (windows.length === 0) {
+		return { caller, headers: cors };
+	}
+
+	let result;
+	try {
+		result = await consumeRateLimit(env.RATE_LIMITER, `${caller.kind}:${caller.id}`, windows);
+	} catch (error) {
+		// A limiter outage should not take the API down with it
+		console.warn('Rate limiter unavailable; allowing request:', error);
+		return { caller, headers: cors };
+	}
+
+	const rateHeaders = {
+		'X-RateLimit-Limit': String(result.limit),
+		'X-RateLimit-Remaining': String(result.remaining),
+	};
+	if (!result.allowed) {
+		return refuse(429, `Rate limit exceeded; retry in ${result.retryAfter} seconds`, {
+			...cors,
+			...rateHeaders,
+			'Retry-After': String(result.retryAfter),
+		});
+	}
+	return { caller, headers: { ...cors, ...rateHeaders } };
+}
+
+/**
+ * Copy a response with the grant's CORS and rate limit headers added
+ */
+export function withAccessHeaders(response: Response, grant: AccessGrant): Response {
+	const headers = Object.entries(grant.headers);
+	if (headers.length === 0) return response;
+	const copy = new Response(response.body, response);
+	for (const [name, value] of headers) {
+		copy.headers.set(name, value);
+	}
+	return copy;
+}
+
+/**
+ * CORS headers for an allowed origin, or null if the origin is not allowed.
+ * Requests without an Origin (curl, server-to-server) and same-origin
+ * requests from the bundled UI are always allowed.
+ */
+function corsHeaders(origin: string | null, url: URL, env: AccessEnv): Record<string, string> | null {
+	if (!origin || origin === url.origin) return {};
+	const allowed = (env.CORS_ORIGINS || '').split(',').map(entry => entry.trim().replace(/\/+$/, '')).filter(Boolean);
+	if (allowed.includes('*')) {
+		return { 'Access-Control-Allow-Origin': '*', 'Access-Control-Expose-Headers': EXPOSED_HEADERS };
+	}
+	if (!allowed.includes(origin)) return null;
+	return {
+		'Access-Control-Allow-Origin': origin,
+		'Access-Control-Expose-Headers': EXPOSED_HEADERS,
+		Vary: 'Origin',
+	};
+}
+
+function refuse(status: number, error: string, headers: Record<string, string>): Response {
+	const response = jsonResponse({ success: false, error }, status);
+	for (const [name, value] of Object.entries(headers)) {
+		response.headers.set(name, value);
+	}
+	return response;
+}
+
+function presentedKey(request: Request): string | null {
+	const authorization = request.headers.get('Authorization');
+	const bearer = authorization?.match(/^Bearer\s+(.+)$/i);
+	return bearer ? bearer[1].trim() : request.headers.get('X-API-Key')?.trim() || null;
+}
+
+/**
+ * Parse the access vars, once per isolate and again only when they change.
+ * Problems are logged here rather than failing every request.
+ */
+function loadConfig(env: AccessEnv): Promise<AccessConfig> {
+	const source = JSON.stringify([
+		env.API_KEYS,
+		env.RATE_LIMIT_CHAT_PER_MINUTE,
+		env.RATE_LIMIT_CHAT_PER_DAY,
+		env.RATE_LIMIT_API_PER_MINUTE,
+	]);
+	if (config?.source !== source) {
+		config = { source, value: parseConfig(env) };
+	}
+	return config.value;
+}
+
+async function parseConfig(env: AccessEnv): Promise<AccessConfig> {
+	const problems: string[] = [];
+	const limit = (name: LimitVar, fallback: number) => {
+		const parsed = limitVar(env, name, fallback);
+		if (parsed !== null) return parsed;
+		problems.push(`${name} must be a non-negative integer, got "${env[name]}"; using ${fallback}`);
+		return fallback;
+	};
+	const anonymous = {
+		chatPerMinute: limit('RATE_LIMIT_CHAT_PER_MINUTE', ANONYMOUS_LIMITS.chatPerMinute),
+		chatPerDay: limit('RATE_LIMIT_CHAT_PER_DAY', ANONYMOUS_LIMITS.chatPerDay),
+		apiPerMinute: limit('RATE_LIMIT_API_PER_MINUTE', ANONYMOUS_LIMITS.apiPerMinute),
+	};
+	const keys = await parseApiKeys(env.API_KEYS || '[]');
+	if (!keys) {
+		problems.push('API_KEYS must be a JSON array of { "name", "key" } objects; refusing keyed requests');
+	}
+	for (const problem of problems) {
+		console.error(`Access config: ${problem}`);
+	}
+	return { anonymous, keys };
+}
+
+function definedLimits(apiKey: ApiKey): Partial<Limits> {
+	const limits: Partial<Limits> = {};
+	for (const name of ['chatPerMinute', 'chatPerDay', 'apiPerMinute'] as const) {
+		if (typeof apiKey[name] === 'number') limits[name] = apiKey[name];
+	}
+	return limits;
+}
+
+/**
+ * Keys by the SHA-256 of their value, so a lookup does not compare secrets
+ * character by character; null if the var is malformed
+ */
+async function parseApiKeys(source: string): Promise<Map<string, ApiKey> | null> {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(source);
+	} catch {
+		return null;
+	}
+	if (!Array.isArray(parsed) || !parsed.every(entry => typeof entry?.name === 'string' && typeof entry?.key === 'string')) {
+		return null;
+	}
+
+	const keys = new Map<string, ApiKey>();
+	for (const entry of parsed as ApiKey[]) {
+		keys.set(await sha256(entry.key), entry);
+	}
+	return keys;
+}
+
+async function sha256(value: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+	return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+type LimitVar = 'RATE_LIMIT_CHAT_PER_MINUTE' | 'RATE_LIMIT_CHAT_PER_DAY' | 'RATE_LIMIT_API_PER_MINUTE';
+
+/** The var's value, the fallback when unset, or null when malformed */
+function limitVar(env: AccessEnv, name: LimitVar, fallback: number): number | null {
+	const value = env[name];
+	if (value === undefined || value === '') return fallback;
+	const parsed = Number(value);
+	return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
@@ -3,192 +3,916 @@
  * AI-powered Baseball Stats Assistant using Cloudflare Workers AI (Llama 3.3)
  */
 
-export interface Env {
+import {
+	ChatTurn,
+	SessionAccess,
+	SessionAccessError,
+	appendTurn,
+	clearSession,
+	isValidSessionId,
+	listSessions,
+	loadHistory,
+	sessionAccess,
+	summarizeResults,
+} from './chat_state';
+import { AccessEnv, AccessGrant, checkAccess, withAccessHeaders } from './access_control';
+import { AnswerCache, CacheReport } from './answer_cache';
+import { Comparison, buildComparison, comparisonSQL, describeComparison, findComparison } from './comparison';
+import {
+	EntityChoices,
+	Resolution,
+	ResolvedEntity,
+	clarificationMessage,
+	resolveEntities,
+} from './entity_resolver';
+import { addExample, deleteExample, listExamples, selectExamples } from './example_library';
+import { jsonResponse } from './http';
+import { LeagueContext, describeLeagueContext, findLeagueContext } from './league_context';
+import { ChatMessage, ModelEnv, StageModel, createStageModel } from './model_provider';
+import { Qualification, QualificationEnv, checkQualification, findQualification } from './qualification';
+import { MAX_STATS_DAYS, QueryLogEntry, queryStats, writeQueryLog } from './query_log';
+import { ScopeDecision, classifyQuestion } from './question_scope';
+import { describeResults } from './result_meta';
+import { API_PREFIX, handleApiRequest } from './rest_api';
+import { QueryRejectedError, validateQuery } from './sql_guard';
+import { QueryAttempt, executeQuery, generateSQL } from './sql_generation';
+import { sseEvent } from './stream';
+import { RequestTrace, describeError } from './tracing';
+
+export { ChatState } from './chat_state';
+export { RateLimiter } from './rate_limiter';
+
+export interface Env extends ModelEnv, QualificationEnv, AccessEnv {
 	DB: D1Database;
-	AI: Ai;
+	CHAT_STATE: DurableObjectNamespace;
+	/** 'development' keeps the answer cache in memory instead of the Cache API */
+	ENVIRONMENT?: string;
+	/** Keys the hash sessions are owned under (a secret); see chat_state.ts */
+	SESSION_SECRET?: string;
 }
 
-const SYSTEM_PROMPT = `You are a baseball statistics assistant that translates user questions into SQL queries.
+const MAX_SQL_ATTEMPTS = 3;
+const HISTORY_TURNS = 5;
+/** Longer messages are refused before they reach the model */
+const MAX_MESSAGE_LENGTH = 1000;
 
-DATABASE SCHEMA:
-- people: playerID (TEXT PRIMARY KEY), nameFirst (TEXT), nameLast (TEXT)
-- teams: yearID (INT), teamID (TEXT), name (TEXT), W (INT), L (INT), G (INT)
-- pitching: playerID (TEXT), yearID (INT), stint (INT), teamID (TEXT), W (INT), L (INT), G (INT), GS (INT), SV (INT), IPouts (INT), SO (INT), BB (INT), ERA (REAL), H (INT), ER (INT), HR (INT)
+const NO_RESULTS_MESSAGE = `I couldn't find any data matching your question. This could be because:
+- The player name might be spelled differently
+- The season might have no rows for the players or teams you asked about
+- The team abbreviation might need adjustment (e.g., SEA for Seattle, NYA for Yankees, WAS for Nationals)
 
-RULES:
-1. Use SQLite syntax
-2. Always include LIMIT clause to prevent excessive results (default LIMIT 10)
-3. Use proper JOINs when querying across tables
-4. Match player names with LIKE for flexibility (e.g., nameLast LIKE '%deGrom%')
-5. Use aggregate functions (AVG, SUM, MAX, MIN) for statistics
-6. Always filter by yearID when year is mentioned
-7. teamID uses abbreviations (e.g., 'SEA', 'NYA', 'LAD', 'HOU', 'WAS' for Nationals)
-8. ERA is stored as a REAL number, lower is better
-9. IPouts represents innings pitched as outs (divide by 3 for innings)
+Would you like to try rephrasing your question?`;
 
-RESPONSE FORMAT:
-Return ONLY the SQL query without any explanation or markdown formatting.
+interface ChatRequest {
+	message: string;
+	sessionId: string;
+	/** Answers to an earlier disambiguation prompt */
+	choices: EntityChoices;
+}
 
-EXAMPLES:
-Q: Who had the lowest ERA in 2023?
-A: SELECT p.playerID, pe.nameFirst, pe.nameLast, p.ERA FROM pitching p JOIN people pe ON p.playerID = pe.playerID WHERE p.yearID = 2023 AND p.GS >= 10 ORDER BY p.ERA ASC LIMIT 1;
+interface QueryOutcome {
+	sql: string;
+	results: any[];
+	attempts: QueryAttempt[];
+}
 
-Q: Show top 5 strikeout leaders for SEA in 2019
-A: SELECT p.playerID, pe.nameFirst, pe.nameLast, p.SO FROM pitching p JOIN people pe ON p.playerID = pe.playerID WHERE p.teamID = 'SEA' AND p.yearID = 2019 ORDER BY p.SO DESC LIMIT 5;
+interface AnswerPlan {
+	/** Anything but answerable stops the plan before entities are resolved */
+	scope: ScopeDecision;
+	resolution: Resolution;
+	/** Null when the question needs clarifying or a mention is ambiguous */
+	outcome: QueryOutcome | null;
+	cache: CacheReport;
+	/** The minimum the query applied for a rate-stat leaderboard, if any */
+	qualification: Qualification | null;
+	/** Side-by-side stat lines when the question compared players or teams */
+	comparison: Comparison | null;
+}
 
-Q: Summarize Jacob deGrom ERA by year
-A: SELECT p.yearID, p.teamID, p.ERA, p.W, p.L FROM pitching p JOIN people pe ON p.playerID = pe.playerID WHERE pe.nameLast LIKE '%deGrom%' ORDER BY p.yearID;`;
+/** What the answer stage is told besides the rows */
+interface AnswerContext {
+	qualification?: Qualification | null;
+	comparison?: Comparison | null;
+	/** League baselines and percentiles for the pitcher-seasons in the rows */
+	league?: LeagueContext[];
+	/** Seasons of a decade in the question that the data does not cover */
+	coverageNote?: string;
+}
 
-interface ChatMessage {
-	role: 'system' | 'user' | 'assistant';
-	content: string;
+class QueryFailedError extends Error {
+	constructor(message: string, public attempts: QueryAttempt[], cause?: unknown) {
+		super(message, { cause });
+		this.name = 'QueryFailedError';
+	}
 }
 
 export default {
-	async fetch(request: Request, env: Env): Promise<Response> {
-		if (request.method === 'OPTIONS') {
-			return new Response(null, {
-				headers: {
-					'Access-Control-Allow-Origin': '*',
-					'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-					'Access-Control-Allow-Headers': 'Content-Type',
-				},
-			});
+	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+		// CORS preflights, refused origins, bad keys and rate-limited callers stop here
+		const access = await checkAccess(request, env);
+		if (access instanceof Response) return access;
+		return withAccessHeaders(await routeRequest(request, env, ctx, access), access);
+	},
+};
+
+async function routeRequest(request: Request, env: Env, ctx: ExecutionContext, access: AccessGrant): Promise<Response> {
+	const url = new URL(request.url);
+
+	if (url.pathname === '/api/chat' && request.method === 'POST') {
+		return handleChat(request, env, ctx, access);
+	}
+
+	if (url.pathname === '/api/chat/stream' && request.method === 'POST') {
+		return handleChatStream(request, env, ctx, access);
+	}
+
+	if (url.pathname === '/api/admin/stats' && request.method === 'GET') {
+		return handleStats(url, env);
+	}
+
+	if (url.pathname === '/api/sessions' && request.method === 'GET') {
+		return jsonResponse({ success: true, sessions: await listSessions(env.CHAT_STATE, await sessionAccess(access.caller, env.SESSION_SECRET)) });
+	}
+
+	const sessionMatch = url.pathname.match(/^\/api\/sessions\/([^/]+)$/);
+	if (sessionMatch && (request.method === 'GET' || request.method === 'DELETE')) {
+		return handleSession(request.method, sessionMatch[1], env, access);
+	}
+
+	if (url.pathname === '/api/examples' && request.method === 'GET') {
+		return jsonResponse({ success: true, examples: await listExamples(env.DB) });
+	}
+
+	if (url.pathname === '/api/examples' && request.method === 'POST') {
+		return handleAddExample(request, env);
+	}
+
+	const exampleMatch = url.pathname.match(/^\/api\/examples\/(\d+)$/);
+	if (exampleMatch && request.method === 'DELETE') {
+		const id = parseInt(exampleMatch[1], 10);
+		if (!await deleteExample(env.DB, id)) {
+			return jsonResponse({ success: false, error: `No example with id ${id}` }, 404);
 		}
+		return jsonResponse({ success: true, id });
+	}
 
-		const url = new URL(request.url);
+	if (url.pathname.startsWith(`${API_PREFIX}/`)) {
+		return handleApiRequest(request, env.DB);
+	}
 
-		if (url.pathname === '/api/chat' && request.method === 'POST') {
-			try {
-				const { message } = await request.json() as { message: string };
-
-				if (!message || typeof message !== 'string') {
-					return jsonResponse({ error: 'Invalid message' }, 400);
-				}
-
-				console.log('User query:', message);
-				const sqlQuery = await generateSQL(env.AI, message);
-				console.log('Generated SQL:', sqlQuery);
-
-				const queryResults = await executeQuery(env.DB, sqlQuery);
-				console.log('Query results:', queryResults);
-
-				const response = await formatResponse(env.AI, message, queryResults, sqlQuery);
-
-				return jsonResponse({
-					success: true,
-					message: response,
-					sql: sqlQuery,
-					results: queryResults,
-				});
-			} catch (error: any) {
-				console.error('Error:', error);
-				return jsonResponse(
-					{
-						success: false,
-						error: error.message || 'An error occurred',
-					},
-					500
-				);
+	if (url.pathname === '/' || url.pathname === '/index.html') {
+		return new Response(HTML_CONTENT, {
+			headers: { 'Content-Type': 'text/html' },
+		});
+	}
+
+	return new Response('Not found', { status: 404 });
+}
+
+async function parseChatRequest(request: Request): Promise<ChatRequest | Response> {
+	let body: { message: string; sessionId?: string; choices?: unknown };
+	try {
+		body = await request.json();
+	} catch {
+		return jsonResponse({ error: 'Invalid JSON body' }, 400);
+	}
+	const { message, choices = {} } = body;
+
+	if (!message || typeof message !== 'string') {
+		return jsonResponse({ error: 'Invalid message' }, 400);
+	}
+	if (message.length > MAX_MESSAGE_LENGTH) {
+		return jsonResponse({ error: `Message is too long (at most ${MAX_MESSAGE_LENGTH} characters)` }, 400);
+	}
+	if (body.sessionId !== undefined && !isValidSessionId(body.sessionId)) {
+		return jsonResponse({ error: 'Invalid sessionId' }, 400);
+	}
+	if (
+		typeof choices !== 'object' || choices === null || Array.isArray(choices)
+		|| !Object.values(choices).every(value => typeof value === 'string')
+	) {
+		return jsonResponse({ error: 'Invalid choices' }, 400);
+	}
+
+	return { message, sessionId: body.sessionId || crypto.randomUUID(), choices: choices as EntityChoices };
+}
+
+/**
+ * Resolve player and team mentions; resolution is best-effort, so a failure
+ * falls back to letting the model match names itself
+ */
+async function resolveQuestion(env: Env, chat: ChatRequest, trace: RequestTrace): Promise<Resolution> {
+	try {
+		const resolution = await trace.time('resolve', () => resolveEntities(env.DB, chat.message, chat.choices));
+		trace.log('entities_resolved', {
+			entities: resolution.entities.map(entity => entity.id),
+			ambiguous: resolution.ambiguous.map(mention => mention.mention),
+		});
+		return resolution;
+	} catch (error) {
+		trace.log('entity_resolution_failed', describeError(error), 'warn');
+		return { entities: [], ambiguous: [] };
+	}
+}
+
+/**
+ * Decide whether a question can be answered before spending model calls on
+ * it; classification is best-effort, so a failure lets the question through
+ */
+async function classifyScope(env: Env, chat: ChatRequest, history: ChatTurn[], trace: RequestTrace): Promise<ScopeDecision> {
+	try {
+		const scope = await classifyQuestion(env.DB, chat.message, history[history.length - 1]?.question);
+		if (scope.kind !== 'answerable') {
+			trace.log('question_out_of_scope', { kind: scope.kind, missing: scope.missing ?? null });
+		}
+		return scope;
+	} catch (error) {
+		trace.log('scope_classification_failed', describeError(error), 'warn');
+		return { kind: 'answerable', message: '', options: [] };
+	}
+}
+
+/**
+ * The minimum a rate-stat leaderboard needs; best-effort, like scope
+ * classification, so a failure lets the query run without one
+ */
+async function qualifyQuestion(env: Env, chat: ChatRequest, history: ChatTurn[], trace: RequestTrace): Promise<Qualification | null> {
+	try {
+		return await findQualification(env.DB, chat.message, env, history[history.length - 1]?.question);
+	} catch (error) {
+		trace.log('qualification_failed', describeError(error), 'warn');
+		return null;
+	}
+}
+
+/**
+ * Cached SQL passed the guard when it was stored, but the guard may have
+ * tightened since; an entry it now rejects is dropped and the question is
+ * generated again
+ */
+async function revalidateCachedSQL(cache: AnswerCache, chat: ChatRequest, sql: string, trace: RequestTrace): Promise<string | null> {
+	try {
+		return validateQuery(sql).sql;
+	} catch (error) {
+		trace.log('cached_sql_rejected', describeError(error), 'warn');
+		await cache.deleteQuestion(chat.message, chat.choices);
+		return null;
+	}
+}
+
+/**
+ * Find the SQL and rows that answer a question. Ambiguous and out-of-coverage
+ * questions stop with a clarification instead. Standalone questions are
+ * looked up in the answer cache first; follow-ups depend on the history, so
+ * they are always generated. Only queries that returned rows are cached.
+ */
+async function planAnswer(env: Env, chat: ChatRequest, history: ChatTurn[], trace: RequestTrace): Promise<AnswerPlan> {
+	const sqlModel = createStageModel(env, 'sql');
+	const cache = await AnswerCache.open(env.DB, env.ENVIRONMENT, `${sqlModel.provider.name}:${sqlModel.settings.model}`);
+	const standalone = history.length === 0;
+	const scope = await classifyScope(env, chat, history, trace);
+	if (scope.kind !== 'answerable') {
+		return { scope, resolution: { entities: [], ambiguous: [] }, outcome: null, cache: cache.report, qualification: null, comparison: null };
+	}
+
+	const qualification = await qualifyQuestion(env, chat, history, trace);
+	// Report the threshold only if the final query kept it
+	const applied = (sql: string) => (qualification && !checkQualification(sql, qualification) ? qualification : null);
+
+	const cached = standalone ? await cache.getQuestion(chat.message, chat.choices) : null;
+	const cachedSQL = cached && await revalidateCachedSQL(cache, chat, cached.sql, trace);
+	if (cached && cachedSQL) {
+		const sql = cachedSQL;
+		const results = await trace.time('execute_sql', () => cache.rows(sql, () => executeQuery(env.DB, sql)));
+		return {
+			scope,
+			resolution: { entities: cached.entities, ambiguous: [] },
+			outcome: { sql, results, attempts: [{ sql, rowCount: results.length }] },
+			cache: cache.report,
+			qualification: applied(sql),
+			comparison: compareRows(chat.message, cached.entities, results),
+		};
+	}
+
+	const resolution = await resolveQuestion(env, chat, trace);
+	if (resolution.ambiguous.length > 0) {
+		return { scope, resolution, outcome: null, cache: cache.report, qualification: null, comparison: null };
+	}
+
+	// Comparisons read aligned stat lines with a fixed query instead of asking the model
+	const comparisonRequest = findComparison(chat.message, resolution.entities);
+	if (comparisonRequest) {
+		const sql = validateQuery(comparisonSQL(comparisonRequest)).sql;
+		const results = await trace.time('execute_sql', () => cache.rows(sql, () => executeQuery(env.DB, sql)));
+		const comparison = buildComparison(comparisonRequest, results);
+		trace.log('comparison_built', {
+			kind: comparison.kind,
+			subjects: comparison.subjects.map(subject => subject.id),
+			missing: comparison.missing,
+		});
+		// With fewer than two stat lines (say, two hitters) the model answers instead
+		if (comparison.subjects.length >= 2) {
+			if (standalone) {
+				await cache.putQuestion(chat.message, chat.choices, { sql, entities: resolution.entities });
 			}
+			return {
+				scope,
+				resolution,
+				outcome: { sql, results, attempts: [{ sql, rowCount: results.length }] },
+				cache: cache.report,
+				qualification: null,
+				comparison,
+			};
 		}
+	}
 
-		if (url.pathname === '/' || url.pathname === '/index.html') {
-			return new Response(HTML_CONTENT, {
-				headers: { 'Content-Type': 'text/html' },
-			});
+	const outcome = await runQueryWithRepair(env, sqlModel, trace, chat.message, history, resolution.entities, cache, qualification);
+	if (standalone && outcome.results.length > 0) {
+		await cache.putQuestion(chat.message, chat.choices, { sql: outcome.sql, entities: resolution.entities });
+	}
+	return { scope, resolution, outcome, cache: cache.report, qualification: applied(outcome.sql), comparison: null };
+}
+
+/**
+ * League context for the answer; best-effort, like entity resolution
+ */
+async function loadLeagueContext(
+	env: Env,
+	sql: string,
+	results: any[],
+	entities: ResolvedEntity[],
+	trace: RequestTrace
+): Promise<LeagueContext[]> {
+	const players = entities.filter(entity => entity.kind === 'player').map(entity => entity.id);
+	try {
+		return await trace.time('execute_sql', () => findLeagueContext(env.DB, sql, results, players, env));
+	} catch (error) {
+		trace.log('league_context_failed', describeError(error), 'warn');
+		return [];
+	}
+}
+
+/**
+ * Rebuild the side-by-side payload for a cached comparison question
+ */
+function compareRows(question: string, entities: ResolvedEntity[], results: any[]): Comparison | null {
+	const request = findComparison(question, entities);
+	if (!request) return null;
+	const comparison = buildComparison(request, results);
+	return comparison.subjects.length >= 2 ? comparison : null;
+}
+
+/**
+ * Add a verified question/SQL pair to the few-shot library. Examples go
+ * into every later SQL prompt, so only admin keys can add them, and the
+ * SQL must pass the guard and run.
+ */
+async function handleAddExample(request: Request, env: Env): Promise<Response> {
+	let body: { question?: unknown; sql?: unknown };
+	try {
+		body = await request.json();
+	} catch {
+		return jsonResponse({ success: false, error: 'Invalid JSON body' }, 400);
+	}
+	const { question, sql } = body;
+	if (!question || typeof question !== 'string' || !sql || typeof sql !== 'string') {
+		return jsonResponse({ success: false, error: 'question and sql are required strings' }, 400);
+	}
+
+	let validated: string;
+	try {
+		validated = validateQuery(sql).sql;
+		await executeQuery(env.DB, validated);
+	} catch (error: any) {
+		const code = error instanceof QueryRejectedError ? error.code : undefined;
+		return jsonResponse({ success: false, error: error.message, code }, 422);
+	}
+
+	const example = await addExample(env.DB, env.AI, { question: question.trim(), sql: validated });
+	return jsonResponse({ success: true, example }, 201);
+}
+
+/**
+ * Read or clear one of the caller's sessions
+ */
+async function handleSession(method: string, sessionId: string, env: Env, access: AccessGrant): Promise<Response> {
+	if (!isValidSessionId(sessionId)) {
+		return jsonResponse({ error: 'Invalid sessionId' }, 400);
+	}
+	const owner = await sessionAccess(access.caller, env.SESSION_SECRET);
+	try {
+		if (method === 'DELETE') {
+			await clearSession(env.CHAT_STATE, sessionId, owner);
+			return jsonResponse({ success: true, sessionId });
+		}
+		const turns = await loadHistory(env.CHAT_STATE, sessionId, owner);
+		return jsonResponse({ success: true, sessionId, turns });
+	} catch (error) {
+		if (error instanceof SessionAccessError) {
+			return jsonResponse({ success: false, error: error.message }, 403);
 		}
+		throw error;
+	}
+}
 
-		return new Response('Not found', { status: 404 });
-	},
-};
+async function saveTurn(
+	env: Env,
+	owner: SessionAccess,
+	sessionId: string,
+	question: string,
+	sql: string,
+	results: any[],
+	answer: string
+): Promise<void> {
+	await appendTurn(env.CHAT_STATE, sessionId, {
+		question,
+		sql,
+		summary: summarizeResults(results),
+		answer,
+		createdAt: new Date().toISOString(),
+	}, owner);
+}
 
-async function generateSQL(ai: Ai, userQuery: string): Promise<string> {
-	const messages: ChatMessage[] = [
-		{ role: 'system', content: SYSTEM_PROMPT },
-		{ role: 'user', content: userQuery },
-	];
+/**
+ * Response body, status and error class for a failed chat request
+ */
+function describeChatError(error: any, trace: RequestTrace): { body: Record<string, unknown>; status: number; errorClass: string } {
+	if (error instanceof SessionAccessError) {
+		trace.log('session_refused', { sessionId: error.sessionId }, 'warn');
+		return {
+			body: { success: false, error: error.message, requestId: trace.id },
+			status: 403,
+			errorClass: error.name,
+		};
+	}
+
+	if (error instanceof QueryFailedError && error.cause instanceof QueryRejectedError) {
+		trace.log('query_refused', { code: error.cause.code, error: error.message }, 'warn');
+		return {
+			body: {
+				success: false,
+				error: `Query refused: ${error.message}`,
+				code: error.cause.code,
+				attempts: error.attempts,
+				requestId: trace.id,
+			},
+			status: 422,
+			errorClass: error.cause.name,
+		};
+	}
 
-	const response = await ai.run('@cf/meta/llama-3.3-70b-instruct-fp8-fast', {
-		messages,
-		temperature: 0.1,
-		max_tokens: 500,
-	}) as { response: string };
+	if (error instanceof QueryFailedError) {
+		trace.log('query_failed', { error: error.message, attempts: error.attempts.length }, 'error');
+		return {
+			body: {
+				success: false,
+				error: error.message,
+				attempts: error.attempts,
+				requestId: trace.id,
+			},
+			status: 500,
+			errorClass: error.name,
+		};
+	}
 
-	let sql = response.response.trim();
-	sql = sql.replace(/```sql\n?/g, '').replace(/```\n?/g, '');
-	sql = sql.trim();
+	const { errorClass } = describeError(error);
+	trace.log('request_failed', { ...describeError(error), stack: error?.stack }, 'error');
+	return {
+		body: {
+			success: false,
+			error: error.message || 'An error occurred',
+			requestId: trace.id,
+		},
+		status: 500,
+		errorClass,
+	};
+}
 
-	if (!sql.endsWith(';')) {
-		sql += ';';
+/**
+ * Answer a question with one JSON response. The request is traced and its
+ * metadata written to the query log after the response is ready.
+ */
+async function handleChat(request: Request, env: Env, ctx: ExecutionContext, access: AccessGrant): Promise<Response> {
+	const chat = await parseChatRequest(request);
+	if (chat instanceof Response) return chat;
+	const { message, sessionId } = chat;
+	const trace = new RequestTrace('chat');
+	const entry = startLogEntry(trace, chat, access);
+	const owner = await sessionAccess(access.caller, env.SESSION_SECRET);
+
+	let response: Response;
+	try {
+		const history = (await loadHistory(env.CHAT_STATE, sessionId, owner)).slice(-HISTORY_TURNS);
+		const { scope, resolution, outcome, cache, qualification, comparison } = await planAnswer(env, chat, history, trace);
+		entry.cacheSql = cache.sql;
+		entry.scope = scope.kind;
+
+		if (scope.kind !== 'answerable') {
+			response = jsonResponse({
+				success: true,
+				requestId: trace.id,
+				sessionId,
+				message: scope.message,
+				clarification: clarificationBody(scope),
+			});
+		} else if (!outcome) {
+			response = jsonResponse({
+				success: true,
+				requestId: trace.id,
+				sessionId,
+				message: clarificationMessage(resolution.ambiguous),
+				disambiguation: resolution.ambiguous,
+			});
+		} else {
+			const { sql: sqlQuery, results: queryResults, attempts } = outcome;
+			Object.assign(entry, { sql: sqlQuery, rowCount: queryResults.length, attempts: attempts.length });
+			const leagueContext = await loadLeagueContext(env, sqlQuery, queryResults, resolution.entities, trace);
+
+			const answer = await trace.time('format_answer', () =>
+				formatResponse(createStageModel(env, 'answer'), message, queryResults, sqlQuery, history, {
+					qualification,
+					comparison,
+					league: leagueContext,
+					coverageNote: scope.note,
+				})
+			);
+
+			await saveTurn(env, owner, sessionId, message, sqlQuery, queryResults, answer);
+
+			response = jsonResponse({
+				success: true,
+				requestId: trace.id,
+				sessionId,
+				message: answer,
+				sql: sqlQuery,
+				entities: resolution.entities,
+				results: queryResults,
+				...describeResults(queryResults),
+				attempts,
+				cache,
+				qualification,
+				comparison,
+				leagueContext,
+				coverageNote: scope.note ?? null,
+			});
+		}
+	} catch (error: any) {
+		const { body, status, errorClass } = describeChatError(error, trace);
+		Object.assign(entry, { errorClass, error: error.message, attempts: error.attempts?.length ?? 0 });
+		response = jsonResponse(body, status);
 	}
 
-	return sql;
+	ctx.waitUntil(writeQueryLog(env.DB, trace, entry));
+	response.headers.set('X-Request-ID', trace.id);
+	return response;
+}
+
+/**
+ * Streaming variant of /api/chat. Sends SSE events in stages as they become
+ * available: `sql` (final query and attempts), `rows` (results, league
+ * context and the side-by-side payload for a comparison), `token`
+ * (answer text deltas), then `done`, or `error` at any point. An ambiguous
+ * or out-of-coverage question sends `clarification` and `done` instead, and
+ * an ambiguous player or team name sends `disambiguation` and `done`.
+ */
+async function handleChatStream(request: Request, env: Env, ctx: ExecutionContext, access: AccessGrant): Promise<Response> {
+	const chat = await parseChatRequest(request);
+	if (chat instanceof Response) return chat;
+	const { message, sessionId } = chat;
+	const trace = new RequestTrace('chat_stream');
+	const entry = startLogEntry(trace, chat, access);
+	const owner = await sessionAccess(access.caller, env.SESSION_SECRET);
+
+	const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+	const writer = writable.getWriter();
+	const encoder = new TextEncoder();
+	// A client that disconnects only stops the events; the request still completes and is logged
+	let connected = true;
+	const send = async (event: string, data: unknown) => {
+		if (!connected) return;
+		try {
+			await writer.write(encoder.encode(sseEvent(event, data)));
+		} catch {
+			connected = false;
+			trace.log('client_disconnected', { unsent: event }, 'warn');
+		}
+	};
+
+	const pipeline = async () => {
+		try {
+			const history = (await loadHistory(env.CHAT_STATE, sessionId, owner)).slice(-HISTORY_TURNS);
+
+			const { scope, resolution, outcome, cache, qualification, comparison } = await planAnswer(env, chat, history, trace);
+			entry.cacheSql = cache.sql;
+			entry.scope = scope.kind;
+			if (scope.kind !== 'answerable') {
+				await send('clarification', { requestId: trace.id, sessionId, message: scope.message, ...clarificationBody(scope) });
+				await send('done', { success: true, requestId: trace.id, sessionId, message: scope.message });
+				return;
+			}
+			if (!outcome) {
+				const clarification = clarificationMessage(resolution.ambiguous);
+				await send('disambiguation', { sessionId, message: clarification, disambiguation: resolution.ambiguous });
+				await send('done', { success: true, requestId: trace.id, sessionId, message: clarification });
+				return;
+			}
+
+			const { sql, results, attempts } = outcome;
+			Object.assign(entry, { sql, rowCount: results.length, attempts: attempts.length });
+			await send('sql', {
+				requestId: trace.id,
+				sessionId,
+				sql,
+				entities: resolution.entities,
+				attempts,
+				cache,
+				qualification,
+				coverageNote: scope.note ?? null,
+			});
+			const leagueContext = await loadLeagueContext(env, sql, results, resolution.entities, trace);
+			await send('rows', { results, ...describeResults(results), comparison, leagueContext });
+
+			let answer = '';
+			const stopFormatting = trace.start('format_answer');
+			const context = { qualification, comparison, league: leagueContext, coverageNote: scope.note };
+			for await (const token of streamResponse(createStageModel(env, 'answer'), message, results, sql, history, context)) {
+				answer += token;
+				await send('token', { text: token });
+			}
+			stopFormatting();
+
+			await saveTurn(env, owner, sessionId, message, sql, results, answer.trim());
+			await send('done', { success: true, requestId: trace.id, sessionId, message: answer.trim() });
+		} catch (error: any) {
+			const { body, errorClass } = describeChatError(error, trace);
+			Object.assign(entry, { errorClass, error: error.message, attempts: error.attempts?.length ?? 0 });
+			await send('error', body);
+		} finally {
+			await writer.close().catch(() => undefined);
+			try {
+				await writeQueryLog(env.DB, trace, entry);
+			} catch (error) {
+				console.error('Query log write failed:', error);
+			}
+		}
+	};
+	ctx.waitUntil(pipeline());
+
+	return new Response(readable, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			'X-Request-ID': trace.id,
+		},
+	});
 }
 
-async function executeQuery(db: D1Database, sql: string): Promise<any[]> {
+/**
+ * What to send back for a question that was not answered: its kind, the
+ * questions to offer instead and what is missing from the data
+ */
+function clarificationBody(scope: ScopeDecision): Record<string, unknown> {
+	return { kind: scope.kind, options: scope.options, missing: scope.missing ?? null };
+}
+
+/**
+ * The query log row for a chat request, filled in as it progresses. Key
+ * holders are recorded by key name; anonymous callers are not recorded.
+ */
+function startLogEntry(trace: RequestTrace, chat: ChatRequest, access: AccessGrant): QueryLogEntry {
+	const caller = access.caller.kind === 'key' ? access.caller.id : undefined;
+	trace.log('request_start', {
+		sessionId: chat.sessionId,
+		caller: caller ?? 'anonymous',
+		question: chat.message,
+	});
+	return { question: chat.message, caller };
+}
+
+/**
+ * Usage analytics from the query log; checkAccess lets only admin keys in
+ */
+async function handleStats(url: URL, env: Env): Promise<Response> {
+	const days = Number(url.searchParams.get('days') ?? 7);
+	if (!Number.isInteger(days) || days < 1 || days > MAX_STATS_DAYS) {
+		return jsonResponse({ success: false, error: `days must be an integer between 1 and ${MAX_STATS_DAYS}` }, 400);
+	}
 	try {
-		const result = await db.prepare(sql).all();
-		return result.results || [];
+		return jsonResponse({ success: true, stats: await queryStats(env.DB, days) });
 	} catch (error: any) {
-		console.error('SQL execution error:', error);
-		throw new Error(`Database query failed: ${error.message}`);
+		console.error('Stats query failed:', error);
+		return jsonResponse({ success: false, error: `Could not read query_log: ${error.message}` }, 500);
 	}
 }
 
-async function formatResponse(
-	ai: Ai,
+/**
+ * Generate, validate and run SQL, feeding guard refusals, D1 errors, missing
+ * qualification minimums and suspicious empty results back to the model for
+ * up to MAX_SQL_ATTEMPTS tries.
+ */
+async function runQueryWithRepair(
+	env: Env,
+	model: StageModel,
+	trace: RequestTrace,
 	userQuery: string,
-	results: any[],
-	sql: string
-): Promise<string> {
-	if (!results || results.length === 0) {
-		return `I couldn't find any data matching your question. This could be because:
-- The player name might be spelled differently
-- The year might not be in our dataset (we have data from 2018-2024)
-- The team abbreviation might need adjustment (e.g., SEA for Seattle, NYA for Yankees, WAS for Nationals)
+	history: ChatTurn[] = [],
+	entities: ResolvedEntity[] = [],
+	cache?: AnswerCache,
+	qualification: Qualification | null = null
+): Promise<QueryOutcome> {
+	// A follow-up like "what about 2022?" is matched together with the question it follows
+	const previous = history[history.length - 1]?.question;
+	const examples = await selectExamples(env.DB, env.AI, previous ? `${previous} ${userQuery}` : userQuery);
+	const attempts: QueryAttempt[] = [];
+	let lastError: unknown;
+
+	for (let i = 0; i < MAX_SQL_ATTEMPTS; i++) {
+		const generatedSQL = await trace.time('generate_sql', () =>
+			generateSQL(model, userQuery, attempts, history, entities, examples, qualification)
+		);
+		trace.log('sql_generated', { attempt: i + 1, sql: generatedSQL });
+		const attempt: QueryAttempt = { sql: generatedSQL };
+		attempts.push(attempt);
+
+		let results: any[];
+		try {
+			attempt.sql = validateQuery(generatedSQL).sql;
+			const sql = attempt.sql;
+			// An unqualified leaderboard still runs on the last attempt rather than failing
+			const unqualified = qualification ? checkQualification(sql, qualification) : null;
+			if (unqualified && i < MAX_SQL_ATTEMPTS - 1) {
+				attempt.error = unqualified;
+				continue;
+			}
+			results = await trace.time('execute_sql', () =>
+				cache ? cache.rows(sql, () => executeQuery(env.DB, sql)) : executeQuery(env.DB, sql)
+			);
+		} catch (error: any) {
+			attempt.error = error.message;
+			trace.log('sql_attempt_failed', { attempt: i + 1, ...describeError(error) }, 'warn');
+			lastError = error;
+			if (error instanceof QueryRejectedError && !error.retryable) break;
+			continue;
+		}
 
-Would you like to try rephrasing your question?`;
+		attempt.rowCount = results.length;
+		if (results.length > 0) {
+			return { sql: attempt.sql, results, attempts };
+		}
+
+		const mismatch = await findLiteralMismatch(env.DB, attempt.sql);
+		if (!mismatch || i === MAX_SQL_ATTEMPTS - 1) {
+			return { sql: attempt.sql, results, attempts };
+		}
+		attempt.error = `The query returned no rows. ${mismatch}`;
+	}
+
+	const message = lastError instanceof Error ? lastError.message : 'Could not produce a working query';
+	throw new QueryFailedError(message, attempts, lastError);
+}
+
+/**
+ * Explain an empty result caused by a player name or teamID literal that
+ * matches nothing in the database, or return null if none is found.
+ */
+async function findLiteralMismatch(db: D1Database, sql: string): Promise<string | null> {
+	const namePattern = /\b(nameFirst|nameLast)\s+(?:LIKE|=)\s+'((?:[^']|'')*)'/gi;
+	for (const match of sql.matchAll(namePattern)) {
+		const column = match[1].toLowerCase() === 'namefirst' ? 'nameFirst' : 'nameLast';
+		const value = match[2].replace(/''/g, "'");
+		const found = await db.prepare(`SELECT 1 FROM people WHERE ${column} LIKE ? LIMIT 1`).bind(value).first();
+		if (found) continue;
+
+		const stem = value.replace(/%/g, '').slice(0, 4);
+		const similar = await db
+			.prepare(`SELECT DISTINCT ${column} AS name FROM people WHERE ${column} LIKE ? LIMIT 5`)
+			.bind(`%${stem}%`)
+			.all<{ name: string }>();
+		const suggestions = (similar.results || []).map(row => row.name).join(', ');
+		return `No player has ${column} matching '${value}'.${suggestions ? ` Similar names: ${suggestions}.` : ''}`;
+	}
+
+	const teamPattern = /\bteamID\s*=\s*'([^']*)'/gi;
+	for (const match of sql.matchAll(teamPattern)) {
+		const found = await db.prepare('SELECT 1 FROM teams WHERE teamID = ? LIMIT 1').bind(match[1]).first();
+		if (!found) {
+			return `There is no team with teamID '${match[1]}'; use Lahman abbreviations such as 'NYA', 'WAS' or 'LAN'.`;
+		}
 	}
 
+	return null;
+}
+
+function buildAnswerMessages(
+	userQuery: string,
+	results: any[],
+	sql: string,
+	history: ChatTurn[],
+	{ qualification, comparison, league, coverageNote }: AnswerContext
+): ChatMessage[] {
 	const resultsString = JSON.stringify(results, null, 2);
-	const prompt = `The user asked: "${userQuery}"
+	const conversation = history.length > 0
+		? `Earlier in this conversation:
+${history.map(turn => `- Q: ${turn.question}\n  Rows: ${turn.summary}\n  A: ${turn.answer}`).join('\n')}
+
+`
+		: '';
+	const prompt = `${conversation}The user asked: "${userQuery}"
 
 The SQL query executed was: ${sql}
 
 The database returned these results:
 ${resultsString}
-
+${qualification ? `\nOnly players with ${qualification.description} were ranked. Say which minimum was used.\n` : ''}${coverageNote ? `\n${coverageNote} Say so briefly.\n` : ''}${comparison ? `\nThis is a side-by-side comparison. Stat leaders:\n${describeComparison(comparison)}\n` : ''}${league?.length ? `\nLeague context (add it briefly for the pitchers you mention, e.g. "ERA+ 168, 97th percentile among AL starters"):\n${describeLeagueContext(league)}\n` : ''}
 Please provide a natural, conversational answer in 1-3 clear sentences. Be specific with numbers, names, and statistics.`;
 
-	const messages: ChatMessage[] = [
+	return [
 		{
 			role: 'system',
 			content: 'You are a helpful baseball statistics assistant. Answer questions clearly and concisely based on the data provided.'
 		},
 		{ role: 'user', content: prompt },
 	];
+}
 
-	try {
-		const response = await ai.run('@cf/meta/llama-3.3-70b-instruct-fp8-fast', {
-			messages,
-			temperature: 0.3,
-			max_tokens: 300,
-		}) as { response: string };
+async function formatResponse(
+	model: StageModel,
+	userQuery: string,
+	results: any[],
+	sql: string,
+	history: ChatTurn[] = [],
+	context: AnswerContext = {}
+): Promise<string> {
+	if (!results || results.length === 0) {
+		return NO_RESULTS_MESSAGE;
+	}
 
-		const answer = response.response.trim();
+	const messages = buildAnswerMessages(userQuery, results, sql, history, context);
+
+	try {
+		const answer = (await model.provider.complete(messages, model.settings)).trim();
 
 		if (!answer || answer.length < 10) {
-			return formatSimple(results, userQuery);
+			return fallbackAnswer(results, userQuery, context);
 		}
 
 		return answer;
 	} catch (error) {
 		console.error('AI formatting failed:', error);
-		return formatSimple(results, userQuery);
+		return fallbackAnswer(results, userQuery, context);
 	}
 }
 
+/**
+ * Token-by-token variant of formatResponse, with the same fallbacks
+ */
+async function* streamResponse(
+	model: StageModel,
+	userQuery: string,
+	results: any[],
+	sql: string,
+	history: ChatTurn[] = [],
+	context: AnswerContext = {}
+): AsyncGenerator<string> {
+	if (!results || results.length === 0) {
+		yield NO_RESULTS_MESSAGE;
+		return;
+	}
+
+	const messages = buildAnswerMessages(userQuery, results, sql, history, context);
+	let streamed = '';
+
+	try {
+		for await (const token of model.provider.stream(messages, model.settings)) {
+			streamed += token;
+			yield token;
+		}
+	} catch (error) {
+		console.error('AI streaming failed:', error);
+	}
+
+	if (streamed.trim().length < 10) {
+		yield (streamed ? '\n' : '') + fallbackAnswer(results, userQuery, context);
+	}
+}
+
+/**
+ * Answer text built from the rows when the model does not write one
+ */
+function fallbackAnswer(results: any[], userQuery: string, { qualification, comparison, league, coverageNote }: AnswerContext): string {
+	const leagueNote = league?.length ? `\n\n${describeLeagueContext(league)}` : '';
+	const coverage = coverageNote ? `\n\n${coverageNote}` : '';
+	if (comparison) return describeComparison(comparison) + leagueNote + coverage;
+	return formatSimple(results, userQuery) + qualificationNote(qualification ?? null) + leagueNote + coverage;
+}
+
+/**
+ * States the minimum behind a leaderboard when the model did not write the answer
+ */
+function qualificationNote(qualification: Qualification | null): string {
+	return qualification ? `\n\nMinimum: ${qualification.description}.` : '';
+}
+
 function formatSimple(results: any[], userQuery: string): string {
 	if (results.length === 0) return 'No results found.';
 
@@ -214,6 +938,18 @@ function formatSimple(results: any[], userQuery: string): string {
 		const parts: string[] = [];
 		if (row.nameFirst && row.nameLast) parts.push(`${row.nameFirst} ${row.nameLast}`);
 		if (row.ERA !== undefined) parts.push(`ERA: ${parseFloat(row.ERA).toFixed(2)}`);
+		if (row.FIP !== undefined) parts.push(`FIP: ${parseFloat(row.FIP).toFixed(2)}`);
+		if (row.WHIP !== undefined) parts.push(`WHIP: ${parseFloat(row.WHIP).toFixed(2)}`);
+		if (row.K9 !== undefined) parts.push(`K/9: ${parseFloat(row.K9).toFixed(1)}`);
+		if (row.AVG !== undefined) {
+			parts.push(`AVG: ${formatRate(row.AVG)}`);
+		} else if (row.H !== undefined && row.AB) {
+			parts.push(`AVG: ${formatRate(row.H / row.AB)}`);
+		}
+		if (row.OBP !== undefined) parts.push(`OBP: ${formatRate(row.OBP)}`);
+		if (row.HR !== undefined) parts.push(`${row.HR} HR`);
+		if (row.RBI !== undefined) parts.push(`${row.RBI} RBI`);
+		if (row.SB !== undefined) parts.push(`${row.SB} SB`);
 		if (row.SO !== undefined) parts.push(`${row.SO} SO`);
 		if (row.W !== undefined) parts.push(`${row.W} W`);
 		if (row.yearID) parts.push(`(${row.yearID})`);
@@ -224,6 +960,13 @@ function formatSimple(results: any[], userQuery: string): string {
 	return formatTable(results);
 }
 
+/**
+ * Format a batting rate the way box scores do (.300 instead of 0.300)
+ */
+function formatRate(value: number | string): string {
+	return parseFloat(String(value)).toFixed(3).replace(/^0\./, '.');
+}
+
 function formatTable(results: any[]): string {
 	if (results.length === 0) return 'No results found.';
 	const keys = Object.keys(results[0]);
@@ -238,16 +981,6 @@ function formatTable(results: any[]): string {
 	return [header, separator, ...rows].join('\n');
 }
 
-function jsonResponse(data: any, status: number = 200): Response {
-	return new Response(JSON.stringify(data), {
-		status,
-		headers: {
-			'Content-Type': 'application/json',
-			'Access-Control-Allow-Origin': '*',
-		},
-	});
-}
-
 const HTML_CONTENT = `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -258,6 +991,7 @@ const HTML_CONTENT = `<!DOCTYPE html>
     <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>
     <link href="https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&family=JetBrains+Mono:wght@400;500&display=swap" rel="stylesheet">
     <script src="https://cdn.tailwindcss.com"></script>
+    <script src="https://cdn.jsdelivr.net/npm/chart.js@4.4.1/dist/chart.umd.min.js"></script>
     <script>
         tailwind.config = {
             theme: {
@@ -421,7 +1155,7 @@ const HTML_CONTENT = `<!DOCTYPE html>
                         </div>
 
                         <p class="text-lg text-slate-400 leading-relaxed max-w-xl mx-auto">
-                            Query pitching statistics (2018-2024) using natural language. <br/>
+                            Query pitching, batting and fielding statistics (2018-2024) using natural language. <br/>
                             Simply ask a question to generate SQL and get insights.
                         </p>
                     </div>
@@ -519,6 +1253,7 @@ const HTML_CONTENT = `<!DOCTYPE html>
         const sendBtn = document.getElementById('send-btn');
         const loadingIndicator = document.getElementById('loading-indicator');
         const exampleBtns = document.querySelectorAll('.example-btn');
+        let sessionId = sessionStorage.getItem('sessionId');
 
         // Email copy function
         function copyEmail(btn) {
@@ -552,12 +1287,10 @@ const HTML_CONTENT = `<!DOCTYPE html>
             messagesList.appendChild(msgDiv);
         }
 
-        function appendAIMessage(text) {
+        function createAIMessage() {
             const msgDiv = document.createElement('div');
             msgDiv.className = 'flex gap-4 items-start animate-slide-up';
 
-            const formattedText = text.replace(/\\n/g, '<br>');
-
             msgDiv.innerHTML = \`
                 <div class="w-8 h-8 rounded-full bg-blue-600 flex items-center justify-center text-white shrink-0 mt-1 shadow-lg shadow-blue-500/20">
                     <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" class="w-4 h-4">
@@ -567,11 +1300,252 @@ const HTML_CONTENT = `<!DOCTYPE html>
                     </svg>
                 </div>
                 <div class="glass-panel px-5 py-3 rounded-2xl rounded-tl-none text-slate-200 max-w-[90%] text-sm md:text-base leading-relaxed shadow-sm border border-slate-700/50">
-                    \${formattedText}
+                    <div class="ai-stages space-y-1 mb-2 empty:hidden text-xs font-mono text-slate-400"></div>
+                    <div class="ai-text whitespace-pre-wrap"></div>
+                    <div class="ai-data space-y-3 mt-3 empty:hidden"></div>
+                    <div class="ai-sql mt-3 empty:hidden"></div>
                 </div>
             \`;
             messagesList.appendChild(msgDiv);
             scrollToBottom();
+
+            return {
+                stages: msgDiv.querySelector('.ai-stages'),
+                text: msgDiv.querySelector('.ai-text'),
+                data: msgDiv.querySelector('.ai-data'),
+                sql: msgDiv.querySelector('.ai-sql'),
+            };
+        }
+
+        const CHART_COLORS = ['#3b82f6', '#f97316', '#a855f7'];
+
+        function formatCell(value) {
+            if (value === null || value === undefined) return '';
+            if (typeof value !== 'number' || Number.isInteger(value)) return String(value);
+            return Math.abs(value) < 1 ? value.toFixed(3) : value.toFixed(2);
+        }
+
+        function chartLabel(row, key) {
+            if (key === 'nameLast' && row.nameFirst) return row.nameFirst + ' ' + row.nameLast;
+            return String(row[key]);
+        }
+
+        function renderChart(container, results, visualization) {
+            if (!window.Chart || !visualization || visualization.type === 'table') return;
+
+            const wrapper = document.createElement('div');
+            wrapper.className = 'h-64 rounded-xl bg-slate-900/60 border border-slate-700/50 p-3';
+            const canvas = document.createElement('canvas');
+            wrapper.appendChild(canvas);
+            container.appendChild(wrapper);
+
+            new Chart(canvas, {
+                type: visualization.type,
+                data: {
+                    labels: results.map(row => chartLabel(row, visualization.x)),
+                    datasets: visualization.y.map((key, i) => ({
+                        label: key,
+                        data: results.map(row => row[key]),
+                        borderColor: CHART_COLORS[i % CHART_COLORS.length],
+                        backgroundColor: CHART_COLORS[i % CHART_COLORS.length] + '99',
+                        tension: 0.25,
+                    })),
+                },
+                options: {
+                    responsive: true,
+                    maintainAspectRatio: false,
+                    plugins: { legend: { labels: { color: '#cbd5e1' } } },
+                    scales: {
+                        x: { ticks: { color: '#94a3b8' }, grid: { color: '#1e293b' } },
+                        y: { ticks: { color: '#94a3b8' }, grid: { color: '#1e293b' } },
+                    },
+                },
+            });
+        }
+
+        // Sortable results table; clicking a header toggles ascending/descending
+        function renderTable(container, results, columns) {
+            if (results.length === 0) return;
+
+            const wrapper = document.createElement('div');
+            wrapper.className = 'overflow-x-auto rounded-xl border border-slate-700/50';
+            const table = document.createElement('table');
+            table.className = 'min-w-full text-xs md:text-sm font-mono';
+            wrapper.appendChild(table);
+            container.appendChild(wrapper);
+
+            const names = columns.map(column => column.name);
+            const numeric = new Set(columns.filter(column => column.type === 'integer' || column.type === 'real').map(column => column.name));
+            let rows = results.slice();
+            let sortKey = null;
+            let ascending = true;
+
+            const render = () => {
+                table.innerHTML = '';
+                const head = table.createTHead().insertRow();
+                names.forEach(name => {
+                    const th = document.createElement('th');
+                    th.className = 'px-3 py-2 text-left text-slate-400 bg-slate-900/80 cursor-pointer select-none hover:text-white';
+                    th.textContent = name + (sortKey === name ? (ascending ? ' ▲' : ' ▼') : '');
+                    th.addEventListener('click', () => {
+                        ascending = sortKey === name ? !ascending : true;
+                        sortKey = name;
+                        rows.sort((a, b) => {
+                            const x = a[name];
+                            const y = b[name];
+                            if (x === null || x === undefined) return 1;
+                            if (y === null || y === undefined) return -1;
+                            const order = numeric.has(name) ? x - y : String(x).localeCompare(String(y));
+                            return ascending ? order : -order;
+                        });
+                        render();
+                    });
+                    head.appendChild(th);
+                });
+
+                const body = table.createTBody();
+                rows.forEach(row => {
+                    const tr = body.insertRow();
+                    tr.className = 'border-t border-slate-800 hover:bg-slate-800/40';
+                    names.forEach(name => {
+                        const td = tr.insertCell();
+                        td.className = 'px-3 py-1.5 whitespace-nowrap' + (numeric.has(name) ? ' text-right' : '');
+                        td.textContent = formatCell(row[name]);
+                    });
+                });
+            };
+            render();
+        }
+
+        // Comparison card: one column per player or team, each stat's leader highlighted
+        function renderComparison(container, comparison) {
+            const wrapper = document.createElement('div');
+            wrapper.className = 'overflow-x-auto rounded-lg border border-slate-800 text-xs';
+            const table = document.createElement('table');
+            table.className = 'min-w-full';
+
+            const head = table.createTHead().insertRow();
+            const headings = ['Stat'].concat(comparison.subjects.map(subject => {
+                if (subject.from === null) return subject.label;
+                return subject.label + ' (' + (subject.from === subject.to ? subject.from : subject.from + '–' + subject.to) + ')';
+            }), ['Gap']);
+            headings.forEach((heading, i) => {
+                const th = document.createElement('th');
+                th.className = 'px-3 py-2 text-slate-400 bg-slate-900/80 whitespace-nowrap ' + (i === 0 ? 'text-left' : 'text-right');
+                th.textContent = heading;
+                head.appendChild(th);
+            });
+
+            const body = table.createTBody();
+            comparison.stats.forEach(stat => {
+                const tr = body.insertRow();
+                tr.className = 'border-t border-slate-800 hover:bg-slate-800/40';
+                const label = tr.insertCell();
+                label.className = 'px-3 py-1.5 text-slate-300 whitespace-nowrap';
+                label.textContent = stat.label;
+                comparison.subjects.forEach(subject => {
+                    const td = tr.insertCell();
+                    const leads = stat.leader === subject.id;
+                    td.className = 'px-3 py-1.5 text-right whitespace-nowrap' + (leads ? ' text-emerald-400 font-semibold' : '');
+                    td.textContent = formatCell(subject.values[stat.key]);
+                });
+                const gap = tr.insertCell();
+                gap.className = 'px-3 py-1.5 text-right text-slate-400 whitespace-nowrap';
+                gap.textContent = formatCell(stat.difference);
+            });
+            wrapper.appendChild(table);
+            container.appendChild(wrapper);
+
+            if (comparison.missing.length > 0) {
+                const note = document.createElement('div');
+                note.className = 'text-xs text-slate-500';
+                note.textContent = 'No stats found for ' + comparison.missing.join(', ');
+                container.appendChild(note);
+            }
+        }
+
+        function renderSQL(message, sql, attempts) {
+            const details = document.createElement('details');
+            details.className = 'text-xs';
+            const summary = document.createElement('summary');
+            summary.className = 'cursor-pointer text-slate-400 hover:text-white select-none';
+            summary.textContent = attempts && attempts.length > 1
+                ? 'Show SQL (' + attempts.length + ' attempts)'
+                : 'Show SQL';
+            const pre = document.createElement('pre');
+            pre.className = 'mt-2 p-3 rounded-lg bg-slate-950 border border-slate-800 font-mono text-slate-300 whitespace-pre-wrap';
+            pre.textContent = sql;
+            details.appendChild(summary);
+            details.appendChild(pre);
+            message.sql.appendChild(details);
+        }
+
+        // One button per candidate; picking one re-asks the question with that choice
+        function renderChoices(message, question, choices, ambiguous) {
+            ambiguous.forEach(item => {
+                const group = document.createElement('div');
+                group.className = 'flex flex-wrap gap-2';
+                item.candidates.forEach(candidate => {
+                    const button = document.createElement('button');
+                    button.className = 'px-3 py-1.5 rounded-lg border border-slate-700 bg-slate-900/60 text-xs text-slate-200 hover:border-blue-500/50 hover:text-white transition-colors';
+                    button.textContent = candidate.label + ' (' + candidate.detail + ')';
+                    button.addEventListener('click', () => {
+                        sendMessage(question, { ...choices, [item.mention]: candidate.id });
+                    });
+                    group.appendChild(button);
+                });
+                message.data.appendChild(group);
+            });
+        }
+
+        // Suggested rephrasings for a question that was ambiguous or outside the data
+        function renderOptions(message, options) {
+            const group = document.createElement('div');
+            group.className = 'flex flex-wrap gap-2';
+            options.forEach(option => {
+                const button = document.createElement('button');
+                button.className = 'px-3 py-1.5 rounded-lg border border-slate-700 bg-slate-900/60 text-xs text-slate-200 hover:border-blue-500/50 hover:text-white transition-colors';
+                button.textContent = option;
+                button.addEventListener('click', () => sendMessage(option));
+                group.appendChild(button);
+            });
+            message.data.appendChild(group);
+        }
+
+        function appendAIMessage(text) {
+            createAIMessage().text.textContent = text;
+            scrollToBottom();
+        }
+
+        function appendStage(message, label, value) {
+            const stage = document.createElement('div');
+            const name = document.createElement('span');
+            name.className = 'text-blue-400';
+            name.textContent = label + ' ';
+            stage.appendChild(name);
+            stage.appendChild(document.createTextNode(value));
+            message.stages.appendChild(stage);
+        }
+
+        // Parse "event: name\\ndata: {...}" frames from the SSE response body
+        async function readEvents(response, onEvent) {
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+
+                const frames = buffer.split('\\n\\n');
+                buffer = frames.pop();
+                for (const frame of frames) {
+                    const event = frame.match(/^event: (.*)$/m);
+                    const data = frame.match(/^data: (.*)$/m);
+                    if (event && data) onEvent(event[1], JSON.parse(data[1]));
+                }
+            }
         }
 
         function scrollToBottom() {
@@ -581,7 +1555,7 @@ const HTML_CONTENT = `<!DOCTYPE html>
             });
         }
 
-        async function sendMessage(message = null) {
+        async function sendMessage(message = null, choices = null) {
             const msg = message || userInput.value.trim();
             if (!msg) return;
 
@@ -599,20 +1573,72 @@ const HTML_CONTENT = `<!DOCTYPE html>
             scrollToBottom();
 
             try {
-                const response = await fetch('/api/chat', {
+                const response = await fetch('/api/chat/stream', {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ message: msg })
+                    body: JSON.stringify({
+                        message: msg,
+                        ...(sessionId ? { sessionId } : {}),
+                        ...(choices ? { choices } : {}),
+                    })
                 });
 
-                const data = await response.json();
-                loadingIndicator.classList.add('hidden');
-
-                if (data.success) {
-                    appendAIMessage(data.message);
-                } else {
+                if (!(response.headers.get('Content-Type') || '').includes('text/event-stream')) {
+                    const data = await response.json();
+                    loadingIndicator.classList.add('hidden');
                     appendAIMessage(\`Error: \${data.error}\`);
+                    return;
                 }
+
+                let message = null;
+                const ensureMessage = () => {
+                    if (!message) {
+                        loadingIndicator.classList.add('hidden');
+                        message = createAIMessage();
+                    }
+                    return message;
+                };
+
+                await readEvents(response, (event, data) => {
+                    const target = ensureMessage();
+                    // Clarifications and disambiguations finish without an sql event
+                    if (data.sessionId) {
+                        sessionId = data.sessionId;
+                        sessionStorage.setItem('sessionId', sessionId);
+                    }
+
+                    if (event === 'sql') {
+                        renderSQL(target, data.sql, data.attempts);
+                    } else if (event === 'rows') {
+                        appendStage(target, 'Rows', \`\${data.results.length} returned\`);
+                        if (data.comparison) {
+                            renderComparison(target.data, data.comparison);
+                        } else if (data.results.length > 1) {
+                            renderChart(target.data, data.results, data.visualization);
+                            renderTable(target.data, data.results, data.columns);
+                        }
+                        for (const context of data.leagueContext || []) {
+                            const ranks = Object.entries(context.percentiles)
+                                .map(([stat, rank]) => \`\${stat} p\${rank}\`)
+                                .join(', ');
+                            const parts = [context.eraPlus !== null ? \`ERA+ \${context.eraPlus}\` : '', ranks].filter(Boolean);
+                            appendStage(target, 'League', \`\${context.name} \${context.yearID}: \${parts.join(' · ') || 'no league data'}\`);
+                        }
+                    } else if (event === 'clarification') {
+                        target.text.textContent = data.message;
+                        if (data.options.length > 0) renderOptions(target, data.options);
+                    } else if (event === 'disambiguation') {
+                        target.text.textContent = data.disambiguation
+                            .map(item => \`Which \${item.kind} did you mean by "\${item.mention}"?\`)
+                            .join('\\n');
+                        renderChoices(target, msg, choices || {}, data.disambiguation);
+                    } else if (event === 'token') {
+                        target.text.textContent += data.text;
+                    } else if (event === 'error') {
+                        target.text.textContent = \`Error: \${data.error}\`;
+                    }
+                    scrollToBottom();
+                });
             } catch (error) {
                 loadingIndicator.classList.add('hidden');
                 appendAIMessage(\`Sorry, something went wrong. (\${error.message})\`);
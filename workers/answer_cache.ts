@@ -0,0 +1,197 @@
+/**
+ * Two-level answer cache
+ * Level one maps a normalized standalone question to the SQL that answered
+ * it, so popular questions skip entity resolution and SQL generation. Level
+ * two maps validated SQL to its result rows, so repeated queries skip D1.
+ * Keys include the data version written by the seed script, so reseeding
+ * invalidates everything at once.
+ */
+
+import { EntityChoices, ResolvedEntity } from './entity_resolver';
+
+const CACHE_TTL_SECONDS = 24 * 60 * 60;
+const VERSION_TTL_MS = 60 * 1000;
+const MEMORY_CACHE_ENTRIES = 500;
+const CACHE_ORIGIN = 'https://answer-cache.internal';
+
+export type CacheStatus = 'hit' | 'miss' | 'bypass';
+
+export interface CacheReport {
+	/** Question -> SQL lookup */
+	sql: CacheStatus;
+	/** SQL -> rows lookup for the final query */
+	rows: CacheStatus;
+	dataVersion: string | null;
+}
+
+export interface CachedQuestion {
+	sql: string;
+	entities: ResolvedEntity[];
+}
+
+/**
+ * Where cached values live: the Workers Cache API in production, a
+ * per-isolate Map in development
+ */
+interface CacheStore {
+	get(key: string): Promise<string | null>;
+	put(key: string, value: string): Promise<void>;
+	delete(key: string): Promise<void>;
+}
+
+class WorkersCacheStore implements CacheStore {
+	async get(key: string): Promise<string | null> {
+		const response = await caches.default.match(cacheURL(key));
+		return response ? response.text() : null;
+	}
+
+	async put(key: string, value: string): Promise<void> {
+		await caches.default.put(
+			cacheURL(key),
+			new Response(value, { headers: { 'Cache-Control': `max-age=${CACHE_TTL_SECONDS}` } })
+		);
+	}
+
+	async delete(key: string): Promise<void> {
+		await caches.default.delete(cacheURL(key));
+	}
+}
+
+class MemoryCacheStore implements CacheStore {
+	private entries = new Map<string, { value: string; expiresAt: number }>();
+
+	async get(key: string): Promise<string | null> {
+		const entry = this.entries.get(key);
+		if (!entry || entry.expiresAt < Date.now()) {
+			this.entries.delete(key);
+			return null;
+		}
+		// Re-insert so the Map's order tracks recency
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		return entry.value;
+	}
+
+	async put(key: string, value: string): Promise<void> {
+		this.entries.delete(key);
+		this.entries.set(key, { value, expiresAt: Date.now() + CACHE_TTL_SECONDS * 1000 });
+		if (this.entries.size > MEMORY_CACHE_ENTRIES) {
+			this.entries.delete(this.entries.keys().next().value!);
+		}
+	}
+
+	async delete(key: string): Promise<void> {
+		this.entries.delete(key);
+	}
+}
+
+const memoryStore = new MemoryCacheStore();
+let dataVersion: { value: string | null; expiresAt: number } | null = null;
+
+export class AnswerCache {
+	readonly report: CacheReport;
+
+	private constructor(private store: CacheStore, version: string | null, private sqlModel: string) {
+		const status = version ? 'miss' : 'bypass';
+		this.report = { sql: status, rows: status, dataVersion: version };
+	}
+
+	/**
+	 * Open the cache for the current data version; without one (a database
+	 * seeded before data_version existed) every lookup is bypassed. Cached SQL
+	 * is kept per SQL model, so switching models does not reuse its answers.
+	 */
+	static async open(db: D1Database, environment?: string, sqlModel = ''): Promise<AnswerCache> {
+		const store = environment === 'development' || typeof caches === 'undefined'
+			? memoryStore
+			: new WorkersCacheStore();
+		return new AnswerCache(store, await readDataVersion(db), sqlModel);
+	}
+
+	async getQuestion(question: string, choices: EntityChoices): Promise<CachedQuestion | null> {
+		if (!this.report.dataVersion) return null;
+		const cached = await this.store.get(await this.key('question', questionKey(question, choices, this.sqlModel)));
+		this.report.sql = cached ? 'hit' : 'miss';
+		return cached ? JSON.parse(cached) as CachedQuestion : null;
+	}
+
+	async putQuestion(question: string, choices: EntityChoices, value: CachedQuestion): Promise<void> {
+		if (!this.report.dataVersion) return;
+		await this.store.put(await this.key('question', questionKey(question, choices, this.sqlModel)), JSON.stringify(value));
+	}
+
+	/**
+	 * Drop a question's SQL, e.g. when the SQL guard no longer accepts it
+	 */
+	async deleteQuestion(question: string, choices: EntityChoices): Promise<void> {
+		if (!this.report.dataVersion) return;
+		this.report.sql = 'miss';
+		await this.store.delete(await this.key('question', questionKey(question, choices, this.sqlModel)));
+	}
+
+	/**
+	 * Rows for a validated query, running it only on a miss
+	 */
+	async rows(sql: string, run: () => Promise<any[]>): Promise<any[]> {
+		if (!this.report.dataVersion) return run();
+
+		const key = await this.key('rows', sql);
+		const cached = await this.store.get(key);
+		this.report.rows = cached ? 'hit' : 'miss';
+		if (cached) return JSON.parse(cached);
+
+		const results = await run();
+		await this.store.put(key, JSON.stringify(results));
+		return results;
+	}
+
+	private async key(level: string, text: string): Promise<string> {
+		return `${this.report.dataVersion}/${level}/${await sha256(text)}`;
+	}
+}
+
+/**
+ * Case, spacing and trailing punctuation do not change a question's SQL
+ */
+export function normalizeQuestion(question: string): string {
+	return question
+		.toLowerCase()
+		.replace(/[‘’]/g, "'")
+		.replace(/[“”]/g, '"')
+		.replace(/\s+/g, ' ')
+		.replace(/[\s?.!]+$/, '')
+		.trim();
+}
+
+function questionKey(question: string, choices: EntityChoices, sqlModel: string): string {
+	const sortedChoices = Object.entries(choices)
+		.map(([mention, id]) => [normalizeQuestion(mention), id])
+		.sort(([a], [b]) => a.localeCompare(b));
+	return JSON.stringify([normalizeQuestion(question), sortedChoices, sqlModel]);
+}
+
+/**
+ * Current data version, re-read from D1 at most once a minute per isolate
+ */
+async function readDataVersion(db: D1Database): Promise<string | null> {
+	if (dataVersion && dataVersion.expiresAt > Date.now()) return dataVersion.value;
+
+	let value: string | null = null;
+	try {
+		const row = await db.prepare('SELECT version FROM data_version WHERE id = 1').first<{ version: string }>();
+		value = row?.version || null;
+	} catch (error) {
+		console.warn('Could not read data_version; answer cache disabled:', error);
+	}
+	dataVersion = { value, expiresAt: Date.now() + VERSION_TTL_MS };
+	return value;
+}
+
+function cacheURL(key: string): string {
+	return `${CACHE_ORIGIN}/${key}`;
+}
+
+async function sha256(text: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+	return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,199 @@
+/**
+ * ChatState Durable Object
+ * Stores the turns of each chat session so follow-up questions can be
+ * resolved against earlier ones. One object per session, plus one index
+ * object per caller that tracks the sessions it owns. A session belongs to
+ * the caller (API key, or IP address without one) that asked its first
+ * question; only that caller or an admin key can read, continue or clear it.
+ * Owners are stored as a keyed hash of the caller (see sessionAccess).
+ */
+
+import { Caller } from './access_control';
+
+const MAX_TURNS = 20;
+const INDEX_PREFIX = '__sessions__:';
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const OWNER_HEADER = 'X-Session-Owner';
+const ADMIN_HEADER = 'X-Session-Admin';
+
+export interface ChatTurn {
+	question: string;
+	sql: string;
+	/** Short description of the rows the query returned */
+	summary: string;
+	answer: string;
+	createdAt: string;
+}
+
+export interface SessionInfo {
+	id: string;
+	title: string;
+	turnCount: number;
+	createdAt: string;
+	updatedAt: string;
+}
+
+/** Who is asking for a session: a keyed hash of the caller, see sessionAccess */
+export interface SessionAccess {
+	owner: string;
+	admin: boolean;
+}
+
+/** The session belongs to another caller */
+export class SessionAccessError extends Error {
+	constructor(public sessionId: string) {
+		super(`Session ${sessionId} belongs to another caller`);
+		this.name = 'SessionAccessError';
+	}
+}
+
+export class ChatState {
+	constructor(private state: DurableObjectState) {}
+
+	async fetch(request: Request): Promise<Response> {
+		const url = new URL(request.url);
+		const storage = this.state.storage;
+
+		if (url.pathname === '/turns') {
+			const owner = await storage.get<string>('owner');
+			const claimed = request.headers.get(OWNER_HEADER);
+			if (owner && owner !== claimed && request.headers.get(ADMIN_HEADER) !== 'true') {
+				return new Response('Forbidden', { status: 403 });
+			}
+			if (request.method === 'GET') {
+				return Response.json((await storage.get<ChatTurn[]>('turns')) || []);
+			}
+			if (request.method === 'POST') {
+				const turn = await request.json() as ChatTurn;
+				const turns = (await storage.get<ChatTurn[]>('turns')) || [];
+				turns.push(turn);
+				await storage.put('turns', turns.slice(-MAX_TURNS));
+				if (!owner && claimed) await storage.put('owner', claimed);
+				return Response.json({ turnCount: turns.length, owner: owner || claimed });
+			}
+			if (request.method === 'DELETE') {
+				await storage.delete(['turns', 'owner']);
+				return Response.json({ cleared: true, owner: owner ?? null });
+			}
+		}
+
+		if (url.pathname === '/sessions' && request.method === 'GET') {
+			const entries = await storage.list<SessionInfo>({ prefix: 'session:' });
+			const sessions = [...entries.values()].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+			return Response.json(sessions);
+		}
+
+		const sessionMatch = url.pathname.match(/^\/sessions\/([^/]+)$/);
+		if (sessionMatch) {
+			const key = `session:${sessionMatch[1]}`;
+			if (request.method === 'PUT') {
+				const update = await request.json() as { title: string; turnCount: number };
+				const now = new Date().toISOString();
+				const existing = await storage.get<SessionInfo>(key);
+				await storage.put(key, {
+					id: sessionMatch[1],
+					title: existing?.title || update.title,
+					turnCount: update.turnCount,
+					createdAt: existing?.createdAt || now,
+					updatedAt: now,
+				});
+				return Response.json({ ok: true });
+			}
+			if (request.method === 'DELETE') {
+				await storage.delete(key);
+				return Response.json({ ok: true });
+			}
+		}
+
+		return new Response('Not found', { status: 404 });
+	}
+}
+
+export function isValidSessionId(sessionId: unknown): sessionId is string {
+	return typeof sessionId === 'string' && SESSION_ID_PATTERN.test(sessionId);
+}
+
+/**
+ * The owner a caller's sessions are stored under. With a secret this is
+ * HMAC-SHA-256, which cannot be reversed by hashing the IPv4 space; an
+ * unkeyed SHA-256 can, so production should set SESSION_SECRET. Changing the
+ * secret detaches existing sessions from their owners.
+ */
+export async function sessionAccess(caller: Caller, secret?: string): Promise<SessionAccess> {
+	const data = new TextEncoder().encode(`${caller.kind}:${caller.id}`);
+	let digest: ArrayBuffer;
+	if (secret) {
+		const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+		digest = await crypto.subtle.sign('HMAC', key, data);
+	} else {
+		digest = await crypto.subtle.digest('SHA-256', data);
+	}
+	const owner = [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+	return { owner, admin: caller.admin };
+}
+
+export async function loadHistory(ns: DurableObjectNamespace, sessionId: string, access: SessionAccess): Promise<ChatTurn[]> {
+	const response = await sessionFetch(ns, sessionId, access, 'GET');
+	return response.json() as Promise<ChatTurn[]>;
+}
+
+export async function appendTurn(ns: DurableObjectNamespace, sessionId: string, turn: ChatTurn, access: SessionAccess): Promise<void> {
+	const response = await sessionFetch(ns, sessionId, access, 'POST', JSON.stringify(turn));
+	const { turnCount, owner } = await response.json() as { turnCount: number; owner: string };
+
+	await indexStub(ns, owner).fetch(`https://chat-state/sessions/${sessionId}`, {
+		method: 'PUT',
+		body: JSON.stringify({ title: turn.question.slice(0, 80), turnCount }),
+	});
+}
+
+/**
+ * The caller's own sessions, most recently updated first
+ */
+export async function listSessions(ns: DurableObjectNamespace, access: SessionAccess): Promise<SessionInfo[]> {
+	const response = await indexStub(ns, access.owner).fetch('https://chat-state/sessions');
+	return response.json() as Promise<SessionInfo[]>;
+}
+
+export async function clearSession(ns: DurableObjectNamespace, sessionId: string, access: SessionAccess): Promise<void> {
+	const response = await sessionFetch(ns, sessionId, access, 'DELETE');
+	const { owner } = await response.json() as { owner: string | null };
+	if (owner) {
+		await indexStub(ns, owner).fetch(`https://chat-state/sessions/${sessionId}`, { method: 'DELETE' });
+	}
+}
+
+/**
+ * Compact description of a result set for the conversation history
+ */
+export function summarizeResults(results: any[]): string {
+	if (results.length === 0) return 'no rows';
+	const preview = JSON.stringify(results.slice(0, 3));
+	const clipped = preview.length > 400 ? `${preview.slice(0, 400)}...` : preview;
+	return `${results.length} row(s): ${clipped}`;
+}
+
+/**
+ * Call a session's turns endpoint as the caller; throws SessionAccessError
+ * if the session belongs to someone else
+ */
+async function sessionFetch(
+	ns: DurableObjectNamespace,
+	sessionId: string,
+	access: SessionAccess,
+	method: string,
+	body?: string
+): Promise<Response> {
+	const stub = ns.get(ns.idFromName(`session:${sessionId}`));
+	const response = await stub.fetch('https://chat-state/turns', {
+		method,
+		body,
+		headers: { [OWNER_HEADER]: access.owner, [ADMIN_HEADER]: String(access.admin) },
+	});
+	if (response.status === 403) throw new SessionAccessError(sessionId);
+	return response;
+}
+
+function indexStub(ns: DurableObjectNamespace, owner: string): DurableObjectStub {
+	return ns.get(ns.idFromName(`${INDEX_PREFIX}${owner}`));
+}
@@ -0,0 +1,229 @@
+/**
+ * Player and team comparisons
+ * "Compare deGrom and Scherzer 2018–2019" or "2019 Nationals vs 2023
+ * Rangers" skip free-form SQL generation: the resolved players or teams get
+ * one aligned stat line each over the same span (or their own season when
+ * the question pairs a year with each name), read from pitching_season or
+ * teams, and the rows become a side-by-side payload with the leader of each
+ * stat and the gap to the runner-up.
+ */
+
+import { EntityKind, ResolvedEntity } from './entity_resolver';
+
+export const COMPARISON_PATTERN = /\b(?:compare[ds]?|comparing|comparison|vs\.?|versus|head[- ]to[- ]head|side[- ]by[- ]side)(?=\W|$)|\b(?:better|worse)\b.*\bor\b/i;
+
+const MAX_SUBJECTS = 5;
+
+export interface ComparisonSubject {
+	id: string;
+	label: string;
+	/** Season span, or null for every season in the data */
+	from: number | null;
+	to: number | null;
+}
+
+/** A comparison found in a question, before its rows are read */
+export interface ComparisonRequest {
+	kind: EntityKind;
+	subjects: ComparisonSubject[];
+}
+
+export interface ComparisonStat {
+	key: string;
+	label: string;
+	/** Which direction wins; null for volume stats such as games */
+	better: 'high' | 'low' | null;
+	/** ID of the subject with the best value, null on a tie or with no direction */
+	leader: string | null;
+	/** Gap between the best and second-best values */
+	difference: number | null;
+}
+
+export interface Comparison {
+	kind: EntityKind;
+	subjects: (ComparisonSubject & { seasons: number; values: Record<string, number | null> })[];
+	stats: ComparisonStat[];
+	/** Labels of subjects with no rows in their span */
+	missing: string[];
+}
+
+interface StatDefinition {
+	key: string;
+	label: string;
+	better: 'high' | 'low' | null;
+	/** Aggregate over the span, with s as the season source */
+	sql: string;
+}
+
+const PITCHING_STATS: StatDefinition[] = [
+	{ key: 'W', label: 'Wins', better: 'high', sql: 'SUM(s.W)' },
+	{ key: 'L', label: 'Losses', better: 'low', sql: 'SUM(s.L)' },
+	{ key: 'G', label: 'Games', better: null, sql: 'SUM(s.G)' },
+	{ key: 'GS', label: 'Starts', better: null, sql: 'SUM(s.GS)' },
+	{ key: 'SV', label: 'Saves', better: 'high', sql: 'SUM(s.SV)' },
+	{ key: 'IP', label: 'Innings', better: 'high', sql: 'ROUND(SUM(s.IPouts) / 3.0, 1)' },
+	{ key: 'SO', label: 'Strikeouts', better: 'high', sql: 'SUM(s.SO)' },
+	{ key: 'BB', label: 'Walks', better: 'low', sql: 'SUM(s.BB)' },
+	{ key: 'ERA', label: 'ERA', better: 'low', sql: 'ROUND(SUM(s.ER) * 27.0 / NULLIF(SUM(s.IPouts), 0), 2)' },
+	{ key: 'WHIP', label: 'WHIP', better: 'low', sql: 'ROUND((SUM(s.BB) + SUM(s.H)) * 3.0 / NULLIF(SUM(s.IPouts), 0), 3)' },
+	{ key: 'K9', label: 'K/9', better: 'high', sql: 'ROUND(SUM(s.SO) * 27.0 / NULLIF(SUM(s.IPouts), 0), 2)' },
+	{ key: 'BB9', label: 'BB/9', better: 'low', sql: 'ROUND(SUM(s.BB) * 27.0 / NULLIF(SUM(s.IPouts), 0), 2)' },
+	// FIP's constant differs by season, so the span's FIP is the innings-weighted mean
+	{
+		key: 'FIP',
+		label: 'FIP',
+		better: 'low',
+		sql: 'ROUND(SUM(s.FIP * s.IPouts) / NULLIF(SUM(CASE WHEN s.FIP IS NOT NULL THEN s.IPouts END), 0), 2)',
+	},
+];
+
+const TEAM_STATS: StatDefinition[] = [
+	{ key: 'G', label: 'Games', better: null, sql: 'SUM(s.G)' },
+	{ key: 'W', label: 'Wins', better: 'high', sql: 'SUM(s.W)' },
+	{ key: 'L', label: 'Losses', better: 'low', sql: 'SUM(s.L)' },
+	{ key: 'WPct', label: 'Win %', better: 'high', sql: 'ROUND(SUM(s.W) * 1.0 / NULLIF(SUM(s.W) + SUM(s.L), 0), 3)' },
+	{ key: 'R', label: 'Runs scored', better: 'high', sql: 'SUM(s.R)' },
+	{ key: 'RA', label: 'Runs allowed', better: 'low', sql: 'SUM(s.RA)' },
+	{ key: 'RunDiff', label: 'Run differential', better: 'high', sql: 'SUM(s.R) - SUM(s.RA)' },
+	{ key: 'HR', label: 'Home runs', better: 'high', sql: 'SUM(s.HR)' },
+	{ key: 'ERA', label: 'ERA', better: 'low', sql: 'ROUND(SUM(s.ER) * 27.0 / NULLIF(SUM(s.IPouts), 0), 2)' },
+	{ key: 'DivWins', label: 'Division titles', better: 'high', sql: "SUM(CASE WHEN s.DivWin = 'Y' THEN 1 ELSE 0 END)" },
+	{ key: 'Pennants', label: 'Pennants', better: 'high', sql: "SUM(CASE WHEN s.LgWin = 'Y' THEN 1 ELSE 0 END)" },
+	{ key: 'WSWins', label: 'World Series titles', better: 'high', sql: "SUM(CASE WHEN s.WSWin = 'Y' THEN 1 ELSE 0 END)" },
+];
+
+const YEAR = /\b(18[7-9]\d|19\d\d|20\d\d)\b/g;
+
+/**
+ * A comparison of two or more resolved players, or failing that teams, if
+ * the question asks for one. Teams are compared as franchises, so a span
+ * can cross a relocation.
+ */
+export function findComparison(question: string, entities: ResolvedEntity[]): ComparisonRequest | null {
+	if (!COMPARISON_PATTERN.test(question)) return null;
+
+	const players = entities.filter(entity => entity.kind === 'player');
+	const teams = entities.filter(entity => entity.kind === 'team');
+	const kind: EntityKind | null = players.length >= 2 ? 'player' : teams.length >= 2 ? 'team' : null;
+	if (!kind) return null;
+	const picked = (kind === 'player' ? players : teams).slice(0, MAX_SUBJECTS);
+
+	const years = [...question.matchAll(YEAR)].map(match => parseInt(match[1], 10));
+	const paired = picked.map(entity => pairedYear(question, entity.mention));
+	const perSubject = paired.every(year => year !== null);
+
+	return {
+		kind,
+		subjects: picked.map((entity, i) => ({
+			id: kind === 'team' ? entity.franchID || entity.id : entity.id,
+			label: entity.label,
+			from: perSubject ? paired[i] : years.length > 0 ? Math.min(...years) : null,
+			to: perSubject ? paired[i] : years.length > 0 ? Math.max(...years) : null,
+		})),
+	};
+}
+
+/**
+ * One row per subject with every stat of its kind. IDs come from the entity
+ * resolver (Lahman codes read from D1), so they are inlined as literals and
+ * the query can be shown, cached and reused for follow-ups like any other.
+ */
+export function comparisonSQL(request: ComparisonRequest): string {
+	const stats = statsFor(request.kind);
+	const columns = stats.map(stat => `${stat.sql} AS ${stat.key}`).join(', ');
+	return request.subjects
+		.map(subject => {
+			const id = `'${subject.id.replace(/'/g, "''")}'`;
+			const span = subject.from === null ? '' : ` AND s.yearID BETWEEN ${subject.from} AND ${subject.to}`;
+			return request.kind === 'player'
+				? `SELECT s.playerID AS id, p.nameFirst, p.nameLast, MIN(s.yearID) AS firstYear, MAX(s.yearID) AS lastYear, COUNT(*) AS seasons, ${columns} FROM pitching_season s JOIN people p ON p.playerID = s.playerID WHERE s.playerID = ${id}${span} GROUP BY s.playerID`
+				: `SELECT s.franchID AS id, MAX(s.name) AS name, MIN(s.yearID) AS firstYear, MAX(s.yearID) AS lastYear, COUNT(*) AS seasons, ${columns} FROM teams s WHERE s.franchID = ${id}${span} GROUP BY s.franchID`;
+		})
+		.join(' UNION ALL ');
+}
+
+/**
+ * Line the rows up by subject and pick each stat's leader
+ */
+export function buildComparison(request: ComparisonRequest, rows: Record<string, any>[]): Comparison {
+	const byID = new Map(rows.map(row => [String(row.id), row]));
+	const found = request.subjects.filter(subject => byID.has(subject.id));
+
+	const subjects = found.map(subject => {
+		const row = byID.get(subject.id)!;
+		return {
+			...subject,
+			// The span actually covered, which can be narrower than the one asked for
+			from: row.firstYear ?? subject.from,
+			to: row.lastYear ?? subject.to,
+			seasons: row.seasons ?? 0,
+			values: Object.fromEntries(statsFor(request.kind).map(stat => [stat.key, numberOrNull(row[stat.key])])),
+		};
+	});
+
+	const stats = statsFor(request.kind).map(({ key, label, better }) => {
+		const ranked = subjects
+			.filter(subject => subject.values[key] !== null)
+			.sort((a, b) => (better === 'low' ? a.values[key]! - b.values[key]! : b.values[key]! - a.values[key]!));
+		const gap = ranked.length >= 2 ? round(Math.abs(ranked[0].values[key]! - ranked[1].values[key]!)) : null;
+		return {
+			key,
+			label,
+			better,
+			leader: better && gap ? ranked[0].id : null,
+			difference: gap,
+		};
+	});
+
+	return {
+		kind: request.kind,
+		subjects,
+		stats,
+		missing: request.subjects.filter(subject => !byID.has(subject.id)).map(subject => subject.label),
+	};
+}
+
+/**
+ * Plain-text summary of the leaders, for the answer prompt and for when
+ * the model does not write the answer
+ */
+export function describeComparison(comparison: Comparison): string {
+	const names = new Map(comparison.subjects.map(subject => [subject.id, subject.label]));
+	const lines = comparison.stats
+		.filter(stat => stat.leader)
+		.map(stat => {
+			const values = comparison.subjects.map(subject => `${subject.label} ${subject.values[stat.key] ?? '–'}`).join(', ');
+			return `- ${stat.label}: ${stat.better === 'low' ? 'lowest' : 'highest'} is ${names.get(stat.leader!)} (${values})`;
+		});
+	const spans = comparison.subjects.map(subject => `${subject.label} ${describeSpan(subject)}`).join('; ');
+	const missing = comparison.missing.length > 0 ? `\nNo ${comparison.kind === 'player' ? 'pitching' : 'team'} rows for: ${comparison.missing.join(', ')}` : '';
+	return `Compared: ${spans}\n${lines.join('\n')}${missing}`;
+}
+
+function statsFor(kind: EntityKind): StatDefinition[] {
+	return kind === 'player' ? PITCHING_STATS : TEAM_STATS;
+}
+
+/**
+ * A year written right before or after a name: "2019 Nationals", "the 2019
+ * Nationals", "Cole in 2019", "Cole's 2019"
+ */
+function pairedYear(question: string, mention: string): number | null {
+	const name = mention.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	const match = question.match(new RegExp(`\\b(\\d{4})\\s+(?:the\\s+)?${name}\\b`, 'i'))
+		?? question.match(new RegExp(`\\b${name}(?:'s)?\\s+(?:in\\s+)?(\\d{4})\\b`, 'i'));
+	return match ? parseInt(match[1], 10) : null;
+}
+
+function describeSpan(subject: { from: number | null; to: number | null }): string {
+	if (subject.from === null) return '(all seasons)';
+	return subject.from === subject.to ? `(${subject.from})` : `(${subject.from}–${subject.to})`;
+}
+
+function numberOrNull(value: unknown): number | null {
+	return typeof value === 'number' ? value : value === null || value === undefined || value === '' ? null : Number(value);
+}
+
+function round(value: number): number {
+	return Math.round(value * 1000) / 1000;
+}
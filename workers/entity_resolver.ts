@@ -0,0 +1,663 @@
+/**
+ * Player and team entity resolution
+ * Maps names in a question to Lahman IDs before SQL generation, so the model
+ * filters on playerID/teamID instead of guessing LIKE patterns. Players are
+ * matched exactly, by edit distance and by a phonetic key over people
+ * (nameFirst, nameLast, nameGiven); teams by full name, city, nickname and
+ * common short forms. Mentions that fit several players or franchises are
+ * returned so the user can pick one.
+ */
+
+export type EntityKind = 'player' | 'team';
+
+export interface ResolvedEntity {
+	kind: EntityKind;
+	/** The mention as written in the question */
+	mention: string;
+	/** playerID for players, teamID for teams */
+	id: string;
+	label: string;
+	franchID?: string;
+}
+
+export interface EntityCandidate {
+	id: string;
+	label: string;
+	/** Career span and teams, to tell candidates apart */
+	detail: string;
+}
+
+export interface AmbiguousMention {
+	kind: EntityKind;
+	mention: string;
+	candidates: EntityCandidate[];
+}
+
+export interface Resolution {
+	entities: ResolvedEntity[];
+	ambiguous: AmbiguousMention[];
+}
+
+/** Mention -> chosen playerID or teamID, sent back after a disambiguation prompt */
+export type EntityChoices = Record<string, string>;
+
+interface PlayerRow {
+	playerID: string;
+	nameFirst: string | null;
+	nameLast: string | null;
+	nameGiven: string | null;
+}
+
+interface TeamRow {
+	teamID: string;
+	franchID: string;
+	name: string;
+	firstYear: number;
+	lastYear: number;
+}
+
+interface PeopleIndex {
+	players: Map<string, PlayerRow>;
+	/** "first last" and "given last" keys -> playerIDs */
+	byName: Map<string, string[]>;
+	byLast: Map<string, string[]>;
+	/** Phonetic key -> last name keys */
+	byPhonetic: Map<string, string[]>;
+}
+
+interface TeamIndex {
+	byAlias: Map<string, TeamRow[]>;
+	/** teamID and franchID codes of current franchises, only matched in capitals */
+	byCode: Map<string, TeamRow[]>;
+	byFranchise: Map<string, TeamRow[]>;
+	latestYear: number;
+}
+
+interface Token {
+	raw: string;
+	key: string;
+	start: number;
+	end: number;
+	capitalized: boolean;
+	/** First word of the question or of a sentence in it, capitalized whatever it is */
+	sentenceStart: boolean;
+}
+
+interface Mention {
+	text: string;
+	playerIDs: string[];
+}
+
+interface Career {
+	firstYear: number;
+	lastYear: number;
+	seasons: { yearID: number; teamID: string }[];
+}
+
+const MAX_CANDIDATES = 6;
+
+const PLAYER_NICKNAMES: Record<string, string> = {
+	'mad max': 'max scherzer',
+	'big papi': 'david ortiz',
+	'king felix': 'felix hernandez',
+	'miggy': 'miguel cabrera',
+	'arod': 'alex rodriguez',
+	'el mago': 'javier baez',
+	'goldy': 'paul goldschmidt',
+	'shotime': 'shohei ohtani',
+	'big hurt': 'frank thomas',
+};
+
+/** Short forms -> franchID */
+const TEAM_NICKNAMES: Record<string, string> = {
+	nats: 'WSN',
+	yanks: 'NYY',
+	jays: 'TOR',
+	cards: 'STL',
+	redbirds: 'STL',
+	phils: 'PHI',
+	dbacks: 'ARI',
+	snakes: 'ARI',
+	bucs: 'PIT',
+	halos: 'ANA',
+	stros: 'HOU',
+	cubbies: 'CHC',
+	chisox: 'CHW',
+	bosox: 'BOS',
+	friars: 'SDP',
+	tribe: 'CLE',
+	rox: 'COL',
+	fish: 'FLA',
+	'brew crew': 'MIL',
+	'bronx bombers': 'NYY',
+};
+
+/** Words written with a period that does not end a sentence */
+const ABBREVIATIONS = new Set(['st', 'ft', 'mt', 'jr', 'sr', 'vs', 'no']);
+
+/** Two-word nicknames such as Red Sox or Blue Jays */
+const NICKNAME_PREFIXES = new Set(['red', 'white', 'blue', 'devil']);
+
+/** Words that never start or continue a player name */
+const STOP_WORDS = new Set([
+	'a', 'about', 'after', 'against', 'all', 'alltime', 'among', 'an', 'and', 'any', 'are', 'as', 'at',
+	'average', 'avg', 'bb', 'before', 'best', 'between', 'by', 'can', 'career', 'compare', 'compared',
+	'count', 'did', 'do', 'does', 'during', 'each', 'era', 'errors', 'every', 'fewest', 'find', 'fip',
+	'for', 'from', 'game', 'games', 'get', 'give', 'had', 'has', 'have', 'he', 'highest', 'his', 'hit',
+	'hits', 'hitter', 'hitters', 'home', 'homers', 'how', 'hr', 'hrs', 'i', 'ii', 'iii', 'in', 'innings',
+	'is', 'it', 'jr', 'last', 'leader', 'leaders', 'league', 'least', 'led', 'list', 'losses', 'lowest',
+	'many', 'me', 'more', 'most', 'much', 'my', 'of', 'on', 'or', 'over', 'per', 'pitched', 'pitcher',
+	'pitchers', 'pitching', 'player', 'players', 'please', 'rank', 'rate', 'rbi', 'rbis', 'run', 'runs',
+	'saves', 'season', 'seasons', 'show', 'since', 'so', 'sr', 'stats', 'strikeout', 'strikeouts',
+	'summarize', 'summary', 'team', 'teams', 'tell', 'than', 'that', 'the', 'their', 'them', 'there',
+	'this', 'to', 'top', 'total', 'under', 'versus', 'vs', 'walks', 'was', 'were', 'what', 'when',
+	'where', 'which', 'whip', 'who', 'whose', 'why', 'win', 'wins', 'with', 'year', 'years',
+]);
+
+let peopleIndex: Promise<PeopleIndex> | null = null;
+let teamIndex: Promise<TeamIndex> | null = null;
+
+/**
+ * Find the players and teams mentioned in a question. The people and teams
+ * indexes are built on first use and kept for the life of the isolate.
+ */
+export async function resolveEntities(db: D1Database, question: string, choices: EntityChoices = {}): Promise<Resolution> {
+	const [people, teams] = await Promise.all([loadPeopleIndex(db), loadTeamIndex(db)]);
+	const tokens = tokenize(question);
+	const years = [...question.matchAll(/\b(18[7-9]\d|19\d\d|20\d\d)\b/g)].map(match => parseInt(match[1], 10));
+	const used = tokens.map(() => false);
+	const mentions: Mention[] = [];
+
+	// Exact full names and nicknames first, so "Dallas Keuchel" is not read as a city
+	findSpans(tokens, used, 3, span => {
+		const key = spanKey(span);
+		const nickname = PLAYER_NICKNAMES[key];
+		if (!nickname && (span.length < 2 || span.some(token => STOP_WORDS.has(token.key)))) return null;
+		return people.byName.get(nickname || key) || null;
+	}).forEach(({ span, matches }) => mentions.push({ text: mentionText(question, span), playerIDs: matches }));
+
+	const teamMentions = findSpans(tokens, used, 4, span => {
+		const key = spanKey(span);
+		if (TEAM_NICKNAMES[key]) return teams.byFranchise.get(TEAM_NICKNAMES[key]) || null;
+		if (span.length === 1 && isCode(span[0].raw)) return teams.byCode.get(key) || null;
+		return teams.byAlias.get(key) || null;
+	});
+
+	const questionHasCapitals = /[A-Z]/.test(question.slice(1));
+	findSpans(tokens, used, 3, span => {
+		if (span.some(token => STOP_WORDS.has(token.key))) return null;
+		// Plenty of surnames are also ordinary words ("hitter-friendly parks", "Youngest
+		// pitcher to debut"), so a lone word whose capital does not mark it as a name,
+		// being lowercase or only starting a sentence, must be a possessive of a whole
+		// last name ("Kershaw's ERA"), and in lowercase only in an all-lowercase
+		// question ("kershaw's era"). Full names were matched exactly above.
+		if (span.length === 1 && (!span[0].capitalized || span[0].sentenceStart)) {
+			const possessive = span[0].raw.match(/^(.+)['’]s$/i);
+			const caseless = span[0].capitalized || !questionHasCapitals;
+			return caseless && possessive ? people.byLast.get(nameKey(possessive[1])) || null : null;
+		}
+		return matchPlayers(people, span.map(token => token.key));
+	}).forEach(({ span, matches }) => mentions.push({ text: mentionText(question, span), playerIDs: matches }));
+
+	const resolution: Resolution = { entities: [], ambiguous: [] };
+
+	const teamIDs: string[] = [];
+	for (const { span, matches } of teamMentions) {
+		const text = mentionText(question, span);
+		const picked = pickTeams(matches, years, teams.latestYear);
+		const chosen = choiceFor(choices, text);
+		const match = picked.length === 1 ? picked[0] : picked.find(row => row.teamID === chosen);
+		if (match) {
+			teamIDs.push(match.teamID);
+			resolution.entities.push({ kind: 'team', mention: text, id: match.teamID, label: match.name, franchID: match.franchID });
+		} else {
+			resolution.ambiguous.push({
+				kind: 'team',
+				mention: text,
+				candidates: picked.slice(0, MAX_CANDIDATES).map(row => ({
+					id: row.teamID,
+					label: row.name,
+					detail: `${row.teamID} · ${row.firstYear}–${row.lastYear}`,
+				})),
+			});
+		}
+	}
+
+	const careers = await loadCareers(db, mentions.flatMap(mention => mention.playerIDs));
+	for (const mention of mentions) {
+		const chosen = choiceFor(choices, mention.text);
+		const ids = chosen && mention.playerIDs.includes(chosen)
+			? [chosen]
+			: narrowPlayers(mention.playerIDs, careers, years, teamIDs);
+
+		if (ids.length === 1) {
+			resolution.entities.push({ kind: 'player', mention: mention.text, id: ids[0], label: playerName(people.players.get(ids[0])!) });
+			continue;
+		}
+		resolution.ambiguous.push({
+			kind: 'player',
+			mention: mention.text,
+			candidates: ids.slice(0, MAX_CANDIDATES).map(id => ({
+				id,
+				label: playerName(people.players.get(id)!),
+				detail: describeCareer(careers.get(id)) || id,
+			})),
+		});
+	}
+
+	resolution.entities = resolution.entities.filter(
+		(entity, i, all) => all.findIndex(other => other.kind === entity.kind && other.id === entity.id) === i
+	);
+	return resolution;
+}
+
+/**
+ * Prompt section listing the resolved IDs for the SQL model
+ */
+export function describeEntities(entities: ResolvedEntity[]): string {
+	if (entities.length === 0) return '';
+	const lines = entities.map(entity =>
+		entity.kind === 'player'
+			? `- "${entity.mention}" is the player ${entity.label}: playerID '${entity.id}'`
+			: `- "${entity.mention}" is the team ${entity.label}: teamID '${entity.id}', franchID '${entity.franchID}'`
+	);
+	return `RESOLVED ENTITIES (filter on these IDs instead of matching names):\n${lines.join('\n')}`;
+}
+
+/**
+ * Question to send back when a mention matches more than one player or team
+ */
+export function clarificationMessage(ambiguous: AmbiguousMention[]): string {
+	return ambiguous
+		.map(({ kind, mention, candidates }) => {
+			const options = candidates.map(candidate => `- ${candidate.label} (${candidate.detail})`).join('\n');
+			return `Which ${kind} did you mean by "${mention}"?\n${options}`;
+		})
+		.join('\n\n');
+}
+
+function loadPeopleIndex(db: D1Database): Promise<PeopleIndex> {
+	peopleIndex ??= buildPeopleIndex(db).catch(error => {
+		peopleIndex = null;
+		throw error;
+	});
+	return peopleIndex;
+}
+
+function loadTeamIndex(db: D1Database): Promise<TeamIndex> {
+	teamIndex ??= buildTeamIndex(db).catch(error => {
+		teamIndex = null;
+		throw error;
+	});
+	return teamIndex;
+}
+
+async function buildPeopleIndex(db: D1Database): Promise<PeopleIndex> {
+	const { results } = await db.prepare('SELECT playerID, nameFirst, nameLast, nameGiven FROM people').all<PlayerRow>();
+	const index: PeopleIndex = { players: new Map(), byName: new Map(), byLast: new Map(), byPhonetic: new Map() };
+
+	for (const row of results || []) {
+		if (!row.nameLast) continue;
+		index.players.set(row.playerID, row);
+
+		const last = nameKey(row.nameLast);
+		addTo(index.byLast, last, row.playerID);
+		if (row.nameFirst) addTo(index.byName, `${nameKey(row.nameFirst)} ${last}`, row.playerID);
+		if (row.nameGiven) {
+			const given = nameKey(row.nameGiven);
+			addTo(index.byName, `${given} ${last}`, row.playerID);
+			for (const part of given.split(' ')) addTo(index.byName, `${part} ${last}`, row.playerID);
+		}
+	}
+
+	for (const last of index.byLast.keys()) {
+		const key = phoneticKey(last);
+		if (key.length >= 3) addTo(index.byPhonetic, key, last);
+	}
+	return index;
+}
+
+async function buildTeamIndex(db: D1Database): Promise<TeamIndex> {
+	const { results } = await db
+		.prepare(
+			`SELECT teamID, franchID, name, MIN(yearID) AS firstYear, MAX(yearID) AS lastYear
+			FROM teams GROUP BY teamID, franchID, name`
+		)
+		.all<TeamRow>();
+	const index: TeamIndex = { byAlias: new Map(), byCode: new Map(), byFranchise: new Map(), latestYear: 0 };
+
+	for (const row of results || []) {
+		index.latestYear = Math.max(index.latestYear, row.lastYear);
+		addTo(index.byFranchise, row.franchID, row);
+
+		// "Los Angeles Angels of Anaheim" -> city "los angeles", nickname "angels"
+		const words = nameKey(row.name.replace(/\s+of\s+.*$/i, '')).split(' ');
+		const nicknameLength = words.length >= 3 && NICKNAME_PREFIXES.has(words[words.length - 2]) ? 2 : 1;
+		const nickname = words.slice(-nicknameLength).join(' ');
+		const city = words.slice(0, -nicknameLength).join(' ');
+
+		for (const alias of new Set([nameKey(row.name), words.join(' '), nickname, city])) {
+			if (alias) addTo(index.byAlias, alias, row);
+		}
+	}
+
+	// Codes of defunct clubs clash with stat abbreviations (SLG)
+	for (const rows of index.byFranchise.values()) {
+		if (!rows.some(row => row.lastYear === index.latestYear)) continue;
+		for (const row of rows) {
+			addTo(index.byCode, nameKey(row.teamID), row);
+			addTo(index.byCode, nameKey(row.franchID), row);
+		}
+	}
+	return index;
+}
+
+/**
+ * Playing history for each candidate, used to narrow shared names by the
+ * years and teams in the question
+ */
+async function loadCareers(db: D1Database, playerIDs: string[]): Promise<Map<string, Career>> {
+	const careers = new Map<string, Career>();
+	if (playerIDs.length === 0) return careers;
+
+	const { results } = await db
+		.prepare('SELECT playerID, yearID, teamID FROM appearances WHERE playerID IN (SELECT value FROM json_each(?))')
+		.bind(JSON.stringify([...new Set(playerIDs)]))
+		.all<{ playerID: string; yearID: number; teamID: string }>();
+
+	for (const { playerID, yearID, teamID } of results || []) {
+		const career = careers.get(playerID) || { firstYear: yearID, lastYear: yearID, seasons: [] };
+		career.firstYear = Math.min(career.firstYear, yearID);
+		career.lastYear = Math.max(career.lastYear, yearID);
+		career.seasons.push({ yearID, teamID });
+		careers.set(playerID, career);
+	}
+	return careers;
+}
+
+/**
+ * Greedily match spans of unused tokens, longest first, marking matched
+ * tokens as used
+ */
+function findSpans<T>(
+	tokens: Token[],
+	used: boolean[],
+	maxLength: number,
+	match: (span: Token[]) => T[] | null
+): { span: Token[]; matches: T[] }[] {
+	const found: { span: Token[]; matches: T[] }[] = [];
+	for (let length = maxLength; length >= 1; length--) {
+		for (let start = 0; start + length <= tokens.length; start++) {
+			if (used.slice(start, start + length).some(Boolean)) continue;
+			const span = tokens.slice(start, start + length);
+			const matches = match(span);
+			if (!matches || matches.length === 0) continue;
+			found.push({ span, matches });
+			used.fill(true, start, start + length);
+		}
+	}
+	return found.sort((a, b) => a.span[0].start - b.span[0].start);
+}
+
+/**
+ * Players whose name matches the span exactly, or failing that within a
+ * small edit distance or by sound. A lone word is matched as a last name.
+ */
+function matchPlayers(index: PeopleIndex, words: string[]): string[] | null {
+	const exact = words.length === 1 ? index.byLast.get(words[0]) : index.byName.get(words.join(' '));
+	if (exact) return exact;
+
+	let best: string[] = [];
+	let bestScore = Infinity;
+	for (const lastLength of [1, 2]) {
+		if (lastLength > words.length) continue;
+		const last = words.slice(-lastLength).join(' ');
+		const first = words.slice(0, -lastLength).join(' ');
+		if (words.length > lastLength && !first) continue;
+
+		for (const [lastName, distance] of similarLastNames(index, last)) {
+			for (const playerID of index.byLast.get(lastName)!) {
+				let score = distance;
+				if (first) {
+					const firstScore = firstNameScore(index.players.get(playerID)!, first, distance === 0);
+					if (firstScore === null) continue;
+					score += firstScore;
+				}
+				if (score < bestScore) {
+					best = [playerID];
+					bestScore = score;
+				} else if (score === bestScore) {
+					best.push(playerID);
+				}
+			}
+		}
+	}
+	return best.length > 0 ? best : null;
+}
+
+/**
+ * Last names within the allowed edit distance, plus phonetic matches
+ * (scored as one edit, so "Curshaw" finds Kershaw as well as Cutshaw)
+ */
+function similarLastNames(index: PeopleIndex, last: string): Map<string, number> {
+	const limit = maxEdits(last.length);
+	const matches = new Map<string, number>();
+
+	if (limit > 0) {
+		for (const candidate of index.byLast.keys()) {
+			if (Math.abs(candidate.length - last.length) > limit) continue;
+			const distance = editDistance(last, candidate, limit);
+			if (distance <= limit) matches.set(candidate, distance);
+		}
+	}
+
+	const key = phoneticKey(last);
+	if (key.length >= 3 && last.length >= 4) {
+		for (const candidate of index.byPhonetic.get(key) || []) {
+			if (!matches.has(candidate)) matches.set(candidate, 1);
+		}
+	}
+	return matches;
+}
+
+/**
+ * How well a typed first name fits a player: 0 for an exact match, 1 for
+ * short forms and near misses, null when it does not fit
+ */
+function firstNameScore(player: PlayerRow, first: string, exactLast: boolean): number | null {
+	const names = [player.nameFirst, player.nameGiven].filter(Boolean).map(name => nameKey(name!));
+	if (names.includes(first) || names.some(name => name.split(' ').includes(first))) return 0;
+
+	for (const name of names) {
+		if (name.startsWith(first) || first.startsWith(name)) return 1;
+		if (editDistance(first, name, 1) <= 1) return 1;
+		// "Jake deGrom" -> Jacob deGrom, only when the last name is certain
+		if (exactLast && name[0] === first[0]) return 1;
+	}
+	return null;
+}
+
+/**
+ * Teams active in the mentioned years (or currently, with no year), one
+ * per franchise
+ */
+function pickTeams(rows: TeamRow[], years: number[], latestYear: number): TeamRow[] {
+	const active = years.length > 0
+		? rows.filter(row => years.some(year => row.firstYear <= year && year <= row.lastYear))
+		: rows.filter(row => row.lastYear === latestYear);
+	const pool = active.length > 0 ? active : rows;
+
+	const byFranchise = new Map<string, TeamRow>();
+	for (const row of pool) {
+		const current = byFranchise.get(row.franchID);
+		if (!current || row.lastYear > current.lastYear) byFranchise.set(row.franchID, row);
+	}
+	return [...byFranchise.values()].sort((a, b) => b.lastYear - a.lastYear);
+}
+
+/**
+ * Narrow candidates to players in the database, then to those who played in
+ * the mentioned years and for the mentioned teams; most recent first
+ */
+function narrowPlayers(ids: string[], careers: Map<string, Career>, years: number[], teamIDs: string[]): string[] {
+	let pool = keepIfAny(ids, id => careers.has(id));
+	if (years.length > 0) {
+		pool = keepIfAny(pool, id => playedIn(careers.get(id), season => years.includes(season.yearID)));
+	}
+	if (teamIDs.length > 0) {
+		pool = keepIfAny(pool, id =>
+			playedIn(careers.get(id), season =>
+				teamIDs.includes(season.teamID) && (years.length === 0 || years.includes(season.yearID))
+			)
+		);
+	}
+	return pool.sort((a, b) => (careers.get(b)?.lastYear || 0) - (careers.get(a)?.lastYear || 0));
+}
+
+function playedIn(career: Career | undefined, predicate: (season: Career['seasons'][number]) => boolean): boolean {
+	return career ? career.seasons.some(predicate) : false;
+}
+
+function keepIfAny(ids: string[], predicate: (id: string) => boolean): string[] {
+	const kept = ids.filter(predicate);
+	return kept.length > 0 ? kept : ids;
+}
+
+function describeCareer(career: Career | undefined): string {
+	if (!career) return '';
+	const teams = [...new Set([...career.seasons].sort((a, b) => b.yearID - a.yearID).map(season => season.teamID))];
+	const shown = teams.slice(0, 4).join(', ') + (teams.length > 4 ? ', …' : '');
+	const span = career.firstYear === career.lastYear ? `${career.firstYear}` : `${career.firstYear}–${career.lastYear}`;
+	return `${span} · ${shown}`;
+}
+
+function playerName(player: PlayerRow): string {
+	return [player.nameFirst, player.nameLast].filter(Boolean).join(' ');
+}
+
+function choiceFor(choices: EntityChoices, mention: string): string | undefined {
+	const key = nameKey(mention);
+	const match = Object.entries(choices).find(([chosen]) => nameKey(chosen) === key);
+	return match?.[1];
+}
+
+function tokenize(text: string): Token[] {
+	const tokens: Token[] = [];
+	for (const match of text.matchAll(/\p{L}[\p{L}'’.\-]*/gu)) {
+		const key = nameKey(match[0]);
+		if (!key) continue;
+		const start = match.index!;
+		tokens.push({
+			raw: match[0],
+			key,
+			start,
+			end: start + match[0].length,
+			// Names like deGrom count, since their capital is inside
+			capitalized: /^\p{Ll}*\p{Lu}/u.test(match[0]),
+			sentenceStart: startsSentence(text, start, tokens[tokens.length - 1]),
+		});
+	}
+	return tokens;
+}
+
+/**
+ * Whether a word opens the text or follows the end of a sentence; a period
+ * after an abbreviation or initials ("St. Louis", "J.D. Martinez") does not
+ * end one
+ */
+function startsSentence(text: string, start: number, previous: Token | undefined): boolean {
+	if (!previous) return true;
+	if (/[.?!]/.test(text.slice(previous.end, start))) return true;
+	return previous.raw.endsWith('.') && !ABBREVIATIONS.has(previous.key) && !/^(?:\p{L}\.)+$/u.test(previous.raw);
+}
+
+function spanKey(span: Token[]): string {
+	return span.map(token => token.key).join(' ');
+}
+
+function mentionText(question: string, span: Token[]): string {
+	return question.slice(span[0].start, span[span.length - 1].end).replace(/[.'’\-]+$/, '');
+}
+
+/**
+ * Team abbreviations are only matched in capitals, so "was" is not WAS
+ */
+function isCode(raw: string): boolean {
+	return /^[A-Z]{2,3}$/.test(raw);
+}
+
+/**
+ * Lowercase, strip accents and punctuation: "St. Louis" -> "st louis",
+ * "Acuña" -> "acuna", "O'Neill" -> "oneill"
+ */
+function nameKey(text: string): string {
+	return text
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.split(/\s+/)
+		.map(word => word.replace(/[^a-z0-9]/g, ''))
+		.filter(Boolean)
+		.join(' ');
+}
+
+/**
+ * Simplified Metaphone-style key: spellings that sound alike share a key
+ * ("Kershaw"/"Curshaw", "Ohtani"/"Otani")
+ */
+function phoneticKey(name: string): string {
+	const key = name
+		.replace(/[^a-z]/g, '')
+		.replace(/^(?:kn|gn|pn|wr)/, match => match[1])
+		.replace(/x/g, 'ks')
+		.replace(/sch|sh/g, 'X')
+		.replace(/ph/g, 'f')
+		.replace(/ck|q/g, 'k')
+		.replace(/c(?=[eiy])/g, 's')
+		.replace(/c/g, 'k')
+		.replace(/z/g, 's')
+		.replace(/dg/g, 'j');
+	if (!key) return '';
+	return (key[0] + key.slice(1).replace(/[aeiouyhw]/g, '')).replace(/(.)\1+/g, '$1');
+}
+
+function maxEdits(length: number): number {
+	if (length < 5) return 0;
+	return length < 8 ? 1 : 2;
+}
+
+/**
+ * Optimal string alignment distance, giving up once it exceeds `limit`
+ */
+function editDistance(a: string, b: string, limit: number): number {
+	if (a === b) return 0;
+	let previous2: number[] = [];
+	let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		let rowMin = i;
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				value = Math.min(value, previous2[j - 2] + 1);
+			}
+			current.push(value);
+			rowMin = Math.min(rowMin, value);
+		}
+		if (rowMin > limit) return limit + 1;
+		previous2 = previous;
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+function addTo<T>(map: Map<string, T[]>, key: string, value: T): void {
+	const values = map.get(key);
+	if (!values) {
+		map.set(key, [value]);
+	} else if (!values.includes(value)) {
+		values.push(value);
+	}
+}
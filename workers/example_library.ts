@@ -0,0 +1,280 @@
+/**
+ * Few-shot example library for SQL generation
+ * Instead of a fixed list in the prompt, each question gets the examples
+ * most similar to it: by Workers AI embeddings when the AI binding is
+ * available, otherwise by a lexical score so offline runs still work. The
+ * library is the built-in examples below plus verified exchanges added
+ * through /api/examples and stored in the sql_examples table.
+ */
+
+export const MAX_EXAMPLES = 6;
+const EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5';
+const STORED_EXAMPLES_TTL_MS = 60 * 1000;
+
+export interface SQLExample {
+	question: string;
+	sql: string;
+}
+
+export interface StoredExample extends SQLExample {
+	id: number;
+	createdAt: string;
+}
+
+interface LibraryExample extends SQLExample {
+	/** Cached embedding for stored examples */
+	embedding?: number[] | null;
+}
+
+export const BUILT_IN_EXAMPLES: SQLExample[] = [
+	{
+		question: 'Who had the lowest ERA in 2023?',
+		sql: 'SELECT ps.playerID, pe.nameFirst, pe.nameLast, ps.teams, ps.ERA FROM pitching_season ps JOIN people pe ON ps.playerID = pe.playerID WHERE ps.yearID = 2023 AND ps.IP >= 162 ORDER BY ps.ERA ASC LIMIT 1;',
+	},
+	{
+		question: 'Show top 5 strikeout leaders for SEA in 2019',
+		sql: "SELECT p.playerID, pe.nameFirst, pe.nameLast, p.SO FROM pitching p JOIN people pe ON p.playerID = pe.playerID WHERE p.teamID = 'SEA' AND p.yearID = 2019 ORDER BY p.SO DESC LIMIT 5;",
+	},
+	{
+		question: 'Summarize Jacob deGrom ERA by year',
+		sql: "SELECT ps.yearID, ps.teams, ps.ERA, ps.W, ps.L FROM pitching_season ps JOIN people pe ON ps.playerID = pe.playerID WHERE pe.nameLast LIKE '%deGrom%' ORDER BY ps.yearID;",
+	},
+	{
+		question: 'Lowest WHIP in 2022 with at least 100 innings',
+		sql: 'SELECT ps.playerID, pe.nameFirst, pe.nameLast, ps.teams, ps.IP, ps.WHIP FROM pitching_season ps JOIN people pe ON ps.playerID = pe.playerID WHERE ps.yearID = 2022 AND ps.IP >= 100 ORDER BY ps.WHIP ASC LIMIT 1;',
+	},
+	{
+		question: 'Who hit the most home runs for SEA in 2021?',
+		sql: "SELECT b.playerID, pe.nameFirst, pe.nameLast, b.HR FROM batting b JOIN people pe ON b.playerID = pe.playerID WHERE b.teamID = 'SEA' AND b.yearID = 2021 ORDER BY b.HR DESC LIMIT 1;",
+	},
+	{
+		question: 'Highest batting average in 2023',
+		sql: 'SELECT b.playerID, pe.nameFirst, pe.nameLast, SUM(b.H) * 1.0 / SUM(b.AB) AS AVG FROM batting b JOIN people pe ON b.playerID = pe.playerID WHERE b.yearID = 2023 GROUP BY b.playerID HAVING SUM(b.AB + b.BB + b.HBP + b.SH + b.SF) >= 502 ORDER BY AVG DESC LIMIT 1;',
+	},
+	{
+		question: 'Which shortstops made the most errors in 2022?',
+		sql: "SELECT f.playerID, pe.nameFirst, pe.nameLast, f.teamID, f.E FROM fielding f JOIN people pe ON f.playerID = pe.playerID WHERE f.yearID = 2022 AND f.POS = 'SS' ORDER BY f.E DESC LIMIT 5;",
+	},
+	{
+		question: 'Left-handed starters born outside the USA with ERA under 3 in 2022',
+		sql: "SELECT ps.playerID, pe.nameFirst, pe.nameLast, pe.birthCountry, ps.teams, ps.ERA FROM pitching_season ps JOIN people pe ON ps.playerID = pe.playerID WHERE ps.yearID = 2022 AND pe.throws = 'L' AND pe.birthCountry <> 'USA' AND ps.GS >= 10 AND ps.ERA < 3 ORDER BY ps.ERA ASC LIMIT 10;",
+	},
+	{
+		question: 'Youngest pitcher to debut in 2019',
+		sql: "SELECT pe.playerID, pe.nameFirst, pe.nameLast, pe.debut, ROUND((julianday(pe.debut) - julianday(printf('%04d-%02d-%02d', pe.birthYear, pe.birthMonth, pe.birthDay))) / 365.25, 1) AS debutAge FROM people pe WHERE pe.debut LIKE '2019-%' AND pe.playerID IN (SELECT playerID FROM pitching WHERE yearID = 2019) ORDER BY debutAge ASC LIMIT 1;",
+	},
+	{
+		question: 'AL West standings in 2023',
+		sql: "SELECT t.Rank, t.name, t.W, t.L, ROUND(t.W * 1.0 / (t.W + t.L), 3) AS WinPct FROM teams t WHERE t.yearID = 2023 AND t.lgID = 'AL' AND t.divID = 'W' ORDER BY t.Rank LIMIT 5;",
+	},
+	{
+		question: 'Which division winners had a negative run differential?',
+		sql: "SELECT t.yearID, t.name, t.R, t.RA, t.R - t.RA AS RunDiff FROM teams t WHERE t.DivWin = 'Y' AND t.R < t.RA ORDER BY RunDiff ASC LIMIT 10;",
+	},
+	{
+		question: 'Which teams most outperformed their Pythagorean record in 2022?',
+		sql: 'SELECT t.name, t.W, t.L, ROUND(t.G * t.R * t.R * 1.0 / (t.R * t.R + t.RA * t.RA), 1) AS PythW, t.W - ROUND(t.G * t.R * t.R * 1.0 / (t.R * t.R + t.RA * t.RA), 1) AS WinsAbovePyth FROM teams t WHERE t.yearID = 2022 ORDER BY WinsAbovePyth DESC LIMIT 5;',
+	},
+	{
+		question: 'Most hitter-friendly parks in 2024',
+		sql: 'SELECT t.park, t.name, t.BPF, t.PPF FROM teams t WHERE t.yearID = 2024 ORDER BY t.BPF DESC LIMIT 5;',
+	},
+	{
+		question: 'How did Max Scherzer pitch for each team in 2021?',
+		sql: "SELECT p.stint, p.teamID, p.G, p.GS, p.W, p.L, p.ERA, ROUND(p.IPouts / 3.0, 1) AS IP, p.SO FROM pitching p JOIN people pe ON p.playerID = pe.playerID WHERE pe.nameFirst = 'Max' AND pe.nameLast = 'Scherzer' AND p.yearID = 2021 ORDER BY p.stint;",
+	},
+	{
+		question: 'Who led the majors in saves in 2023?',
+		sql: 'SELECT ps.playerID, pe.nameFirst, pe.nameLast, ps.teams, ps.SV FROM pitching_season ps JOIN people pe ON ps.playerID = pe.playerID WHERE ps.yearID = 2023 ORDER BY ps.SV DESC LIMIT 1;',
+	},
+	{
+		question: 'Most strikeouts from 2018 through 2022 combined',
+		sql: 'SELECT ps.playerID, pe.nameFirst, pe.nameLast, SUM(ps.SO) AS SO FROM pitching_season ps JOIN people pe ON ps.playerID = pe.playerID WHERE ps.yearID BETWEEN 2018 AND 2022 GROUP BY ps.playerID ORDER BY SO DESC LIMIT 10;',
+	},
+	{
+		question: 'Which pitchers played for more than one team in 2022?',
+		sql: 'SELECT ps.playerID, pe.nameFirst, pe.nameLast, ps.teams, ps.G, ps.ERA FROM pitching_season ps JOIN people pe ON ps.playerID = pe.playerID WHERE ps.yearID = 2022 AND ps.stints > 1 ORDER BY ps.G DESC LIMIT 20;',
+	},
+	{
+		question: 'Clayton Kershaw career ERA',
+		sql: "SELECT pe.nameFirst, pe.nameLast, SUM(ps.W) AS W, SUM(ps.L) AS L, ROUND(SUM(ps.ER) * 27.0 / SUM(ps.IPouts), 2) AS careerERA FROM pitching_season ps JOIN people pe ON ps.playerID = pe.playerID WHERE pe.nameFirst = 'Clayton' AND pe.nameLast = 'Kershaw' GROUP BY ps.playerID LIMIT 1;",
+	},
+	{
+		question: 'Home run leaders over the last three seasons',
+		sql: 'SELECT b.playerID, pe.nameFirst, pe.nameLast, SUM(b.HR) AS HR FROM batting b JOIN people pe ON b.playerID = pe.playerID WHERE b.yearID >= (SELECT MAX(yearID) - 2 FROM batting) GROUP BY b.playerID ORDER BY HR DESC LIMIT 10;',
+	},
+	{
+		question: 'Which team hit the most home runs in 2019?',
+		sql: 'SELECT t.name, t.HR FROM teams t WHERE t.yearID = 2019 ORDER BY t.HR DESC LIMIT 1;',
+	},
+];
+
+/** Words too common in questions to say anything about which example fits */
+const LEXICAL_STOP_WORDS = new Set([
+	'a', 'an', 'and', 'are', 'by', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'how',
+	'i', 'in', 'is', 'me', 'of', 'on', 'show', 'the', 'to', 'was', 'were', 'what', 'which', 'who',
+	'with',
+]);
+
+let builtInEmbeddings: Promise<number[][]> | null = null;
+let storedExamples: { value: Promise<LibraryExample[]>; expiresAt: number } | null = null;
+
+/**
+ * The examples most similar to a question, most similar first
+ */
+export async function selectExamples(
+	db: D1Database,
+	ai: Ai | undefined,
+	question: string,
+	limit: number = MAX_EXAMPLES
+): Promise<SQLExample[]> {
+	const library: LibraryExample[] = [...BUILT_IN_EXAMPLES, ...await loadStoredExamples(db)];
+
+	let scores: number[] | null = null;
+	if (ai) {
+		try {
+			scores = await embeddingScores(ai, question, library);
+		} catch (error) {
+			console.warn('Example embeddings failed; falling back to lexical similarity:', error);
+		}
+	}
+	scores ??= lexicalScores(question, library);
+
+	return library
+		.map((example, index) => ({ example, score: scores![index] }))
+		.sort((a, b) => b.score - a.score)
+		.slice(0, limit)
+		.map(({ example }) => ({ question: example.question, sql: example.sql }));
+}
+
+/**
+ * Store a verified question/SQL pair, with its embedding when the AI
+ * binding is available
+ */
+export async function addExample(db: D1Database, ai: Ai | undefined, example: SQLExample): Promise<StoredExample> {
+	let embedding: number[] | null = null;
+	if (ai) {
+		try {
+			[embedding] = await embed(ai, [example.question]);
+		} catch (error) {
+			console.warn('Could not embed new example; it will be embedded on use:', error);
+		}
+	}
+
+	const row = await db
+		.prepare(`INSERT INTO sql_examples (question, sql, embedding, created_at) VALUES (?, ?, ?, datetime('now'))
+RETURNING id, question, sql, created_at AS createdAt`)
+		.bind(example.question, example.sql, embedding ? JSON.stringify(embedding) : null)
+		.first<StoredExample>();
+	storedExamples = null;
+	return row!;
+}
+
+export async function listExamples(db: D1Database): Promise<StoredExample[]> {
+	const { results } = await db
+		.prepare('SELECT id, question, sql, created_at AS createdAt FROM sql_examples ORDER BY id')
+		.all<StoredExample>();
+	return results || [];
+}
+
+export async function deleteExample(db: D1Database, id: number): Promise<boolean> {
+	const result = await db.prepare('DELETE FROM sql_examples WHERE id = ?').bind(id).run();
+	storedExamples = null;
+	return (result.meta.changes || 0) > 0;
+}
+
+/**
+ * Few-shot section of the SQL prompt
+ */
+export function formatExamples(examples: SQLExample[]): string {
+	return examples.map(example => `Q: ${example.question}\nA: ${example.sql}`).join('\n\n');
+}
+
+/**
+ * Stored examples, re-read from D1 at most once a minute per isolate. A
+ * database without the sql_examples table only uses the built-in examples.
+ */
+function loadStoredExamples(db: D1Database): Promise<LibraryExample[]> {
+	if (storedExamples && storedExamples.expiresAt > Date.now()) return storedExamples.value;
+
+	const value = db
+		.prepare('SELECT question, sql, embedding FROM sql_examples ORDER BY id')
+		.all<{ question: string; sql: string; embedding: string | null }>()
+		.then(({ results }) =>
+			(results || []).map(row => ({
+				question: row.question,
+				sql: row.sql,
+				embedding: row.embedding ? JSON.parse(row.embedding) as number[] : null,
+			}))
+		)
+		.catch(error => {
+			console.warn('Could not load stored examples:', error);
+			return [];
+		});
+	storedExamples = { value, expiresAt: Date.now() + STORED_EXAMPLES_TTL_MS };
+	return value;
+}
+
+async function embeddingScores(ai: Ai, question: string, library: LibraryExample[]): Promise<number[]> {
+	builtInEmbeddings ??= embed(ai, BUILT_IN_EXAMPLES.map(example => example.question)).catch(error => {
+		builtInEmbeddings = null;
+		throw error;
+	});
+	const builtIn = await builtInEmbeddings;
+
+	// Embed the question together with any stored examples saved without one
+	const missing = library.slice(BUILT_IN_EXAMPLES.length).filter(example => !example.embedding);
+	const [questionEmbedding, ...computed] = await embed(ai, [question, ...missing.map(example => example.question)]);
+	missing.forEach((example, i) => {
+		example.embedding = computed[i];
+	});
+
+	return library.map((example, i) =>
+		cosineSimilarity(questionEmbedding, i < builtIn.length ? builtIn[i] : example.embedding!)
+	);
+}
+
+async function embed(ai: Ai, texts: string[]): Promise<number[][]> {
+	const response = await ai.run(EMBEDDING_MODEL, { text: texts }) as { data: number[][] };
+	return response.data;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Shared words weighted by how rare they are across the library, so
+ * "saves" counts for more than "top"
+ */
+function lexicalScores(question: string, library: LibraryExample[]): number[] {
+	const documents = library.map(example => new Set(lexicalTokens(example.question)));
+	const frequency = new Map<string, number>();
+	for (const tokens of documents) {
+		for (const token of tokens) frequency.set(token, (frequency.get(token) || 0) + 1);
+	}
+
+	const asked = new Set(lexicalTokens(question));
+	return documents.map(tokens => {
+		let score = 0;
+		for (const token of asked) {
+			if (tokens.has(token)) score += Math.log(1 + documents.length / frequency.get(token)!);
+		}
+		return tokens.size > 0 ? score / Math.sqrt(tokens.size) : 0;
+	});
+}
+
+function lexicalTokens(text: string): string[] {
+	return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+		.filter(word => !LEXICAL_STOP_WORDS.has(word))
+		// Any season matches any other, and plurals match singulars
+		.map(word => (/^(18|19|20)\d\d$/.test(word) ? 'year' : word.replace(/(?<=[a-z]{3})s$/, '')));
+}
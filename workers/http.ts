@@ -0,0 +1,11 @@
+/**
+ * Response helpers shared by the chat and REST routes
+ */
+
+export function jsonResponse(data: any, status: number = 200): Response {
+	return new Response(JSON.stringify(data), {
+		status,
+		// CORS headers are added per request by the access policy (access_control.ts)
+		headers: { 'Content-Type': 'application/json' },
+	});
+}
@@ -0,0 +1,230 @@
+/**
+ * League context for pitching answers
+ * "ERA 2.38 in 2023" means more next to the league: for each pitcher-season
+ * in an answer's rows this adds the league ERA from league_baselines, ERA+
+ * (100 is league average) and percentile ranks among the pitchers who
+ * qualified in the same season, league (lgID) and role, starters or
+ * relievers, under the qualification rules.
+ */
+
+import { QualificationEnv, seasonInningsMinimum } from './qualification';
+
+/** Pitcher-seasons given context per answer, e.g. the top of a leaderboard */
+const MAX_SUBJECTS = 5;
+/** Smaller pools (early or partial seasons) get no percentiles */
+const MIN_POOL_SIZE = 5;
+
+/**
+ * ERA+ over pitching_season ps joined to league_baselines lb. The SQL prompt
+ * gives the model this same expression, so an "ERA+" leaderboard and the
+ * context under an answer agree. It is not park-adjusted.
+ */
+export const ERA_PLUS_SQL = 'ROUND(100 * lb.lgERA / ps.ERA)';
+
+export type PitcherRole = 'starter' | 'reliever';
+
+type RankedStat = 'ERA' | 'WHIP' | 'K9' | 'FIP';
+
+const RANKED_STATS: { stat: RankedStat; label: string; lowerIsBetter: boolean }[] = [
+	{ stat: 'ERA', label: 'ERA', lowerIsBetter: true },
+	{ stat: 'WHIP', label: 'WHIP', lowerIsBetter: true },
+	{ stat: 'K9', label: 'K/9', lowerIsBetter: false },
+	{ stat: 'FIP', label: 'FIP', lowerIsBetter: true },
+];
+
+export interface LeagueContext {
+	playerID: string;
+	name: string;
+	yearID: number;
+	/** lgID, or 'ML' for a season split between leagues (ranked against both) */
+	lgID: string;
+	role: PitcherRole;
+	ERA: number | null;
+	leagueERA: number | null;
+	/** 100 × league ERA / ERA; above 100 is better than average */
+	eraPlus: number | null;
+	/** Whether the pitcher reached the innings minimum for the role */
+	qualified: boolean;
+	minimumIP: number;
+	/** Qualified pitchers the percentiles are taken among */
+	poolSize: number;
+	/** 0-100, higher is better, for each stat the pitcher has */
+	percentiles: Partial<Record<RankedStat, number>>;
+}
+
+interface SeasonLine {
+	playerID: string;
+	yearID: number;
+	lgID: string;
+	nameFirst: string | null;
+	nameLast: string | null;
+	G: number;
+	GS: number;
+	IP: number;
+	ERA: number | null;
+	WHIP: number | null;
+	K9: number | null;
+	FIP: number | null;
+	lgERA: number | null;
+	eraPlus: number | null;
+}
+
+type PoolLine = Record<RankedStat, number | null>;
+
+/**
+ * Context for the pitcher-seasons in a result set. Rows need a playerID
+ * from a pitching query, or the question names a single resolved player;
+ * the season is the row's yearID, or the one year the SQL filters on.
+ */
+export async function findLeagueContext(
+	db: D1Database,
+	sql: string,
+	results: Record<string, unknown>[],
+	players: string[] = [],
+	env: QualificationEnv = {}
+): Promise<LeagueContext[]> {
+	const subjects = pitcherSeasons(sql, results, players.length === 1 ? players[0] : null);
+	if (subjects.length === 0) return [];
+
+	const where = subjects.map(() => '(ps.playerID = ? AND ps.yearID = ?)').join(' OR ');
+	const { results: lines } = await db
+		.prepare(
+			`SELECT ps.playerID, ps.yearID, ps.lgID, p.nameFirst, p.nameLast, ps.G, ps.GS, ps.IP, ps.ERA, ps.WHIP, ps.K9, ps.FIP,
+				lb.lgERA, ${ERA_PLUS_SQL} AS eraPlus
+			FROM pitching_season ps
+			JOIN people p ON p.playerID = ps.playerID
+			LEFT JOIN league_baselines lb ON lb.yearID = ps.yearID AND lb.lgID = ps.lgID
+			WHERE ${where}`
+		)
+		.bind(...subjects.flatMap(subject => [subject.playerID, subject.yearID]))
+		.all<SeasonLine>();
+
+	const pools = new Map<string, Promise<{ minimumIP: number; lines: PoolLine[] }>>();
+	const poolFor = (line: SeasonLine, role: PitcherRole) => {
+		const key = `${line.yearID}:${line.lgID}:${role}`;
+		if (!pools.has(key)) pools.set(key, loadPool(db, line.yearID, line.lgID, role, env));
+		return pools.get(key)!;
+	};
+
+	const contexts = await Promise.all(
+		(lines || []).map(async line => {
+			const role: PitcherRole = line.GS * 2 >= line.G ? 'starter' : 'reliever';
+			const pool = await poolFor(line, role);
+			const percentiles: LeagueContext['percentiles'] = {};
+			for (const { stat, lowerIsBetter } of pool.lines.length >= MIN_POOL_SIZE ? RANKED_STATS : []) {
+				const rank = percentile(line[stat], pool.lines.map(entry => entry[stat]), lowerIsBetter);
+				if (rank !== null) percentiles[stat] = rank;
+			}
+			return {
+				playerID: line.playerID,
+				name: [line.nameFirst, line.nameLast].filter(Boolean).join(' ') || line.playerID,
+				yearID: line.yearID,
+				lgID: line.lgID,
+				role,
+				ERA: line.ERA,
+				leagueERA: line.lgERA === null ? null : Math.round(line.lgERA * 100) / 100,
+				eraPlus: line.eraPlus,
+				qualified: line.IP >= pool.minimumIP,
+				minimumIP: pool.minimumIP,
+				poolSize: pool.lines.length,
+				percentiles,
+			};
+		})
+	);
+
+	// Keep the order of the answer's rows
+	const order = subjects.map(subject => `${subject.playerID}:${subject.yearID}`);
+	return contexts.sort((a, b) => order.indexOf(`${a.playerID}:${a.yearID}`) - order.indexOf(`${b.playerID}:${b.yearID}`));
+}
+
+/**
+ * Lines for the answer prompt, and for the answer itself when the model
+ * does not write one: "Gerrit Cole, 2023: ERA+ 168 (league ERA 4.28);
+ * 97th percentile in ERA ... among 45 qualified AL starters"
+ */
+export function describeLeagueContext(contexts: LeagueContext[]): string {
+	return contexts
+		.map(context => {
+			const parts: string[] = [];
+			if (context.eraPlus !== null) parts.push(`ERA+ ${context.eraPlus} (league ERA ${context.leagueERA})`);
+			const ranks = RANKED_STATS
+				.filter(({ stat }) => context.percentiles[stat] !== undefined)
+				.map(({ stat, label }) => `${ordinal(context.percentiles[stat]!)} percentile in ${label}`);
+			if (ranks.length > 0 && context.poolSize > 0) {
+				const group = `${context.poolSize} qualified ${leagueName(context.lgID)} ${context.role}s`;
+				parts.push(`${ranks.join(', ')} among ${group}`);
+			}
+			if (!context.qualified) parts.push(`below the ${context.minimumIP} IP minimum to qualify`);
+			return `- ${context.name}, ${context.yearID}: ${parts.join('; ') || 'no league data'}`;
+		})
+		.join('\n');
+}
+
+/**
+ * Distinct pitcher-seasons in the rows, in row order
+ */
+function pitcherSeasons(
+	sql: string,
+	results: Record<string, unknown>[],
+	player: string | null
+): { playerID: string; yearID: number }[] {
+	if (!/\bpitching(?:_season|_advanced)?\b/i.test(sql)) return [];
+	const sqlYears = [...new Set([...sql.matchAll(/\byearID\s*=\s*(\d{4})\b/gi)].map(match => parseInt(match[1], 10)))];
+	const fallbackYear = sqlYears.length === 1 ? sqlYears[0] : null;
+
+	const seen = new Set<string>();
+	const subjects: { playerID: string; yearID: number }[] = [];
+	for (const row of results) {
+		const yearID = typeof row.yearID === 'number' ? row.yearID : fallbackYear;
+		const playerID = typeof row.playerID === 'string' ? row.playerID : player;
+		if (playerID === null || yearID === null) continue;
+		const key = `${playerID}:${yearID}`;
+		if (seen.has(key)) continue;
+		seen.add(key);
+		subjects.push({ playerID, yearID });
+		if (subjects.length === MAX_SUBJECTS) break;
+	}
+	return subjects;
+}
+
+/**
+ * Qualified pitchers of one role in a season's league; 'ML' ranks against
+ * both leagues
+ */
+async function loadPool(
+	db: D1Database,
+	yearID: number,
+	lgID: string,
+	role: PitcherRole,
+	env: QualificationEnv
+): Promise<{ minimumIP: number; lines: PoolLine[] }> {
+	const minimumIP = await seasonInningsMinimum(db, yearID, role === 'starter' ? 'pitching' : 'relief', env);
+	const league = lgID === 'ML' ? '' : ' AND lgID = ?';
+	const roleFilter = role === 'starter' ? 'GS * 2 >= G' : 'GS * 2 < G';
+	const { results } = await db
+		.prepare(`SELECT ERA, WHIP, K9, FIP FROM pitching_season WHERE yearID = ?${league} AND ${roleFilter} AND IP >= ?`)
+		.bind(...(lgID === 'ML' ? [yearID, minimumIP] : [yearID, lgID, minimumIP]))
+		.all<PoolLine>();
+	return { minimumIP, lines: results || [] };
+}
+
+/**
+ * Share of the pool the value beats, counting ties as half, 0-100
+ */
+function percentile(value: number | null, pool: (number | null)[], lowerIsBetter: boolean): number | null {
+	const values = pool.filter((entry): entry is number => entry !== null);
+	if (value === null || values.length === 0) return null;
+	const beaten = values.filter(entry => (lowerIsBetter ? entry > value : entry < value)).length;
+	const tied = values.filter(entry => entry === value).length;
+	return Math.round((100 * (beaten + tied / 2)) / values.length);
+}
+
+function leagueName(lgID: string): string {
+	return lgID === 'ML' ? 'MLB' : lgID;
+}
+
+function ordinal(value: number): string {
+	const teen = value % 100 >= 11 && value % 100 <= 13;
+	const suffix = teen ? 'th' : ['th', 'st', 'nd', 'rd'][value % 10] ?? 'th';
+	return `${value}${suffix}`;
+}
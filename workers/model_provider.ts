@@ -0,0 +1,209 @@
+/**
+ * Model providers for the two model stages: SQL generation and answer
+ * formatting. Each stage picks its provider, model, temperature and token
+ * limit from env vars, so stages can be A/B tested independently:
+ *
+ *   SQL_PROVIDER / ANSWER_PROVIDER        workers-ai (default), openai or mock
+ *   SQL_MODEL / ANSWER_MODEL              model name; required for openai
+ *   SQL_TEMPERATURE / ANSWER_TEMPERATURE
+ *   SQL_MAX_TOKENS / ANSWER_MAX_TOKENS
+ *   OPENAI_BASE_URL, OPENAI_API_KEY       any OpenAI-compatible chat completions API
+ */
+
+import { readAIStream, readEventData } from './stream';
+
+export const DEFAULT_WORKERS_AI_MODEL = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+
+export type ModelStage = 'sql' | 'answer';
+
+export type ProviderName = 'workers-ai' | 'openai' | 'mock';
+
+export interface ChatMessage {
+	role: 'system' | 'user' | 'assistant';
+	content: string;
+}
+
+export interface ModelSettings {
+	model: string;
+	temperature: number;
+	maxTokens: number;
+}
+
+export interface ModelProvider {
+	readonly name: ProviderName;
+	complete(messages: ChatMessage[], settings: ModelSettings): Promise<string>;
+	stream(messages: ChatMessage[], settings: ModelSettings): AsyncGenerator<string>;
+}
+
+/** The provider and settings configured for one stage */
+export interface StageModel {
+	provider: ModelProvider;
+	settings: ModelSettings;
+}
+
+/** Bindings and vars the providers read; the AI binding is only needed for workers-ai */
+export interface ModelEnv {
+	AI?: Ai;
+	SQL_PROVIDER?: string;
+	SQL_MODEL?: string;
+	SQL_TEMPERATURE?: string;
+	SQL_MAX_TOKENS?: string;
+	ANSWER_PROVIDER?: string;
+	ANSWER_MODEL?: string;
+	ANSWER_TEMPERATURE?: string;
+	ANSWER_MAX_TOKENS?: string;
+	OPENAI_BASE_URL?: string;
+	OPENAI_API_KEY?: string;
+}
+
+const STAGE_DEFAULTS: Record<ModelStage, { temperature: number; maxTokens: number }> = {
+	sql: { temperature: 0.1, maxTokens: 500 },
+	answer: { temperature: 0.3, maxTokens: 300 },
+};
+
+export class WorkersAIProvider implements ModelProvider {
+	readonly name = 'workers-ai';
+
+	constructor(private ai: Ai) {}
+
+	async complete(messages: ChatMessage[], settings: ModelSettings): Promise<string> {
+		const response = await this.ai.run(settings.model as keyof AiModels, {
+			messages,
+			temperature: settings.temperature,
+			max_tokens: settings.maxTokens,
+		}) as { response?: string };
+		return response.response || '';
+	}
+
+	async *stream(messages: ChatMessage[], settings: ModelSettings): AsyncGenerator<string> {
+		const stream = await this.ai.run(settings.model as keyof AiModels, {
+			messages,
+			temperature: settings.temperature,
+			max_tokens: settings.maxTokens,
+			stream: true,
+		}) as ReadableStream<Uint8Array>;
+		yield* readAIStream(stream);
+	}
+}
+
+/**
+ * Any API that implements OpenAI's /chat/completions, e.g. OpenAI itself,
+ * a self-hosted vLLM or Ollama server, or an AI Gateway endpoint
+ */
+export class OpenAICompatibleProvider implements ModelProvider {
+	readonly name = 'openai';
+
+	constructor(private baseURL: string, private apiKey?: string) {}
+
+	async complete(messages: ChatMessage[], settings: ModelSettings): Promise<string> {
+		const response = await this.request(messages, settings, false);
+		const body = await response.json() as { choices?: { message?: { content?: string } }[] };
+		return body.choices?.[0]?.message?.content || '';
+	}
+
+	async *stream(messages: ChatMessage[], settings: ModelSettings): AsyncGenerator<string> {
+		const response = await this.request(messages, settings, true);
+		if (!response.body) return;
+		for await (const data of readEventData(response.body)) {
+			const { choices } = data as { choices?: { delta?: { content?: string } }[] };
+			const content = choices?.[0]?.delta?.content;
+			if (content) yield content;
+		}
+	}
+
+	private async request(messages: ChatMessage[], settings: ModelSettings, stream: boolean): Promise<Response> {
+		const response = await fetch(`${this.baseURL.replace(/\/+$/, '')}/chat/completions`, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+			},
+			body: JSON.stringify({
+				model: settings.model,
+				messages,
+				temperature: settings.temperature,
+				max_tokens: settings.maxTokens,
+				stream,
+			}),
+		});
+		if (!response.ok) {
+			throw new Error(`Model request failed (${response.status}): ${(await response.text()).slice(0, 200)}`);
+		}
+		return response;
+	}
+}
+
+/**
+ * Deterministic stand-in for running without any model. For SQL it returns
+ * the few-shot example whose question matches (else the first example); for
+ * answers it echoes the question.
+ */
+export class MockProvider implements ModelProvider {
+	readonly name = 'mock';
+
+	async complete(messages: ChatMessage[]): Promise<string> {
+		return mockReply(messages);
+	}
+
+	async *stream(messages: ChatMessage[]): AsyncGenerator<string> {
+		for (const word of mockReply(messages).split(/(?<= )/)) {
+			yield word;
+		}
+	}
+}
+
+/**
+ * Build the provider and settings for a stage from env vars
+ */
+export function createStageModel(env: ModelEnv, stage: ModelStage): StageModel {
+	const prefix = stage === 'sql' ? 'SQL' : 'ANSWER';
+	const vars = env as Record<string, unknown>;
+	const name = String(vars[`${prefix}_PROVIDER`] || 'workers-ai');
+	const model = vars[`${prefix}_MODEL`] as string | undefined;
+	const defaults = STAGE_DEFAULTS[stage];
+
+	const settings = (defaultModel: string): ModelSettings => ({
+		model: model || defaultModel,
+		temperature: numberVar(vars, `${prefix}_TEMPERATURE`, defaults.temperature),
+		maxTokens: numberVar(vars, `${prefix}_MAX_TOKENS`, defaults.maxTokens),
+	});
+
+	switch (name) {
+		case 'workers-ai':
+			if (!env.AI) throw new Error(`${prefix}_PROVIDER is workers-ai but there is no AI binding`);
+			return { provider: new WorkersAIProvider(env.AI), settings: settings(DEFAULT_WORKERS_AI_MODEL) };
+		case 'openai':
+			if (!env.OPENAI_BASE_URL || !model) {
+				throw new Error(`${prefix}_PROVIDER is openai but OPENAI_BASE_URL or ${prefix}_MODEL is not set`);
+			}
+			return { provider: new OpenAICompatibleProvider(env.OPENAI_BASE_URL, env.OPENAI_API_KEY), settings: settings('') };
+		case 'mock':
+			return { provider: new MockProvider(), settings: settings('mock') };
+		default:
+			throw new Error(`Unknown ${prefix}_PROVIDER "${name}" (expected workers-ai, openai or mock)`);
+	}
+}
+
+function numberVar(vars: Record<string, unknown>, name: string, fallback: number): number {
+	const value = vars[name];
+	if (value === undefined || value === '') return fallback;
+	const parsed = Number(value);
+	if (!Number.isFinite(parsed)) throw new Error(`${name} must be a number, got "${value}"`);
+	return parsed;
+}
+
+function mockReply(messages: ChatMessage[]): string {
+	const questions = messages
+		.filter(message => message.role === 'user')
+		.map(message => message.content.split('\n')[0]);
+	const examples = [...(messages[0]?.content || '').matchAll(/^Q: (.+)\nA: (.+)$/gm)];
+
+	if (examples.length > 0) {
+		// The latest question wins, so a follow-up does not get the SQL of the question it follows
+		const latest = [...questions].reverse().find(question => examples.some(([, asked]) => asked === question));
+		return (examples.find(([, asked]) => asked === latest) || examples[0])[2];
+	}
+
+	const asked = messages[messages.length - 1]?.content.match(/The user asked: "(.*)"/);
+	return `Mock answer to "${asked ? asked[1] : questions[questions.length - 1] || ''}".`;
+}
@@ -0,0 +1,334 @@
+/**
+ * Qualification thresholds for rate-stat leaderboards
+ * A question that ranks players on ERA, WHIP, batting average and the like
+ * only counts players with enough playing time, as the official leaderboards
+ * do: 1 inning pitched per team game for pitchers, 1/3 inning for relievers
+ * and 3.1 plate appearances for batters, with team games read from teams.G.
+ * A minimum written in the question ("minimum 50 innings") replaces the
+ * default, and "no minimum" turns it off. The rates can be changed with
+ * env vars:
+ *
+ *   QUALIFY_IP_PER_GAME         innings per team game (default 1)
+ *   QUALIFY_RELIEF_IP_PER_GAME  innings per team game for relievers (default 1/3)
+ *   QUALIFY_PA_PER_GAME         plate appearances per team game (default 3.1)
+ *   QUALIFY_CAREER_IP           career innings (default 1000)
+ *   QUALIFY_CAREER_PA           career plate appearances (default 3000)
+ */
+
+export type QualificationGroup = 'pitching' | 'relief' | 'batting';
+
+export interface QualificationEnv {
+	QUALIFY_IP_PER_GAME?: string;
+	QUALIFY_RELIEF_IP_PER_GAME?: string;
+	QUALIFY_PA_PER_GAME?: string;
+	QUALIFY_CAREER_IP?: string;
+	QUALIFY_CAREER_PA?: string;
+}
+
+export interface Qualification {
+	group: QualificationGroup;
+	/** Rate stat the question ranks on, e.g. ERA */
+	stat: string;
+	/** What the minimum counts: IP, PA, AB, GS or G */
+	unit: QualificationUnit;
+	/** Null when the minimum depends on each season's team games */
+	minimum: number | null;
+	/** Units per team game behind a default minimum; null for career and user minimums */
+	perGame: number | null;
+	/** 'rule' for the default threshold, 'question' when the user set it */
+	source: 'rule' | 'question';
+	/** Human-readable threshold, e.g. "at least 162 innings pitched (1 per team game in 2023)" */
+	description: string;
+}
+
+export type QualificationUnit = 'IP' | 'PA' | 'AB' | 'GS' | 'G';
+
+interface RateStat {
+	stat: string;
+	group: 'pitching' | 'batting';
+	pattern: RegExp;
+}
+
+const RATE_STATS: RateStat[] = [
+	// "era" is also a period of time: "the modern era", "the steroid era"
+	{ stat: 'ERA', group: 'pitching', pattern: /\b(?<!(?:the|this|that|modern|steroid|expansion)\s)era\b|\bearned run average\b/i },
+	{ stat: 'WHIP', group: 'pitching', pattern: /\bwhip\b/i },
+	{ stat: 'FIP', group: 'pitching', pattern: /\bfip\b/i },
+	{ stat: 'K/9', group: 'pitching', pattern: /\bk\s*\/\s*9\b|\bk9\b|\bstrikeouts? per (?:nine|9)\b/i },
+	{ stat: 'BB/9', group: 'pitching', pattern: /\bbb\s*\/\s*9\b|\bbb9\b|\bwalks? per (?:nine|9)\b/i },
+	{ stat: 'HR/9', group: 'pitching', pattern: /\bhr\s*\/\s*9\b|\bhr9\b|\bhome runs? per (?:nine|9)\b/i },
+	{ stat: 'K/BB', group: 'pitching', pattern: /\bk\s*\/\s*bb\b|\bstrikeout[- ]to[- ]walk\b/i },
+	{ stat: 'AVG', group: 'batting', pattern: /\bbatting average\b|\bavg\b/i },
+	{ stat: 'OBP', group: 'batting', pattern: /\bon[- ]base (?:percentage|pct)\b|\bobp\b/i },
+	{ stat: 'SLG', group: 'batting', pattern: /\bslugging\b|\bslg\b/i },
+	{ stat: 'OPS', group: 'batting', pattern: /\bops\b/i },
+];
+
+const RANKING_PATTERN = /\b(?:lowest|highest|best|worst|top|bottom|leaders?|led|leading|lead|ranked|ranking|rank|better|worse)\b/i;
+const RELIEF_PATTERN = /\b(?:relievers?|relief|closers?|setup men|relief pitchers?)\b/i;
+const CAREER_PATTERN = /\b(?:career|all[- ]time|lifetime)\b/i;
+const NO_MINIMUM_PATTERN = /\b(?:no minimum|without (?:a )?minimum|unqualified|regardless of (?:innings|playing time|plate appearances))\b/i;
+/** Team and staff rate stats need no qualification */
+const TEAM_PATTERN = /\b(?:teams?|staffs?|bullpens?|rotations?|franchises?|clubs?)\b/i;
+
+const UNIT_WORDS: [RegExp, QualificationUnit][] = [
+	[/^(?:innings?(?: pitched)?|ip)$/i, 'IP'],
+	[/^(?:plate appearances?|pa)$/i, 'PA'],
+	[/^(?:at[- ]bats?|ab)$/i, 'AB'],
+	[/^(?:starts|gs)$/i, 'GS'],
+	[/^games?$/i, 'G'],
+];
+const UNIT_ALTERNATIVES = 'innings? pitched|innings?|ip|plate appearances?|pa|at[- ]bats?|ab|starts|gs|games?';
+const USER_MINIMUM_PATTERNS = [
+	new RegExp(`\\b(?:min(?:imum)?(?: of)?|at least)\\s+(\\d+(?:\\.\\d+)?)\\s+(${UNIT_ALTERNATIVES})\\b`, 'i'),
+	new RegExp(`\\b(\\d+(?:\\.\\d+)?)\\s*(?:\\+|or more)\\s+(${UNIT_ALTERNATIVES})\\b`, 'i'),
+	new RegExp(`\\b(\\d+(?:\\.\\d+)?)\\s+(${UNIT_ALTERNATIVES})\\s+min(?:imum)?\\b`, 'i'),
+];
+
+const UNIT_NAMES: Record<QualificationUnit, string> = {
+	IP: 'innings pitched',
+	PA: 'plate appearances',
+	AB: 'at-bats',
+	GS: 'starts',
+	G: 'games',
+};
+
+/** SQL for each unit, as the model should compare it */
+const UNIT_SQL: Record<QualificationUnit, string> = {
+	IP: 'IP (or IPouts / 3.0)',
+	PA: 'plate appearances, AB + BB + HBP + SH + SF (summed over stints)',
+	AB: 'AB (summed over stints)',
+	GS: 'GS',
+	G: 'G',
+};
+
+/**
+ * Left side of a qualifying comparison per unit: the column (PA as the sum
+ * ending in SF), then an optional "/ 3" on IPouts and the operator
+ */
+const UNIT_COMPARISONS: Record<QualificationUnit, RegExp> = {
+	IP: comparisonPattern('IP|IPouts'),
+	PA: comparisonPattern('PA|SF'),
+	AB: comparisonPattern('AB'),
+	GS: comparisonPattern('GS'),
+	G: comparisonPattern('G'),
+};
+/** Team games as a factor: t.G, or (SELECT MAX(t.G) FROM teams ...) */
+const GAMES_COLUMN = /^(?:\w+\.)?G\b/i;
+const GAMES_SUBQUERY = /^\s*SELECT\s+MAX\s*\(\s*(?:\w+\.)?G\s*\)\s+FROM\s+teams\b/i;
+/** Slack for rounding, e.g. IP >= 161.7 for a 162-inning minimum */
+const THRESHOLD_TOLERANCE = 0.5;
+
+const DEFAULT_SEASON_GAMES = 162;
+const TEAM_GAMES_TTL_MS = 60 * 60 * 1000;
+
+let teamGames: { value: Map<number, number>; expiresAt: number } | null = null;
+
+/**
+ * The qualification a question calls for, or null when it does not rank on
+ * a rate stat or waives the minimum. A follow-up like "what about 2022?" is
+ * read together with the question it follows, but its own years win.
+ */
+export async function findQualification(
+	db: D1Database,
+	question: string,
+	env: QualificationEnv = {},
+	previousQuestion?: string
+): Promise<Qualification | null> {
+	const text = previousQuestion ? `${previousQuestion} ${question}` : question;
+	if (NO_MINIMUM_PATTERN.test(question) || TEAM_PATTERN.test(text) || !RANKING_PATTERN.test(text)) {
+		return null;
+	}
+	const rate = RATE_STATS.find(candidate => candidate.pattern.test(text));
+	if (!rate) return null;
+
+	const group: QualificationGroup = rate.group === 'pitching' && RELIEF_PATTERN.test(text) ? 'relief' : rate.group;
+	const userMinimum = findUserMinimum(question) ?? (previousQuestion ? findUserMinimum(previousQuestion) : null);
+	if (userMinimum) {
+		return {
+			group,
+			stat: rate.stat,
+			...userMinimum,
+			perGame: null,
+			source: 'question',
+			description: `at least ${userMinimum.minimum} ${UNIT_NAMES[userMinimum.unit]}`,
+		};
+	}
+
+	const unit: QualificationUnit = group === 'batting' ? 'PA' : 'IP';
+	const perGame = group === 'batting'
+		? numberVar(env, 'QUALIFY_PA_PER_GAME', 3.1)
+		: group === 'relief'
+			? numberVar(env, 'QUALIFY_RELIEF_IP_PER_GAME', 1 / 3)
+			: numberVar(env, 'QUALIFY_IP_PER_GAME', 1);
+	const base = { group, stat: rate.stat, unit, source: 'rule' as const };
+	const rateText = `${formatRate(perGame)} per team game`;
+
+	if (CAREER_PATTERN.test(text)) {
+		const careerIP = numberVar(env, 'QUALIFY_CAREER_IP', 1000);
+		// Relievers need the same share of the career minimum as of the season one
+		const minimum = group === 'batting'
+			? numberVar(env, 'QUALIFY_CAREER_PA', 3000)
+			: group === 'relief'
+				? Math.round(careerIP * perGame / numberVar(env, 'QUALIFY_IP_PER_GAME', 1))
+				: careerIP;
+		return { ...base, minimum, perGame: null, description: `at least ${minimum} career ${UNIT_NAMES[unit]}` };
+	}
+
+	const years = yearsIn(question);
+	const seasonYears = years.length > 0 ? years : previousQuestion ? yearsIn(previousQuestion) : [];
+	if (seasonYears.length === 1) {
+		const games = (await loadTeamGames(db)).get(seasonYears[0]) ?? DEFAULT_SEASON_GAMES;
+		const minimum = Math.round(perGame * games);
+		return {
+			...base,
+			minimum,
+			perGame,
+			description: `at least ${minimum} ${UNIT_NAMES[unit]} (${rateText}, ${games} games in ${seasonYears[0]})`,
+		};
+	}
+
+	return { ...base, minimum: null, perGame, description: `at least ${formatRate(perGame)} ${UNIT_NAMES[unit]} per team game in each season` };
+}
+
+/**
+ * Instructions for the SQL model, in the style of RESOLVED ENTITIES
+ */
+export function describeQualification(qualification: Qualification): string {
+	const { stat, unit, minimum, perGame, source, description } = qualification;
+	const players = qualification.group === 'batting' ? 'batters' : qualification.group === 'relief' ? 'relievers' : 'pitchers';
+	const requirement = minimum !== null
+		? `${UNIT_SQL[unit]} >= ${minimum}`
+		: `${UNIT_SQL[unit]} >= ${Number((perGame ?? 1).toFixed(4))} * (SELECT MAX(t.G) FROM teams t WHERE t.yearID = <table alias>.yearID)`;
+	const origin = source === 'question' ? 'set by the user' : 'the official qualification rule';
+	return `QUALIFICATION (the question ranks ${players} on ${stat}; ${origin}):
+- Only include ${players} with ${description}: require ${requirement}`;
+}
+
+/**
+ * Why a query leaves out the qualification, or null if it applies one. A
+ * comparison on the unit's column only counts if its threshold, a number
+ * or a multiple of team games, reaches the minimum, so "IPouts > 0" does not.
+ */
+export function checkQualification(sql: string, qualification: Qualification): string | null {
+	for (const match of sql.matchAll(UNIT_COMPARISONS[qualification.unit])) {
+		const threshold = parseThreshold(sql.slice(match.index! + match[0].length));
+		if (!threshold) continue;
+		// IPouts counts outs; a strict > on a whole-number column adds one
+		const outs = /^ipouts$/i.test(match[1]) && !match[2];
+		const strict = match[3] === '>' && !/^ip$/i.test(match[1]) && !threshold.perGame ? 1 : 0;
+		const value = (threshold.value + strict) / (outs ? 3 : 1);
+		if (meetsMinimum(value, threshold.perGame, qualification)) return null;
+	}
+	return `The query ranks on ${qualification.stat} without the minimum. Only include players with ${qualification.description}.`;
+}
+
+/**
+ * Innings a pitcher needs to qualify in one season under the default rule
+ */
+export async function seasonInningsMinimum(
+	db: D1Database,
+	yearID: number,
+	group: 'pitching' | 'relief',
+	env: QualificationEnv = {}
+): Promise<number> {
+	const games = (await loadTeamGames(db)).get(yearID) ?? DEFAULT_SEASON_GAMES;
+	const perGame = group === 'relief'
+		? numberVar(env, 'QUALIFY_RELIEF_IP_PER_GAME', 1 / 3)
+		: numberVar(env, 'QUALIFY_IP_PER_GAME', 1);
+	return Math.round(perGame * games);
+}
+
+function comparisonPattern(columns: string): RegExp {
+	return new RegExp(`\\b(${columns})\\b\\s*\\)*\\s*(?:(\\/)\\s*3(?:\\.0*)?\\s*\\)*\\s*)?(>=|>)`, 'gi');
+}
+
+/**
+ * Units per season, or per team game, that a comparison threshold requires
+ */
+function meetsMinimum(value: number, perGame: boolean, { minimum, perGame: required }: Qualification): boolean {
+	if (perGame) return required !== null && value >= required - 1e-3;
+	const floor = minimum ?? (required ?? 0) * DEFAULT_SEASON_GAMES;
+	return value >= floor - THRESHOLD_TOLERANCE;
+}
+
+/**
+ * Read the start of the right side of a comparison as a product of numbers
+ * and at most one team-games factor, e.g. "162", "1.0 / 3 * t.G" or
+ * "1 * (SELECT MAX(t.G) FROM teams t WHERE ...)"; null for anything else
+ */
+function parseThreshold(text: string): { value: number; perGame: boolean; length: number } | null {
+	let value = 1;
+	let perGame = false;
+	let operator = '*';
+	let position = text.length - text.trimStart().length;
+	for (;;) {
+		const factor = leadingFactor(text.slice(position));
+		if (!factor || (factor.perGame && (perGame || operator === '/'))) return null;
+		perGame ||= factor.perGame;
+		value = operator === '*' ? value * factor.value : value / factor.value;
+		position += factor.length;
+		const next = text.slice(position).match(/^\s*([*/])\s*/);
+		if (!next) return Number.isFinite(value) ? { value, perGame, length: position } : null;
+		operator = next[1];
+		position += next[0].length;
+	}
+}
+
+function leadingFactor(text: string): { length: number; value: number; perGame: boolean } | null {
+	const number = text.match(/^\d+(?:\.\d+)?/);
+	if (number) return { length: number[0].length, value: parseFloat(number[0]), perGame: false };
+	const games = text.match(GAMES_COLUMN);
+	if (games) return { length: games[0].length, value: 1, perGame: true };
+	if (!text.startsWith('(')) return null;
+
+	let depth = 0;
+	for (let i = 0; i < text.length; i++) {
+		if (text[i] === '(') depth++;
+		else if (text[i] === ')' && --depth === 0) {
+			const inner = text.slice(1, i);
+			if (GAMES_SUBQUERY.test(inner)) return { length: i + 1, value: 1, perGame: true };
+			// A parenthesized product such as (1.0 / 3) has to be read whole
+			const nested = parseThreshold(inner);
+			return nested && inner.slice(nested.length).trim() === '' ? { ...nested, length: i + 1 } : null;
+		}
+	}
+	return null;
+}
+
+function findUserMinimum(question: string): { minimum: number; unit: QualificationUnit } | null {
+	for (const pattern of USER_MINIMUM_PATTERNS) {
+		const match = question.match(pattern);
+		if (!match) continue;
+		const unit = UNIT_WORDS.find(([words]) => words.test(match[2]))?.[1];
+		if (unit) return { minimum: parseFloat(match[1]), unit };
+	}
+	return null;
+}
+
+function yearsIn(text: string): number[] {
+	return [...new Set([...text.matchAll(/\b(?:18[7-9]\d|19\d\d|20\d\d)\b/g)].map(match => parseInt(match[0], 10)))];
+}
+
+/** Games in the longest team schedule of each season */
+async function loadTeamGames(db: D1Database): Promise<Map<number, number>> {
+	if (teamGames && teamGames.expiresAt > Date.now()) return teamGames.value;
+	const { results } = await db
+		.prepare('SELECT yearID, MAX(G) AS games FROM teams GROUP BY yearID')
+		.all<{ yearID: number; games: number }>();
+	const value = new Map((results || []).map(row => [row.yearID, row.games]));
+	teamGames = { value, expiresAt: Date.now() + TEAM_GAMES_TTL_MS };
+	return value;
+}
+
+function numberVar(env: QualificationEnv, name: keyof QualificationEnv, fallback: number): number {
+	const value = env[name];
+	if (value === undefined || value === '') return fallback;
+	const parsed = Number(value);
+	if (!Number.isFinite(parsed) || parsed < 0) throw new Error(`${name} must be a non-negative number, got "${value}"`);
+	return parsed;
+}
+
+function formatRate(value: number): string {
+	return Math.abs(value - 1 / 3) < 1e-9 ? '1/3' : String(Number(value.toFixed(3)));
+}
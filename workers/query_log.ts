@@ -0,0 +1,173 @@
+/**
+ * Query log
+ * Metadata for every chat request (question, final SQL, row count, error
+ * class, timings) is stored in the query_log table after the response, and
+ * summarized for /api/admin/stats: popular questions, failure rates and
+ * latency percentiles.
+ */
+
+import { normalizeQuestion } from './answer_cache';
+import { ScopeKind } from './question_scope';
+import { RequestTrace } from './tracing';
+
+export const MAX_STATS_DAYS = 90;
+const TOP_QUESTIONS = 10;
+
+export interface QueryLogEntry {
+	question: string;
+	caller?: string;
+	sql?: string | null;
+	rowCount?: number | null;
+	attempts?: number;
+	/** Answer cache status of the question lookup */
+	cacheSql?: string | null;
+	errorClass?: string | null;
+	error?: string | null;
+	/** How the question was classified before SQL generation */
+	scope?: ScopeKind;
+}
+
+export interface QueryStats {
+	since: string;
+	days: number;
+	requests: number;
+	failures: number;
+	failureRate: number;
+	emptyResults: number;
+	/** Questions answered with a clarification instead of a query */
+	clarifications: { ambiguous: number; outOfCoverage: number };
+	cacheHitRate: number;
+	latencyMs: { p50: number | null; p95: number | null };
+	/** Mean milliseconds per stage, over the requests that reached it */
+	stageMs: { resolve: number | null; generateSQL: number | null; executeQuery: number | null; formatResponse: number | null };
+	errorClasses: { errorClass: string; count: number }[];
+	popularQuestions: { question: string; count: number; failures: number }[];
+}
+
+/**
+ * Store one request's metadata. Logging must never break an answer, so
+ * failures (such as a missing migration) are only reported.
+ */
+export async function writeQueryLog(db: D1Database, trace: RequestTrace, entry: QueryLogEntry): Promise<void> {
+	const latencyMs = trace.elapsed();
+	trace.log('request_complete', {
+		latencyMs,
+		timings: trace.timings,
+		rowCount: entry.rowCount ?? null,
+		attempts: entry.attempts ?? 0,
+		cacheSql: entry.cacheSql ?? null,
+		errorClass: entry.errorClass ?? null,
+		scope: entry.scope ?? null,
+	}, entry.errorClass ? 'warn' : 'info');
+
+	try {
+		await db
+			.prepare(
+				`INSERT INTO query_log (request_id, created_at, route, caller, question, question_key, sql, row_count, attempts,
+					cache_sql, error_class, error, scope, latency_ms, resolve_ms, generate_ms, execute_ms, format_ms)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+			)
+			.bind(
+				trace.id,
+				new Date().toISOString(),
+				trace.route,
+				entry.caller ?? null,
+				entry.question,
+				normalizeQuestion(entry.question),
+				entry.sql ?? null,
+				entry.rowCount ?? null,
+				entry.attempts ?? 0,
+				entry.cacheSql ?? null,
+				entry.errorClass ?? null,
+				entry.error ?? null,
+				entry.scope ?? null,
+				latencyMs,
+				trace.timings.resolve ?? null,
+				trace.timings.generate_sql ?? null,
+				trace.timings.execute_sql ?? null,
+				trace.timings.format_answer ?? null
+			)
+			.run();
+	} catch (error: any) {
+		trace.log('query_log_failed', { error: error.message }, 'warn');
+	}
+}
+
+/**
+ * Usage summary for the last `days` days
+ */
+export async function queryStats(db: D1Database, days: number): Promise<QueryStats> {
+	const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+	const totals = await db
+		.prepare(
+			`SELECT COUNT(*) AS requests,
+				SUM(CASE WHEN error_class IS NOT NULL THEN 1 ELSE 0 END) AS failures,
+				SUM(CASE WHEN error_class IS NULL AND row_count = 0 THEN 1 ELSE 0 END) AS emptyResults,
+				SUM(CASE WHEN scope = 'ambiguous' THEN 1 ELSE 0 END) AS ambiguous,
+				SUM(CASE WHEN scope = 'out_of_coverage' THEN 1 ELSE 0 END) AS outOfCoverage,
+				SUM(CASE WHEN cache_sql = 'hit' THEN 1 ELSE 0 END) AS cacheHits,
+				AVG(resolve_ms) AS resolve, AVG(generate_ms) AS generateSQL,
+				AVG(execute_ms) AS executeQuery, AVG(format_ms) AS formatResponse
+			FROM query_log WHERE created_at >= ?`
+		)
+		.bind(since)
+		.first<Record<string, number | null>>();
+	const requests = totals?.requests ?? 0;
+	const failures = totals?.failures ?? 0;
+
+	const [p50, p95, errorClasses, popular] = await Promise.all([
+		latencyPercentile(db, since, requests, 50),
+		latencyPercentile(db, since, requests, 95),
+		db
+			.prepare(
+				`SELECT error_class AS errorClass, COUNT(*) AS count FROM query_log
+				WHERE created_at >= ? AND error_class IS NOT NULL GROUP BY error_class ORDER BY count DESC`
+			)
+			.bind(since)
+			.all<{ errorClass: string; count: number }>(),
+		db
+			.prepare(
+				`SELECT MAX(question) AS question, COUNT(*) AS count,
+					SUM(CASE WHEN error_class IS NOT NULL THEN 1 ELSE 0 END) AS failures
+				FROM query_log WHERE created_at >= ? GROUP BY question_key ORDER BY count DESC, question LIMIT ?`
+			)
+			.bind(since, TOP_QUESTIONS)
+			.all<{ question: string; count: number; failures: number }>(),
+	]);
+
+	const mean = (value: number | null | undefined) => (value === null || value === undefined ? null : Math.round(value));
+	return {
+		since,
+		days,
+		requests,
+		failures,
+		failureRate: requests ? failures / requests : 0,
+		emptyResults: totals?.emptyResults ?? 0,
+		clarifications: { ambiguous: totals?.ambiguous ?? 0, outOfCoverage: totals?.outOfCoverage ?? 0 },
+		cacheHitRate: requests ? (totals?.cacheHits ?? 0) / requests : 0,
+		latencyMs: { p50, p95 },
+		stageMs: {
+			resolve: mean(totals?.resolve),
+			generateSQL: mean(totals?.generateSQL),
+			executeQuery: mean(totals?.executeQuery),
+			formatResponse: mean(totals?.formatResponse),
+		},
+		errorClasses: errorClasses.results || [],
+		popularQuestions: popular.results || [],
+	};
+}
+
+/**
+ * Nearest-rank percentile of latency_ms, read with one OFFSET query
+ * instead of loading every row
+ */
+async function latencyPercentile(db: D1Database, since: string, count: number, percentile: number): Promise<number | null> {
+	if (count === 0) return null;
+	const offset = Math.max(0, Math.ceil((percentile / 100) * count) - 1);
+	const row = await db
+		.prepare('SELECT latency_ms AS latency FROM query_log WHERE created_at >= ? ORDER BY latency_ms LIMIT 1 OFFSET ?')
+		.bind(since, offset)
+		.first<{ latency: number }>();
+	return row?.latency ?? null;
+}
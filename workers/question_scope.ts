@@ -0,0 +1,293 @@
+/**
+ * Intent and scope classification
+ * Runs before SQL generation and sorts each question into one of three kinds:
+ * answerable; ambiguous, such as "who is the best pitcher?" with no measure,
+ * which gets a clarifying question with suggested rephrasings; or out of
+ * coverage, either a topic the schema has no table for (salaries, awards,
+ * Statcast...) or seasons outside a table's actual yearID range in D1.
+ */
+
+import { COMPARISON_PATTERN } from './comparison';
+
+export type ScopeKind = 'answerable' | 'ambiguous' | 'out_of_coverage';
+
+export interface ScopeDecision {
+	kind: ScopeKind;
+	/** Clarifying question or coverage explanation; empty when answerable */
+	message: string;
+	/** Questions the user can send instead */
+	options: string[];
+	/** For out_of_coverage: the topic with no table, or the table and seasons that are missing */
+	missing?: { topic?: string; table?: string; years?: number[] };
+	/** For answerable: a decade the data only partly covers, for the answer to mention */
+	note?: string;
+}
+
+export interface TableCoverage {
+	table: string;
+	rows: number;
+	minYear: number | null;
+	maxYear: number | null;
+}
+
+interface Topic {
+	table: string;
+	/** How the table is named to users */
+	label: string;
+	pattern: RegExp;
+}
+
+const SEASON_TABLES: Topic[] = [
+	{
+		table: 'pitching',
+		label: 'pitching',
+		pattern: /\b(?:era|whip|fip|pitch(?:er|ers|ing|ed)?|saves?|innings|starters?|relievers?|closers?|k\s*\/\s*9|strikeouts? per)\b/i,
+	},
+	{
+		table: 'batting',
+		label: 'batting',
+		pattern: /\b(?:home runs?|homers?|rbis?|batting|hitters?|batters?|hits|at[- ]bats?|stolen bases?|steals|slugging|ops|obp|on[- ]base)\b/i,
+	},
+	{
+		table: 'fielding',
+		label: 'fielding',
+		pattern: /\b(?:errors?|fielding|putouts?|assists|double plays|defen[cs]e|defensive|zone rating)\b/i,
+	},
+	{
+		table: 'teams',
+		label: 'team season',
+		pattern: /\b(?:standings|division|world series|pennants?|wild card|attendance|run differential|parks?|teams?|franchises?)\b/i,
+	},
+];
+
+const UNSUPPORTED_TOPICS: { topic: string; pattern: RegExp }[] = [
+	// Money nouns only: "earned the most saves" and "paid off" are baseball questions
+	{
+		topic: 'salaries or contracts',
+		pattern: /\$|\b(?:salar(?:y|ies)|contracts?|payroll|earnings|money|dollars?|millions?|(?:highest|best|lowest|most)[- ]paid)\b/i,
+	},
+	// Cy Young the pitcher is in the data; only the award's phrasing is refused
+	{
+		topic: 'awards',
+		pattern: /\b(?:mvps?|cy youngs|cy young (?:winners?|voting|votes)|won (?:the |a |\d+ )?cy young|rookie of the year|gold gloves?|silver sluggers?|all[- ]stars?|awards?)\b/i,
+	},
+	{ topic: 'the Hall of Fame', pattern: /\bhall of fame(?:rs?)?\b/i },
+	{ topic: 'postseason statistics', pattern: /\b(?:postseason|playoffs?)\s+(?:era|stats?|statistics|home runs?|hits|strikeouts|batting|pitching|record)\b/i },
+	// Case-sensitive, so "war" in ordinary prose is not taken for the stat
+	{ topic: 'WAR or other advanced metrics', pattern: /\bWAR\b/ },
+	{ topic: 'WAR or other advanced metrics', pattern: /\bwins above replacement\b|\b(?:wrc\+?|woba|babip|xfip|siera|ops\+)(?=\W|$)/i },
+	{ topic: 'pitch-level or Statcast data', pattern: /\b(?:exit velocity|launch angle|spin rate|pitch (?:speed|velocity|types?|mix)|fastballs?|statcast|mph)\b/i },
+	// Nouns, or managing a team: "managed 250 strikeouts" is a pitching question
+	{ topic: 'managers', pattern: /\b(?:managers?|managerial)\b/i },
+	{ topic: 'managers', pattern: /\b[Mm]anaged the [A-Z]/ },
+	{ topic: 'injuries', pattern: /\b(?:injur(?:y|ies|ed)|injured list|disabled list)\b/i },
+	{ topic: 'game-by-game results', pattern: /\b(?:box scores?|game logs?|single game|no[- ]hitters?|perfect games?|walk[- ]offs?|grand slams?)\b/i },
+	{ topic: 'minor league or college stats', pattern: /\b(?:minor leagues?|minors|triple[- ]a|double[- ]a|college|ncaa)\b/i },
+];
+
+/** "Best", "greatest"... with nothing to measure them by */
+const SUBJECTIVE_PATTERN = /\b(?:best|greatest|top|worst|better|most dominant|most valuable|goat|elite)\b/i;
+const METRIC_PATTERN = new RegExp(
+	[
+		'era', 'whip', 'fip', 'k\\s*/\\s*9', 'bb\\s*/\\s*9', 'strikeouts?', 'walks?', 'saves?', 'wins?', 'won', 'losses',
+		'innings', 'starts', 'games', 'home runs?', 'homers?', 'hr', 'rbis?', 'hits', 'average', 'avg', 'obp', 'slg', 'ops',
+		'on[- ]base', 'slugging', 'stolen bases?', 'steals', 'runs', 'doubles', 'triples', 'errors?', 'fielding', 'putouts?',
+		'attendance', 'run differential', 'record', 'standings', 'pythagorean', 'park factors?', 'tallest', 'heaviest',
+		'youngest', 'oldest', 'height', 'weight',
+	].map(word => `\\b${word}\\b`).join('|'),
+	'i'
+);
+
+interface Role {
+	pattern: RegExp;
+	noun: string;
+	options: (year: number) => string[];
+}
+
+const ROLES: Role[] = [
+	{
+		pattern: /\b(?:relievers?|closers?|bullpen arms?)\b/i,
+		noun: 'reliever',
+		options: year => [`Who led the majors in saves in ${year}?`, `Which reliever had the lowest ERA in ${year}?`],
+	},
+	{
+		pattern: /\b(?:pitchers?|starters?|aces?|arms?)\b/i,
+		noun: 'pitcher',
+		options: year => [
+			`Who had the lowest ERA in ${year}?`,
+			`Who had the most strikeouts in ${year}?`,
+			`Who had the lowest FIP in ${year}?`,
+		],
+	},
+	{
+		pattern: /\b(?:hitters?|batters?|sluggers?|catchers?|shortstops?|(?:first|second|third) basem[ae]n|outfielders?|infielders?)\b/i,
+		noun: 'hitter',
+		options: year => [
+			`Who hit the most home runs in ${year}?`,
+			`Who had the highest batting average in ${year}?`,
+			`Who had the highest OPS in ${year}?`,
+		],
+	},
+	{
+		pattern: /\b(?:teams?|clubs?|franchises?)\b/i,
+		noun: 'team',
+		options: year => [`Which team won the most games in ${year}?`, `Which team had the best run differential in ${year}?`],
+	},
+	{
+		pattern: /\b(?:players?|who(?:'s| is| was))\b/i,
+		noun: 'player',
+		options: year => [
+			`Who had the lowest ERA in ${year}?`,
+			`Who hit the most home runs in ${year}?`,
+			`Who had the highest OPS in ${year}?`,
+		],
+	},
+];
+
+const COVERAGE_TTL_MS = 60 * 60 * 1000;
+
+let coverage: { value: Promise<TableCoverage[]>; expiresAt: number } | null = null;
+
+const ANSWERABLE: ScopeDecision = { kind: 'answerable', message: '', options: [] };
+
+/**
+ * Classify a question. A follow-up is read together with the question it
+ * follows for intent, but only its own years are checked for coverage.
+ */
+export async function classifyQuestion(
+	db: D1Database,
+	question: string,
+	previousQuestion?: string
+): Promise<ScopeDecision> {
+	const unsupported = UNSUPPORTED_TOPICS.find(({ pattern }) => pattern.test(question));
+	if (unsupported) {
+		return {
+			kind: 'out_of_coverage',
+			message: `The database doesn't have ${unsupported.topic}. It covers player biographies and season pitching, batting, fielding, appearances and team records.`,
+			options: [],
+			missing: { topic: unsupported.topic },
+		};
+	}
+
+	const tables = await loadCoverage(db);
+	const text = previousQuestion ? `${previousQuestion} ${question}` : question;
+	const topics = SEASON_TABLES.filter(({ pattern }) => pattern.test(text));
+
+	const empty = topics.find(topic => tableCoverage(tables, topic.table)?.rows === 0);
+	if (empty) {
+		return {
+			kind: 'out_of_coverage',
+			message: `There is no ${empty.label} data loaded yet: the ${empty.table} table is empty.`,
+			options: [],
+			missing: { table: empty.table },
+		};
+	}
+
+	const seasons = seasonsIn(question);
+	const notes: string[] = [];
+	// Without a topic, check against the seasons any table covers
+	const checked = seasons.length === 0 ? [] : topics.length > 0 ? topics.map(topic => topic.table) : ['teams'];
+	for (const table of checked) {
+		const { minYear, maxYear } = tableCoverage(tables, table) ?? {};
+		if (minYear == null || maxYear == null) continue;
+		const covers = `The ${table} table covers ${minYear === maxYear ? minYear : `${minYear}–${maxYear}`}`;
+
+		// A decade is refused only when none of its seasons are loaded
+		const outside = seasons.filter(({ first, last }) => last < minYear || first > maxYear);
+		if (outside.length > 0) {
+			const clamped = replaceYears(question, year => Math.min(Math.max(year, minYear), maxYear));
+			const label = SEASON_TABLES.find(topic => topic.table === table)?.label ?? table;
+			const missing = [...new Set(outside.flatMap(({ first, last }) => range(first, last)))].sort((a, b) => a - b);
+			return {
+				kind: 'out_of_coverage',
+				message: `${covers}, so there is no ${label} data for ${formatYears(missing)}.`,
+				options: clamped !== question ? [clamped] : [],
+				missing: { table, years: missing },
+			};
+		}
+
+		// Otherwise it is answered from the seasons it has, and the answer says so
+		for (const { first, last } of seasons) {
+			if (first >= minYear && last <= maxYear) continue;
+			const from = Math.max(first, minYear);
+			const to = Math.min(last, maxYear);
+			notes.push(`${covers}, so the ${first}s only include ${from === to ? from : `${from}–${to}`}.`);
+		}
+	}
+
+	const subjective = question.match(SUBJECTIVE_PATTERN);
+	// "Who was better, deGrom or Scherzer?" is a comparison across the board
+	if (subjective && !METRIC_PATTERN.test(text) && !COMPARISON_PATTERN.test(question)) {
+		const role = ROLES.find(({ pattern }) => pattern.test(question));
+		if (role) {
+			const latest = tableCoverage(tables, 'teams')?.maxYear ?? new Date().getFullYear() - 1;
+			const year = seasons.length === 1 && seasons[0].first === seasons[0].last ? seasons[0].first : latest;
+			return {
+				kind: 'ambiguous',
+				message: `"${capitalize(subjective[0])} ${role.noun}" can be measured several ways. Which one do you mean?`,
+				options: role.options(year),
+			};
+		}
+	}
+
+	return notes.length > 0 ? { ...ANSWERABLE, note: notes[0] } : ANSWERABLE;
+}
+
+/**
+ * Rows and yearID span of each season table, read at most once an hour per isolate
+ */
+function loadCoverage(db: D1Database): Promise<TableCoverage[]> {
+	if (coverage && coverage.expiresAt > Date.now()) return coverage.value;
+	const sql = SEASON_TABLES
+		.map(({ table }) => `SELECT '${table}' AS "table", COUNT(*) AS rows, MIN(yearID) AS minYear, MAX(yearID) AS maxYear FROM ${table}`)
+		.join(' UNION ALL ');
+	const value = db
+		.prepare(sql)
+		.all<TableCoverage>()
+		.then(result => result.results || []);
+	coverage = { value, expiresAt: Date.now() + COVERAGE_TTL_MS };
+	value.catch(() => {
+		coverage = null;
+	});
+	return value;
+}
+
+function tableCoverage(tables: TableCoverage[], table: string): TableCoverage | undefined {
+	return tables.find(entry => entry.table === table);
+}
+
+/** Four-digit seasons, and decades ("the 1990s") as their first and last season */
+function seasonsIn(text: string): { first: number; last: number }[] {
+	return [...text.matchAll(/\b(1[89]\d\d|20\d\d)(s)?\b/g)].map(match => {
+		const year = parseInt(match[1], 10);
+		return { first: year, last: match[2] ? year + 9 : year };
+	});
+}
+
+function range(first: number, last: number): number[] {
+	return Array.from({ length: last - first + 1 }, (_, i) => first + i);
+}
+
+/** Replace each season; a decade becomes the decade of its replaced first season */
+function replaceYears(text: string, replace: (year: number) => number): string {
+	return text.replace(/\b(1[89]\d\d|20\d\d)(s)?\b/g, (_, year: string, decade?: string) => {
+		const replaced = replace(parseInt(year, 10));
+		return decade ? `${replaced - (replaced % 10)}s` : String(replaced);
+	});
+}
+
+/** Sorted seasons as text, with consecutive runs shortened: "1990–1999 or 2025" */
+function formatYears(years: number[]): string {
+	const runs: string[] = [];
+	let start = years[0];
+	for (let i = 1; i <= years.length; i++) {
+		if (years[i] === years[i - 1] + 1) continue;
+		runs.push(start === years[i - 1] ? String(start) : `${start}–${years[i - 1]}`);
+		start = years[i];
+	}
+	return runs.length === 1 ? runs[0] : `${runs.slice(0, -1).join(', ')} or ${runs[runs.length - 1]}`;
+}
+
+function capitalize(word: string): string {
+	return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
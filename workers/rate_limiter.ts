@@ -0,0 +1,83 @@
+/**
+ * RateLimiter Durable Object
+ * Fixed-window request counters for one caller (an IP address or an API
+ * key). Each hit names the windows it counts against, e.g. chat requests
+ * per minute and per day; a hit is only counted if every window has room,
+ * so a refused request does not use up quota.
+ */
+
+export interface RateWindow {
+	/** Counter name, e.g. 'chat:minute' */
+	name: string;
+	limit: number;
+	seconds: number;
+}
+
+export interface RateLimitResult {
+	allowed: boolean;
+	/** Limit of the window closest to running out (or the one that refused) */
+	limit: number;
+	remaining: number;
+	/** Seconds until the refusing window resets; 0 when allowed */
+	retryAfter: number;
+}
+
+interface WindowCount {
+	start: number;
+	count: number;
+}
+
+export class RateLimiter {
+	constructor(private state: DurableObjectState) {}
+
+	async fetch(request: Request): Promise<Response> {
+		const url = new URL(request.url);
+		if (url.pathname !== '/hit' || request.method !== 'POST') {
+			return new Response('Not found', { status: 404 });
+		}
+
+		const { windows } = await request.json() as { windows: RateWindow[] };
+		const now = Date.now();
+		const stored = await this.state.storage.get<WindowCount>(windows.map(window => window.name));
+		const counts = windows.map(window => {
+			const start = Math.floor(now / (window.seconds * 1000)) * window.seconds * 1000;
+			const entry = stored.get(window.name);
+			return { window, start, count: entry && entry.start === start ? entry.count : 0 };
+		});
+
+		const full = counts.filter(({ window, count }) => count >= window.limit);
+		if (full.length > 0) {
+			const retryAfter = Math.max(
+				...full.map(({ window, start }) => Math.ceil((start + window.seconds * 1000 - now) / 1000))
+			);
+			return Response.json({ allowed: false, limit: full[0].window.limit, remaining: 0, retryAfter });
+		}
+
+		await this.state.storage.put(
+			Object.fromEntries(counts.map(({ window, start, count }) => [window.name, { start, count: count + 1 }]))
+		);
+		const tightest = counts.reduce((a, b) => (b.window.limit - b.count < a.window.limit - a.count ? b : a));
+		return Response.json({
+			allowed: true,
+			limit: tightest.window.limit,
+			remaining: tightest.window.limit - tightest.count - 1,
+			retryAfter: 0,
+		});
+	}
+}
+
+/**
+ * Count a request for a caller against the given windows
+ */
+export async function consumeRateLimit(
+	ns: DurableObjectNamespace,
+	caller: string,
+	windows: RateWindow[]
+): Promise<RateLimitResult> {
+	const stub = ns.get(ns.idFromName(caller));
+	const response = await stub.fetch('https://rate-limiter/hit', {
+		method: 'POST',
+		body: JSON.stringify({ windows }),
+	});
+	return response.json() as Promise<RateLimitResult>;
+}
@@ -0,0 +1,466 @@
+/**
+ * Versioned read-only REST API
+ * Deterministic stats for dashboards, straight from D1 with no model in the
+ * loop. List routes support `fields`, `sort`, `limit`/`offset` and column
+ * filters (`teamID=SEA`, `minGS=10`, `maxERA=3`); the OpenAPI document is
+ * served at /api/v1/openapi.json.
+ */
+
+import { ColumnType, TABLES } from '../scripts/manifest';
+import { jsonResponse } from './http';
+import { TABLE_COLUMNS } from './schema';
+import { MAX_ROWS } from './sql_guard';
+
+export const API_PREFIX = '/api/v1';
+
+const DEFAULT_PAGE_SIZE = 25;
+const RESERVED_PARAMS = new Set(['fields', 'sort', 'limit', 'offset', 'stat', 'group', 'order']);
+const NAME_COLUMNS = ['nameFirst', 'nameLast'];
+
+/** Rate stats where the leader has the lowest value */
+const LOWER_IS_BETTER = new Set(['ERA', 'WHIP', 'BB9', 'HR9', 'FIP']);
+
+/** Column types for the tables and views the API exposes */
+const COLUMN_TYPES: Record<string, Record<string, ColumnType>> = Object.fromEntries(
+	TABLES.map(table => [table.table, Object.fromEntries(table.columns.map(column => [column.name, column.type]))])
+);
+COLUMN_TYPES.pitching_advanced = {
+	...COLUMN_TYPES.pitching,
+	IP: 'REAL',
+	WHIP: 'REAL',
+	K9: 'REAL',
+	BB9: 'REAL',
+	HR9: 'REAL',
+	KBB: 'REAL',
+	FIP: 'REAL',
+};
+COLUMN_TYPES.pitching_season = Object.fromEntries(
+	TABLE_COLUMNS.pitching_season.map(column => [
+		column,
+		column === 'stints' ? 'INTEGER' : column === 'teams' ? 'TEXT' : COLUMN_TYPES.pitching_advanced[column],
+	])
+);
+
+/** Season tables that leaders can be ranked from */
+const LEADER_GROUPS: Record<string, string> = {
+	pitching: 'pitching_season',
+	batting: 'batting',
+};
+
+type Row = Record<string, string | number | null>;
+
+/**
+ * A list query against one table or view, optionally joined to people
+ * for player names
+ */
+interface Source {
+	table: string;
+	withNames: boolean;
+}
+
+interface PageOptions {
+	fields: string[];
+	sort: { column: string; descending: boolean }[];
+	limit: number;
+	offset: number;
+}
+
+interface Filter {
+	clause: string;
+	value?: string | number;
+}
+
+class ApiError extends Error {
+	constructor(public status: number, message: string) {
+		super(message);
+		this.name = 'ApiError';
+	}
+}
+
+/**
+ * Route a request under /api/v1
+ */
+export async function handleApiRequest(request: Request, db: D1Database): Promise<Response> {
+	const url = new URL(request.url);
+	const path = url.pathname.slice(API_PREFIX.length).replace(/\/$/, '');
+	const params = url.searchParams;
+
+	if (request.method !== 'GET') {
+		return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+	}
+
+	try {
+		if (path === '/openapi.json') {
+			return jsonResponse(openApiDocument(url.origin));
+		}
+
+		let match = path.match(/^\/players\/([^/]+)$/);
+		if (match) {
+			return jsonResponse(await getOne(db, 'people', { playerID: decodeURIComponent(match[1]) }, params));
+		}
+
+		match = path.match(/^\/players\/([^/]+)\/pitching$/);
+		if (match) {
+			const playerID = decodeURIComponent(match[1]);
+			const source: Source = { table: 'pitching_advanced', withNames: false };
+			const filters = [{ clause: 's.playerID = ?', value: playerID }, ...parseFilters(source, params)];
+			const page = await listRows(db, source, filters, parsePageOptions(params, source, 'yearID,stint'));
+			if (page.meta.total === 0 && !(await exists(db, 'people', { playerID }))) {
+				throw new ApiError(404, `No player with playerID '${playerID}'`);
+			}
+			return jsonResponse(page);
+		}
+
+		match = path.match(/^\/teams\/(\d{4})\/([^/]+)$/);
+		if (match) {
+			return jsonResponse(await getOne(db, 'teams', { yearID: parseInt(match[1], 10), teamID: decodeURIComponent(match[2]) }, params));
+		}
+
+		if (path === '/leaders') {
+			return jsonResponse(await listLeaders(db, params));
+		}
+
+		throw new ApiError(404, 'Not found');
+	} catch (error: any) {
+		if (error instanceof ApiError) {
+			return jsonResponse({ success: false, error: error.message }, error.status);
+		}
+		console.error('API error:', error);
+		return jsonResponse({ success: false, error: 'Database query failed' }, 500);
+	}
+}
+
+async function getOne(db: D1Database, table: string, key: Record<string, string | number>, params: URLSearchParams) {
+	const fields = parseFields(params, table, TABLE_COLUMNS[table]);
+	const where = Object.keys(key).map(column => `${column} = ?`).join(' AND ');
+	const row = await db
+		.prepare(`SELECT ${fields.join(', ')} FROM ${table} WHERE ${where}`)
+		.bind(...Object.values(key))
+		.first<Row>();
+
+	if (!row) {
+		const description = Object.entries(key).map(([column, value]) => `${column} '${value}'`).join(' and ');
+		throw new ApiError(404, `No ${table === 'people' ? 'player' : 'team season'} with ${description}`);
+	}
+	return { success: true, data: row };
+}
+
+async function exists(db: D1Database, table: string, key: Record<string, string>): Promise<boolean> {
+	const where = Object.keys(key).map(column => `${column} = ?`).join(' AND ');
+	return (await db.prepare(`SELECT 1 FROM ${table} WHERE ${where} LIMIT 1`).bind(...Object.values(key)).first()) !== null;
+}
+
+/**
+ * Season leaders for one stat, e.g. ?stat=SO&year=2023&minGS=10. Rate stats
+ * where lower is better (ERA, WHIP, FIP...) sort ascending unless `order` is given.
+ */
+async function listLeaders(db: D1Database, params: URLSearchParams) {
+	const group = params.get('group') || 'pitching';
+	const table = LEADER_GROUPS[group];
+	if (!table) {
+		throw new ApiError(400, `Unknown group '${group}'; use ${Object.keys(LEADER_GROUPS).join(' or ')}`);
+	}
+
+	const source: Source = { table, withNames: true };
+	const stat = canonicalColumn(table, params.get('stat') || '');
+	if (!stat || !isNumeric(table, stat)) {
+		throw new ApiError(400, `stat must be a numeric ${group} column: ${numericColumns(table).join(', ')}`);
+	}
+
+	const order = params.get('order');
+	if (order && order !== 'asc' && order !== 'desc') {
+		throw new ApiError(400, "order must be 'asc' or 'desc'");
+	}
+	const descending = order ? order === 'desc' : !LOWER_IS_BETTER.has(stat);
+
+	// Pitching leaders are whole seasons, so traded pitchers list every team
+	const teamColumn = TABLE_COLUMNS[table].includes('teamID') ? 'teamID' : 'teams';
+	const options = parsePageOptions(params, source, '', ['playerID', ...NAME_COLUMNS, 'yearID', teamColumn, stat]);
+	options.sort = [{ column: stat, descending }, ...options.sort, { column: 'playerID', descending: false }];
+
+	const filters = [{ clause: `s.${stat} IS NOT NULL` }, ...parseFilters(source, params)];
+	return listRows(db, source, filters, options);
+}
+
+async function listRows(db: D1Database, source: Source, filters: Filter[], options: PageOptions) {
+	const from = source.withNames
+		? `${source.table} s JOIN people p ON p.playerID = s.playerID`
+		: `${source.table} s`;
+	const where = filters.length > 0 ? `WHERE ${filters.map(filter => filter.clause).join(' AND ')}` : '';
+	const values = filters.flatMap(filter => (filter.value === undefined ? [] : [filter.value]));
+	const columns = options.fields.map(column => `${qualify(source, column)} AS ${column}`).join(', ');
+	const orderBy = options.sort.length > 0
+		? `ORDER BY ${options.sort.map(({ column, descending }) => `${qualify(source, column)} ${descending ? 'DESC' : 'ASC'}`).join(', ')}`
+		: '';
+
+	const [rows, count] = await Promise.all([
+		db
+			.prepare(`SELECT ${columns} FROM ${from} ${where} ${orderBy} LIMIT ? OFFSET ?`)
+			.bind(...values, options.limit, options.offset)
+			.all<Row>(),
+		db.prepare(`SELECT COUNT(*) AS total FROM ${from} ${where}`).bind(...values).first<{ total: number }>(),
+	]);
+
+	const total = count?.total || 0;
+	return {
+		success: true,
+		data: rows.results || [],
+		meta: {
+			limit: options.limit,
+			offset: options.offset,
+			total,
+			nextOffset: options.offset + options.limit < total ? options.offset + options.limit : null,
+		},
+	};
+}
+
+function parsePageOptions(params: URLSearchParams, source: Source, defaultSort: string, defaultFields?: string[]): PageOptions {
+	const allowed = source.withNames ? [...TABLE_COLUMNS[source.table], ...NAME_COLUMNS] : [...TABLE_COLUMNS[source.table]];
+	const sort = (params.get('sort') ?? defaultSort)
+		.split(',')
+		.filter(Boolean)
+		.map(entry => {
+			const descending = entry.startsWith('-');
+			const column = allowed.find(name => name.toLowerCase() === entry.replace(/^-/, '').toLowerCase());
+			if (!column) throw new ApiError(400, `Cannot sort by '${entry}'; columns: ${allowed.join(', ')}`);
+			return { column, descending };
+		});
+
+	return {
+		fields: parseFields(params, source.table, allowed, defaultFields),
+		sort,
+		limit: parseInteger(params, 'limit', DEFAULT_PAGE_SIZE, 1, MAX_ROWS),
+		offset: parseInteger(params, 'offset', 0, 0, Number.MAX_SAFE_INTEGER),
+	};
+}
+
+function parseFields(params: URLSearchParams, table: string, allowed: readonly string[], defaults: string[] = [...allowed]): string[] {
+	const requested = params.get('fields');
+	if (!requested) return defaults;
+
+	return [...new Set(requested.split(',').filter(Boolean).map(field => {
+		const column = allowed.find(name => name.toLowerCase() === field.toLowerCase());
+		if (!column) throw new ApiError(400, `Unknown field '${field}' for ${table}; fields: ${allowed.join(', ')}`);
+		return column;
+	}))];
+}
+
+/**
+ * Equality filters from params named after a column (teamID=SEA, or
+ * year=2023 for yearID) and ranges from min<Column>/max<Column>
+ */
+function parseFilters(source: Source, params: URLSearchParams): Filter[] {
+	const filters: Filter[] = [];
+	for (const [name, raw] of params) {
+		if (RESERVED_PARAMS.has(name)) continue;
+
+		const range = /^(min|max)(.+)$/.exec(name);
+		const column = canonicalColumn(source.table, name === 'year' ? 'yearID' : range ? range[2] : name);
+		if (!column) {
+			throw new ApiError(400, `Unknown parameter '${name}'`);
+		}
+
+		if (range) {
+			if (!isNumeric(source.table, column)) throw new ApiError(400, `${name} needs a numeric column`);
+			filters.push({ clause: `s.${column} ${range[1] === 'min' ? '>=' : '<='} ?`, value: parseNumber(name, raw) });
+		} else {
+			filters.push({ clause: `s.${column} = ?`, value: isNumeric(source.table, column) ? parseNumber(name, raw) : raw });
+		}
+	}
+	return filters;
+}
+
+function parseInteger(params: URLSearchParams, name: string, fallback: number, min: number, max: number): number {
+	const raw = params.get(name);
+	if (raw === null) return fallback;
+	const value = Number(raw);
+	if (!Number.isInteger(value) || value < min || value > max) {
+		throw new ApiError(400, `${name} must be an integer between ${min} and ${max}`);
+	}
+	return value;
+}
+
+function parseNumber(name: string, raw: string): number {
+	const value = Number(raw);
+	if (raw.trim() === '' || Number.isNaN(value)) throw new ApiError(400, `${name} must be a number`);
+	return value;
+}
+
+function canonicalColumn(table: string, name: string): string | undefined {
+	return TABLE_COLUMNS[table].find(column => column.toLowerCase() === name.toLowerCase());
+}
+
+function qualify(source: Source, column: string): string {
+	return source.withNames && NAME_COLUMNS.includes(column) ? `p.${column}` : `s.${column}`;
+}
+
+function isNumeric(table: string, column: string): boolean {
+	return COLUMN_TYPES[table]?.[column] !== undefined && COLUMN_TYPES[table][column] !== 'TEXT';
+}
+
+function numericColumns(table: string): string[] {
+	return TABLE_COLUMNS[table].filter(column => isNumeric(table, column));
+}
+
+/**
+ * OpenAPI 3.1 description of the routes above, with row schemas built from
+ * the seed manifest's column types
+ */
+function openApiDocument(origin: string) {
+	const rowSchema = (table: string, extra: string[] = []) => ({
+		type: 'object',
+		properties: Object.fromEntries(
+			[...TABLE_COLUMNS[table], ...extra].map(column => {
+				const type = COLUMN_TYPES[table]?.[column] || 'TEXT';
+				return [column, { type: [type === 'TEXT' ? 'string' : type === 'INTEGER' ? 'integer' : 'number', 'null'] }];
+			})
+		),
+	});
+	const single = (schema: string) => ({
+		description: 'OK',
+		content: {
+			'application/json': {
+				schema: {
+					type: 'object',
+					properties: { success: { const: true }, data: { $ref: `#/components/schemas/${schema}` } },
+				},
+			},
+		},
+	});
+	const page = (schema: string) => ({
+		description: 'OK',
+		content: {
+			'application/json': {
+				schema: {
+					type: 'object',
+					properties: {
+						success: { const: true },
+						data: { type: 'array', items: { $ref: `#/components/schemas/${schema}` } },
+						meta: { $ref: '#/components/schemas/PageMeta' },
+					},
+				},
+			},
+		},
+	});
+	const errors = {
+		400: { $ref: '#/components/responses/Error' },
+		401: { $ref: '#/components/responses/Error' },
+		404: { $ref: '#/components/responses/Error' },
+		429: { $ref: '#/components/responses/RateLimited' },
+	};
+	const pathParam = (name: string, type: string, description: string) => ({
+		name,
+		in: 'path',
+		required: true,
+		schema: { type },
+		description,
+	});
+	const listParams = ['fields', 'sort', 'limit', 'offset'].map(name => ({ $ref: `#/components/parameters/${name}` }));
+
+	return {
+		openapi: '3.1.0',
+		info: {
+			title: 'cf_ai_baseball stats API',
+			version: '1.0.0',
+			description: 'Read-only Lahman baseball statistics from D1. On list routes, parameters named after a column filter on it, min<Column>/max<Column> filter numeric ranges and unknown parameters are rejected.',
+		},
+		servers: [{ url: `${origin}${API_PREFIX}` }],
+		// Keys are optional unless the deployment sets REQUIRE_API_KEY; they raise the rate limits
+		security: [{}, { bearerKey: [] }, { headerKey: [] }],
+		paths: {
+			'/players/{playerID}': {
+				get: {
+					summary: 'Player biography',
+					parameters: [pathParam('playerID', 'string', "Lahman playerID, e.g. 'degroja01'"), { $ref: '#/components/parameters/fields' }],
+					responses: { 200: single('Player'), ...errors },
+				},
+			},
+			'/players/{playerID}/pitching': {
+				get: {
+					summary: 'Season pitching lines, one per team stint, with rate stats',
+					parameters: [pathParam('playerID', 'string', 'Lahman playerID'), ...listParams],
+					responses: { 200: page('PitchingSeason'), ...errors },
+				},
+			},
+			'/teams/{yearID}/{teamID}': {
+				get: {
+					summary: 'Team season record',
+					parameters: [
+						pathParam('yearID', 'integer', 'Season'),
+						pathParam('teamID', 'string', "Lahman teamID, e.g. 'SEA' or 'NYA'"),
+						{ $ref: '#/components/parameters/fields' },
+					],
+					responses: { 200: single('TeamSeason'), ...errors },
+				},
+			},
+			'/leaders': {
+				get: {
+					summary: 'Single-season leaders for one stat',
+					parameters: [
+						{ name: 'stat', in: 'query', required: true, schema: { type: 'string' }, description: 'Numeric column to rank by, e.g. SO, ERA, HR' },
+						{ name: 'group', in: 'query', schema: { enum: Object.keys(LEADER_GROUPS), default: 'pitching' } },
+						{ name: 'year', in: 'query', schema: { type: 'integer' } },
+						{ name: 'order', in: 'query', schema: { enum: ['asc', 'desc'] }, description: 'Defaults to asc for ERA, WHIP, FIP and similar' },
+						{ name: 'minGS', in: 'query', schema: { type: 'number' }, description: 'Any min<Column>/max<Column> is accepted' },
+						...listParams,
+					],
+					responses: { 200: page('Leader'), ...errors },
+				},
+			},
+		},
+		components: {
+			parameters: {
+				fields: { name: 'fields', in: 'query', schema: { type: 'string' }, description: 'Comma-separated columns to return' },
+				sort: { name: 'sort', in: 'query', schema: { type: 'string' }, description: "Comma-separated columns; prefix with '-' for descending" },
+				limit: { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: MAX_ROWS, default: DEFAULT_PAGE_SIZE } },
+				offset: { name: 'offset', in: 'query', schema: { type: 'integer', minimum: 0, default: 0 } },
+			},
+			responses: {
+				Error: {
+					description: 'Invalid request or not found',
+					content: {
+						'application/json': {
+							schema: { type: 'object', properties: { success: { const: false }, error: { type: 'string' } } },
+						},
+					},
+				},
+				RateLimited: {
+					description: 'Rate limit exceeded; retry after the number of seconds in Retry-After',
+					headers: {
+						'Retry-After': { schema: { type: 'integer' } },
+						'X-RateLimit-Limit': { schema: { type: 'integer' } },
+						'X-RateLimit-Remaining': { schema: { type: 'integer' } },
+					},
+					content: {
+						'application/json': {
+							schema: { type: 'object', properties: { success: { const: false }, error: { type: 'string' } } },
+						},
+					},
+				},
+			},
+			securitySchemes: {
+				bearerKey: { type: 'http', scheme: 'bearer' },
+				headerKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+			},
+			schemas: {
+				Player: rowSchema('people'),
+				PitchingSeason: rowSchema('pitching_advanced'),
+				TeamSeason: rowSchema('teams'),
+				Leader: {
+					description: 'A pitching_season or batting row plus the player name',
+					type: 'object',
+					additionalProperties: { type: ['string', 'number', 'null'] },
+				},
+				PageMeta: {
+					type: 'object',
+					properties: {
+						limit: { type: 'integer' },
+						offset: { type: 'integer' },
+						total: { type: 'integer' },
+						nextOffset: { type: ['integer', 'null'] },
+					},
+				},
+			},
+		},
+	};
+}
@@ -0,0 +1,74 @@
+/**
+ * Column metadata and a suggested visualization for a result set, so the
+ * UI can render tables and charts without guessing from raw rows.
+ */
+
+export type ColumnType = 'integer' | 'real' | 'text' | 'null';
+
+export interface ColumnMeta {
+	name: string;
+	type: ColumnType;
+	/** Dimensions label rows (names, IDs, years); measures are plotted */
+	role: 'dimension' | 'measure';
+}
+
+export interface Visualization {
+	type: 'line' | 'bar' | 'table';
+	x?: string;
+	y?: string[];
+}
+
+export interface ResultMeta {
+	columns: ColumnMeta[];
+	visualization: Visualization;
+}
+
+const DIMENSION_COLUMNS = new Set(['yearid', 'stint', 'playerid', 'teamid', 'lgid', 'franchid', 'divid', 'pos']);
+const LABEL_PREFERENCE = ['name', 'nameLast', 'playerID', 'teamID', 'franchID', 'lgID', 'POS'];
+
+export function describeResults(results: Record<string, unknown>[]): ResultMeta {
+	if (results.length === 0) {
+		return { columns: [], visualization: { type: 'table' } };
+	}
+
+	const columns = Object.keys(results[0]).map(name => {
+		const type = inferType(results.map(row => row[name]));
+		const isDimension = type === 'text' || type === 'null' || DIMENSION_COLUMNS.has(name.toLowerCase());
+		return { name, type, role: isDimension ? 'dimension' : 'measure' } as ColumnMeta;
+	});
+
+	return { columns, visualization: suggestVisualization(results, columns) };
+}
+
+function inferType(values: unknown[]): ColumnType {
+	const present = values.filter(value => value !== null && value !== undefined);
+	if (present.length === 0) return 'null';
+	if (present.every(value => typeof value === 'number' && Number.isInteger(value))) return 'integer';
+	if (present.every(value => typeof value === 'number')) return 'real';
+	return 'text';
+}
+
+/**
+ * Year-by-year results become a line chart, multi-row rankings a bar chart;
+ * anything else is only shown as a table
+ */
+function suggestVisualization(results: Record<string, unknown>[], columns: ColumnMeta[]): Visualization {
+	const measures = columns.filter(column => column.role === 'measure').map(column => column.name);
+	if (results.length < 2 || measures.length === 0) {
+		return { type: 'table' };
+	}
+
+	const year = columns.find(column => column.name.toLowerCase() === 'yearid');
+	if (year && new Set(results.map(row => row[year.name])).size === results.length) {
+		return { type: 'line', x: year.name, y: measures.slice(0, 3) };
+	}
+
+	const label = LABEL_PREFERENCE.find(name => columns.some(column => column.name === name))
+		?? columns.find(column => column.role === 'dimension')?.name;
+	if (label) {
+		// The ranked stat is usually the last column selected
+		return { type: 'bar', x: label, y: [measures[measures.length - 1]] };
+	}
+
+	return { type: 'table' };
+}
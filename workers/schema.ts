@@ -0,0 +1,225 @@
+/**
+ * Tables, views and columns the worker is allowed to query.
+ * Keep in sync with the CREATE TABLE/VIEW statements in migrations/.
+ */
+export const TABLE_COLUMNS: Record<string, readonly string[]> = {
+	people: [
+		'playerID',
+		'nameFirst',
+		'nameLast',
+		'nameGiven',
+		'birthYear',
+		'birthMonth',
+		'birthDay',
+		'birthCountry',
+		'birthState',
+		'birthCity',
+		'deathYear',
+		'deathMonth',
+		'deathDay',
+		'deathCountry',
+		'deathState',
+		'deathCity',
+		'weight',
+		'height',
+		'bats',
+		'throws',
+		'debut',
+		'finalGame',
+		'retroID',
+		'bbrefID',
+	],
+	teams: [
+		'yearID',
+		'lgID',
+		'teamID',
+		'franchID',
+		'divID',
+		'name',
+		'G',
+		'W',
+		'L',
+		'Rank',
+		'Ghome',
+		'DivWin',
+		'WCWin',
+		'LgWin',
+		'WSWin',
+		'R',
+		'AB',
+		'H',
+		'doubles',
+		'triples',
+		'HR',
+		'BB',
+		'SO',
+		'SB',
+		'CS',
+		'HBP',
+		'SF',
+		'RA',
+		'ER',
+		'ERA',
+		'CG',
+		'SHO',
+		'SV',
+		'IPouts',
+		'HA',
+		'HRA',
+		'BBA',
+		'SOA',
+		'E',
+		'DP',
+		'FP',
+		'park',
+		'attendance',
+		'BPF',
+		'PPF',
+		'teamIDBR',
+		'teamIDlahman45',
+		'teamIDretro',
+	],
+	pitching: [
+		'playerID',
+		'yearID',
+		'stint',
+		'teamID',
+		'lgID',
+		'W',
+		'L',
+		'G',
+		'GS',
+		'SV',
+		'IPouts',
+		'H',
+		'ER',
+		'HR',
+		'BB',
+		'SO',
+		'HBP',
+		'ERA',
+	],
+	pitching_advanced: [
+		'playerID',
+		'yearID',
+		'stint',
+		'teamID',
+		'lgID',
+		'W',
+		'L',
+		'G',
+		'GS',
+		'SV',
+		'IPouts',
+		'H',
+		'ER',
+		'HR',
+		'BB',
+		'SO',
+		'HBP',
+		'ERA',
+		'IP',
+		'WHIP',
+		'K9',
+		'BB9',
+		'HR9',
+		'KBB',
+		'FIP',
+	],
+	pitching_season: [
+		'playerID',
+		'yearID',
+		'stints',
+		'teams',
+		'lgID',
+		'W',
+		'L',
+		'G',
+		'GS',
+		'SV',
+		'IPouts',
+		'H',
+		'ER',
+		'HR',
+		'BB',
+		'SO',
+		'HBP',
+		'ERA',
+		'IP',
+		'WHIP',
+		'K9',
+		'BB9',
+		'HR9',
+		'KBB',
+		'FIP',
+	],
+	league_pitching_constants: ['yearID', 'IP', 'lgERA', 'cFIP'],
+	league_baselines: ['yearID', 'lgID', 'teams', 'IP', 'lgERA', 'lgWHIP', 'lgK9'],
+	batting: [
+		'playerID',
+		'yearID',
+		'stint',
+		'teamID',
+		'lgID',
+		'G',
+		'AB',
+		'R',
+		'H',
+		'doubles',
+		'triples',
+		'HR',
+		'RBI',
+		'SB',
+		'CS',
+		'BB',
+		'SO',
+		'IBB',
+		'HBP',
+		'SH',
+		'SF',
+		'GIDP',
+	],
+	fielding: [
+		'playerID',
+		'yearID',
+		'stint',
+		'teamID',
+		'lgID',
+		'POS',
+		'G',
+		'GS',
+		'InnOuts',
+		'PO',
+		'A',
+		'E',
+		'DP',
+		'PB',
+		'WP',
+		'SB',
+		'CS',
+		'ZR',
+	],
+	appearances: [
+		'yearID',
+		'teamID',
+		'lgID',
+		'playerID',
+		'G_all',
+		'GS',
+		'G_batting',
+		'G_defense',
+		'G_p',
+		'G_c',
+		'G_1b',
+		'G_2b',
+		'G_3b',
+		'G_ss',
+		'G_lf',
+		'G_cf',
+		'G_rf',
+		'G_of',
+		'G_dh',
+		'G_ph',
+		'G_pr',
+	],
+};
@@ -0,0 +1,121 @@
+/**
+ * Natural language to SQL: the schema prompt, the model call and query
+ * execution. Shared by the Worker and the offline evaluation runner.
+ */
+
+import { ChatTurn } from './chat_state';
+import { ResolvedEntity, describeEntities } from './entity_resolver';
+import { BUILT_IN_EXAMPLES, SQLExample, formatExamples } from './example_library';
+import { ERA_PLUS_SQL } from './league_context';
+import { ChatMessage, StageModel } from './model_provider';
+import { Qualification, describeQualification } from './qualification';
+
+const SCHEMA_PROMPT = `You are a baseball statistics assistant that translates user questions into SQL queries.
+
+DATABASE SCHEMA:
+- people: playerID (TEXT PRIMARY KEY), nameFirst (TEXT), nameLast (TEXT), nameGiven (TEXT), birthYear (INT), birthMonth (INT), birthDay (INT), birthCountry (TEXT), birthState (TEXT), birthCity (TEXT), deathYear (INT), deathMonth (INT), deathDay (INT), deathCountry (TEXT), deathState (TEXT), deathCity (TEXT), weight (INT, pounds), height (INT, inches), bats (TEXT), throws (TEXT), debut (TEXT), finalGame (TEXT), retroID (TEXT), bbrefID (TEXT)
+- teams: yearID (INT), lgID (TEXT), teamID (TEXT), franchID (TEXT), divID (TEXT), name (TEXT), park (TEXT), Rank (INT, finish in division), G (INT), Ghome (INT), W (INT), L (INT), DivWin (TEXT), WCWin (TEXT), LgWin (TEXT), WSWin (TEXT), R (INT), AB (INT), H (INT), doubles (INT), triples (INT), HR (INT), BB (INT), SO (INT), SB (INT), CS (INT), HBP (INT), SF (INT), RA (INT, runs allowed), ER (INT), ERA (REAL), CG (INT), SHO (INT), SV (INT), IPouts (INT), HA (INT), HRA (INT), BBA (INT), SOA (INT), E (INT), DP (INT), FP (REAL), attendance (INT), BPF (INT), PPF (INT), teamIDBR (TEXT), teamIDlahman45 (TEXT), teamIDretro (TEXT)
+- pitching: playerID (TEXT), yearID (INT), stint (INT), teamID (TEXT), W (INT), L (INT), G (INT), GS (INT), SV (INT), IPouts (INT), SO (INT), BB (INT), HBP (INT), ERA (REAL), H (INT), ER (INT), HR (INT)
+- pitching_advanced (view): every pitching column plus IP (REAL, decimal innings), WHIP (REAL), K9 (REAL), BB9 (REAL), HR9 (REAL), KBB (REAL, strikeout-to-walk ratio), FIP (REAL)
+- pitching_season (view): one row per pitcher and season with team stints combined: playerID, yearID, stints (INT), teams (TEXT, e.g. 'WAS,LAN'), lgID (TEXT, 'ML' if split between leagues), W, L, G, GS, SV, IPouts, H, ER, HR, BB, SO, HBP, ERA, IP, WHIP, K9, BB9, HR9, KBB, FIP
+- league_pitching_constants (view): yearID (INT), IP (REAL), lgERA (REAL), cFIP (REAL)
+- league_baselines (view): one row per season and league, plus lgID 'ML' for both leagues combined: yearID (INT), lgID (TEXT), teams (INT), IP (REAL), lgERA (REAL), lgWHIP (REAL), lgK9 (REAL)
+- batting: playerID (TEXT), yearID (INT), stint (INT), teamID (TEXT), lgID (TEXT), G (INT), AB (INT), R (INT), H (INT), doubles (INT), triples (INT), HR (INT), RBI (INT), SB (INT), CS (INT), BB (INT), SO (INT), IBB (INT), HBP (INT), SH (INT), SF (INT), GIDP (INT)
+- fielding: playerID (TEXT), yearID (INT), stint (INT), teamID (TEXT), lgID (TEXT), POS (TEXT), G (INT), GS (INT), InnOuts (INT), PO (INT), A (INT), E (INT), DP (INT), PB (INT), WP (INT), SB (INT), CS (INT), ZR (REAL)
+- appearances: yearID (INT), teamID (TEXT), lgID (TEXT), playerID (TEXT), G_all (INT), GS (INT), G_batting (INT), G_defense (INT), G_p (INT), G_c (INT), G_1b (INT), G_2b (INT), G_3b (INT), G_ss (INT), G_lf (INT), G_cf (INT), G_rf (INT), G_of (INT), G_dh (INT), G_ph (INT), G_pr (INT)
+
+RULES:
+1. Use SQLite syntax
+2. Always include LIMIT clause to prevent excessive results (default LIMIT 10)
+3. Use proper JOINs when querying across tables
+4. When RESOLVED ENTITIES are listed, filter on those playerID/teamID values; otherwise match player names with LIKE (e.g., nameLast LIKE '%deGrom%')
+5. Use aggregate functions (AVG, SUM, MAX, MIN) for statistics
+6. Always filter by yearID when year is mentioned
+7. teamID uses abbreviations (e.g., 'SEA', 'NYA', 'LAD', 'HOU', 'WAS' for Nationals)
+8. ERA is stored as a REAL number, lower is better
+9. IPouts represents innings pitched as outs (divide by 3 for innings)
+10. Use pitching for pitchers and batting for hitters; SO, BB, H and HR mean strikeouts/walks/hits/home runs thrown in pitching but by the batter in batting
+11. Batting average is H * 1.0 / AB, on-base percentage is (H + BB + HBP) * 1.0 / (AB + BB + HBP + SF); plate appearances are AB + BB + HBP + SH + SF
+12. Doubles and triples are the columns doubles and triples (never 2B or 3B)
+13. For IP, WHIP, K/9, BB/9, HR/9, K/BB or FIP select the precomputed columns instead of writing the formulas yourself
+14. fielding has one row per player, team stint and position (POS: P, C, 1B, 2B, 3B, SS, LF, CF, RF, OF, DH); appearances counts games by position per player and team
+15. bats and throws are 'R', 'L' or 'B' (both); birthCountry uses values like 'USA', 'D.R.', 'Venezuela', 'Cuba', 'P.R.', 'CAN', 'Japan'; debut and finalGame are 'YYYY-MM-DD' text (finalGame is empty for active players); a birth date is printf('%04d-%02d-%02d', birthYear, birthMonth, birthDay)
+16. In teams, R/H/HR/BB/SO are the team's own batting and RA/HA/HRA/BBA/SOA what its pitchers allowed; DivWin, WCWin, LgWin and WSWin are 'Y' or 'N'; run differential is R - RA; Pythagorean expected wins are G * R * R * 1.0 / (R * R + RA * RA); BPF and PPF are batting and pitching park factors where 100 is neutral and higher favors hitters
+17. pitching and pitching_advanced have one row per team stint, so a pitcher traded mid-season has several rows a year. Use pitching_season for season questions (leaders, a pitcher's year-by-year line, season totals); use pitching or pitching_advanced only when the question names a team or asks about each stint
+18. When QUALIFICATION is listed, apply that minimum so a rate-stat leaderboard only ranks qualified players
+19. ERA+ is ${ERA_PLUS_SQL} joining pitching_season ps to league_baselines lb ON lb.yearID = ps.yearID AND lb.lgID = ps.lgID; higher is better and 100 is league average; it is not park-adjusted
+
+RESPONSE FORMAT:
+Return ONLY the SQL query without any explanation or markdown formatting.`;
+
+/**
+ * Schema, rules and the few-shot examples picked for this question
+ */
+export function buildSystemPrompt(examples: SQLExample[]): string {
+	return `${SCHEMA_PROMPT}\n\nEXAMPLES:\n${formatExamples(examples)}`;
+}
+
+export interface QueryAttempt {
+	sql: string;
+	rowCount?: number;
+	/** Why this attempt was not accepted (guard refusal, D1 error or empty-result hint) */
+	error?: string;
+}
+
+export async function generateSQL(
+	model: StageModel,
+	userQuery: string,
+	failedAttempts: QueryAttempt[] = [],
+	history: ChatTurn[] = [],
+	entities: ResolvedEntity[] = [],
+	examples: SQLExample[] = BUILT_IN_EXAMPLES,
+	qualification: Qualification | null = null
+): Promise<string> {
+	const messages: ChatMessage[] = [{ role: 'system', content: buildSystemPrompt(examples) }];
+
+	// Earlier turns let follow-ups like "what about 2022?" reuse players, teams and stats,
+	// and their rows tell "and his strikeouts?" who the last answer was about
+	let previousRows = '';
+	for (const turn of history) {
+		messages.push({ role: 'user', content: [turn.question, previousRows].filter(Boolean).join('\n\n') });
+		messages.push({ role: 'assistant', content: turn.sql });
+		previousRows = `The previous query returned ${turn.summary}`;
+	}
+	const context = [
+		previousRows,
+		entities.length > 0 ? describeEntities(entities) : '',
+		qualification ? describeQualification(qualification) : '',
+	].filter(Boolean);
+	messages.push({ role: 'user', content: [userQuery, ...context].join('\n\n') });
+
+	for (const attempt of failedAttempts) {
+		messages.push({ role: 'assistant', content: attempt.sql });
+		messages.push({
+			role: 'user',
+			content: `That query did not work: ${attempt.error}
+Fix it using only the tables and columns in DATABASE SCHEMA. Return ONLY the corrected SQL query.`,
+		});
+	}
+
+	const response = await model.provider.complete(messages, model.settings);
+
+	let sql = response.trim();
+	sql = sql.replace(/```sql\n?/g, '').replace(/```\n?/g, '');
+	sql = sql.trim();
+
+	if (!sql.endsWith(';')) {
+		sql += ';';
+	}
+
+	return sql;
+}
+
+export async function executeQuery(db: D1Database, sql: string): Promise<any[]> {
+	try {
+		const result = await db.prepare(sql).all();
+		return result.results || [];
+	} catch (error: any) {
+		console.error('SQL execution error:', error);
+		throw new Error(`Database query failed: ${error.message}`);
+	}
+}
@@ -0,0 +1,441 @@
+/**
+ * Read-only SQL guard
+ * Parses the SQL produced by the model and only lets a single SELECT/WITH
+ * statement against known tables and columns through to D1.
+ */
+
+import { TABLE_COLUMNS } from './schema';
+
+export const MAX_ROWS = 100;
+
+export type RejectionCode =
+	| 'empty'
+	| 'syntax'
+	| 'multiple_statements'
+	| 'not_select'
+	| 'forbidden_keyword'
+	| 'forbidden_function'
+	| 'parameter'
+	| 'unknown_table'
+	| 'unknown_column'
+	| 'invalid_limit';
+
+export class QueryRejectedError extends Error {
+	constructor(public code: RejectionCode, message: string) {
+		super(message);
+		this.name = 'QueryRejectedError';
+	}
+
+	/** Whether regenerating the query could plausibly fix the problem. */
+	get retryable(): boolean {
+		return !['forbidden_keyword', 'forbidden_function', 'multiple_statements', 'not_select', 'parameter'].includes(this.code);
+	}
+}
+
+export interface ValidatedQuery {
+	sql: string;
+	tables: string[];
+	limit: number;
+}
+
+type TokenKind = 'word' | 'identifier' | 'string' | 'number' | 'parameter' | 'symbol';
+
+interface Token {
+	kind: TokenKind;
+	/** Lowercased keyword/identifier name, unquoted identifier, or raw text */
+	value: string;
+	start: number;
+	end: number;
+}
+
+const FORBIDDEN_KEYWORDS = new Set([
+	'insert', 'update', 'delete', 'drop', 'alter', 'create', 'attach', 'detach', 'pragma',
+	'vacuum', 'reindex', 'analyze', 'begin', 'commit', 'rollback', 'savepoint', 'release',
+	'transaction', 'returning', 'trigger',
+]);
+
+const FORBIDDEN_FUNCTIONS = new Set(['load_extension', 'readfile', 'writefile', 'edit', 'fts3_tokenizer']);
+
+const KEYWORDS = new Set([
+	'select', 'from', 'where', 'group', 'by', 'having', 'order', 'limit', 'offset', 'as', 'on',
+	'using', 'join', 'inner', 'left', 'right', 'full', 'outer', 'cross', 'natural', 'and', 'or',
+	'not', 'in', 'is', 'null', 'like', 'glob', 'regexp', 'match', 'between', 'case', 'when',
+	'then', 'else', 'end', 'distinct', 'all', 'union', 'intersect', 'except', 'with', 'recursive',
+	'asc', 'desc', 'nulls', 'first', 'last', 'exists', 'cast', 'collate', 'escape', 'over',
+	'partition', 'filter', 'window', 'rows', 'range', 'groups', 'unbounded', 'preceding',
+	'following', 'current', 'row', 'exclude', 'ties', 'others', 'no', 'true', 'false',
+	'current_date', 'current_time', 'current_timestamp', 'materialized', 'values', 'replace',
+	'integer', 'int', 'real', 'text', 'numeric', 'blob', 'float', 'double', 'decimal', 'varchar',
+	'char', 'boolean',
+]);
+
+/**
+ * Validate a generated query and return a normalized copy with a LIMIT no
+ * larger than maxRows. Throws QueryRejectedError explaining the refusal.
+ */
+export function validateQuery(sql: string, maxRows: number = MAX_ROWS): ValidatedQuery {
+	const tokens = tokenize(sql);
+
+	while (tokens.length > 0 && isSymbol(tokens[tokens.length - 1], ';')) {
+		tokens.pop();
+	}
+	if (tokens.length === 0) {
+		throw new QueryRejectedError('empty', 'The generated query is empty.');
+	}
+	if (tokens.some(t => isSymbol(t, ';'))) {
+		throw new QueryRejectedError('multiple_statements', 'Only a single SQL statement is allowed.');
+	}
+	if (!isWord(tokens[0], 'select') && !isWord(tokens[0], 'with')) {
+		throw new QueryRejectedError('not_select', 'Only SELECT or WITH queries are allowed.');
+	}
+
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i];
+		if (token.kind === 'parameter') {
+			throw new QueryRejectedError('parameter', `Bound parameters are not supported (${token.value}).`);
+		}
+		if (token.kind !== 'word') continue;
+		if (FORBIDDEN_KEYWORDS.has(token.value)) {
+			throw new QueryRejectedError('forbidden_keyword', `${token.value.toUpperCase()} is not allowed in a read-only query.`);
+		}
+		if (token.value === 'replace' && !isSymbol(tokens[i + 1], '(')) {
+			throw new QueryRejectedError('forbidden_keyword', 'REPLACE is not allowed in a read-only query.');
+		}
+		if (FORBIDDEN_FUNCTIONS.has(token.value)) {
+			throw new QueryRejectedError('forbidden_function', `${token.value}() is not allowed.`);
+		}
+	}
+
+	const matches = matchParens(tokens);
+	const scope = collectNames(tokens, matches);
+	checkColumns(tokens, scope);
+	const { text, limit } = applyLimit(sql, tokens, maxRows);
+
+	return { sql: text, tables: [...scope.tables], limit };
+}
+
+interface Scope {
+	/** Base tables referenced by the query */
+	tables: Set<string>;
+	/** Alias or table name -> base table, or null for CTEs and subqueries */
+	sources: Map<string, string | null>;
+	/** Names introduced by the query itself (column aliases, CTE columns) */
+	aliases: Set<string>;
+	/** Token indexes already classified as table names or aliases */
+	consumed: Set<number>;
+}
+
+function collectNames(tokens: Token[], matches: number[]): Scope {
+	const scope: Scope = {
+		tables: new Set(),
+		sources: new Map(),
+		aliases: new Set(),
+		consumed: new Set(),
+	};
+
+	// CTE names have to be known before any FROM clause can refer to them.
+	for (let i = 0; i < tokens.length; i++) {
+		if (isWord(tokens[i], 'with')) parseCTEs(tokens, matches, i + 1, scope);
+	}
+
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i];
+		if (isWord(token, 'from')) {
+			parseFromList(tokens, matches, i + 1, scope, true);
+		} else if (isWord(token, 'join')) {
+			parseFromList(tokens, matches, i + 1, scope, false);
+		} else if (isWord(token, 'as') && isName(tokens[i + 1]) && !scope.consumed.has(i + 1)) {
+			scope.aliases.add(tokens[i + 1].value.toLowerCase());
+			scope.consumed.add(i + 1);
+		} else if (isImplicitAlias(tokens, i) && !scope.consumed.has(i)) {
+			scope.aliases.add(token.value.toLowerCase());
+			scope.consumed.add(i);
+		} else if (isWord(token, 'collate') && tokens[i + 1]) {
+			scope.consumed.add(i + 1);
+		}
+	}
+
+	return scope;
+}
+
+/**
+ * A column alias written without AS, as in "SUM(SO) total": a bare name
+ * right after a complete expression that ends a select-list entry
+ */
+function isImplicitAlias(tokens: Token[], i: number): boolean {
+	const previous = tokens[i - 1];
+	const next = tokens[i + 1];
+	const endsExpression = previous !== undefined && (
+		previous.kind === 'identifier' || previous.kind === 'number' || previous.kind === 'string'
+		|| isSymbol(previous, ')') || ['end', 'null', 'true', 'false'].some(word => isWord(previous, word))
+	);
+	const endsEntry = isSymbol(next, ',') || isWord(next, 'from');
+	return isName(tokens[i]) && endsExpression && endsEntry;
+}
+
+function parseCTEs(tokens: Token[], matches: number[], start: number, scope: Scope): void {
+	let i = start;
+	if (isWord(tokens[i], 'recursive')) i++;
+
+	while (isName(tokens[i])) {
+		scope.sources.set(tokens[i].value.toLowerCase(), null);
+		scope.consumed.add(i);
+		i++;
+
+		if (isSymbol(tokens[i], '(')) {
+			for (let j = i + 1; j < matches[i]; j++) {
+				if (isName(tokens[j])) {
+					scope.aliases.add(tokens[j].value.toLowerCase());
+					scope.consumed.add(j);
+				}
+			}
+			i = matches[i] + 1;
+		}
+
+		if (!isWord(tokens[i], 'as')) return;
+		i++;
+		if (isWord(tokens[i], 'not')) i++;
+		if (isWord(tokens[i], 'materialized')) i++;
+		if (!isSymbol(tokens[i], '(')) return;
+		i = matches[i] + 1;
+
+		if (!isSymbol(tokens[i], ',')) return;
+		i++;
+	}
+}
+
+function parseFromList(tokens: Token[], matches: number[], start: number, scope: Scope, allowCommas: boolean): void {
+	let i = start;
+
+	while (i < tokens.length) {
+		let base: string | null = null;
+
+		if (isSymbol(tokens[i], '(')) {
+			i = matches[i] + 1;
+		} else if (isName(tokens[i])) {
+			const name = tokens[i].value.toLowerCase();
+			if (isSymbol(tokens[i + 1], '.')) {
+				throw new QueryRejectedError('unknown_table', `Schema-qualified table names are not allowed (${name}).`);
+			}
+			if (isSymbol(tokens[i + 1], '(')) {
+				throw new QueryRejectedError('unknown_table', `Table-valued functions are not allowed (${name}).`);
+			}
+			if (Object.hasOwn(TABLE_COLUMNS, name)) {
+				base = name;
+				scope.tables.add(name);
+				scope.sources.set(name, name);
+			} else if (!scope.sources.has(name)) {
+				throw new QueryRejectedError('unknown_table', `Unknown table "${tokens[i].value}". Allowed tables: ${Object.keys(TABLE_COLUMNS).join(', ')}.`);
+			}
+			scope.consumed.add(i);
+			i++;
+		} else {
+			throw new QueryRejectedError('syntax', 'Expected a table name after FROM or JOIN.');
+		}
+
+		if (isWord(tokens[i], 'as')) i++;
+		if (isName(tokens[i])) {
+			scope.sources.set(tokens[i].value.toLowerCase(), base);
+			scope.consumed.add(i);
+			i++;
+		}
+
+		if (!allowCommas || !isSymbol(tokens[i], ',')) return;
+		i++;
+	}
+}
+
+function checkColumns(tokens: Token[], scope: Scope): void {
+	const hasDerived = [...scope.sources.values()].some(source => source === null);
+	const tables = hasDerived ? Object.keys(TABLE_COLUMNS) : [...scope.tables];
+	const visible = new Set<string>(scope.aliases);
+	for (const table of tables) {
+		for (const column of TABLE_COLUMNS[table]) visible.add(column.toLowerCase());
+	}
+
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i];
+		if (!isName(token) || scope.consumed.has(i)) continue;
+		if (isSymbol(tokens[i + 1], '(')) continue;
+
+		const name = token.value.toLowerCase();
+
+		if (isSymbol(tokens[i + 1], '.')) {
+			const column = tokens[i + 2];
+			if (!scope.sources.has(name)) {
+				throw new QueryRejectedError('unknown_table', `Unknown table or alias "${token.value}".`);
+			}
+			if (column && isName(column)) {
+				const base = scope.sources.get(name);
+				const known = base
+					? TABLE_COLUMNS[base].some(c => c.toLowerCase() === column.value.toLowerCase())
+					: visible.has(column.value.toLowerCase());
+				if (!known) {
+					throw new QueryRejectedError('unknown_column', `Unknown column "${token.value}.${column.value}"${base ? `; ${base} has: ${TABLE_COLUMNS[base].join(', ')}` : ''}.`);
+				}
+			}
+			i += 2;
+			continue;
+		}
+
+		if (!visible.has(name) && !scope.sources.has(name)) {
+			const hint = token.kind === 'identifier' ? ' Use single quotes for string literals.' : '';
+			throw new QueryRejectedError('unknown_column', `Unknown column "${token.value}".${hint}`);
+		}
+	}
+}
+
+function applyLimit(sql: string, tokens: Token[], maxRows: number): { text: string; limit: number } {
+	const body = sql.slice(tokens[0].start, tokens[tokens.length - 1].end);
+
+	let depth = 0;
+	for (let i = 0; i < tokens.length; i++) {
+		if (isSymbol(tokens[i], '(')) depth++;
+		if (isSymbol(tokens[i], ')')) depth--;
+		if (depth !== 0 || !isWord(tokens[i], 'limit')) continue;
+
+		// SQLite also accepts "LIMIT offset, count"
+		let countIndex = i + 1;
+		if (isSymbol(tokens[i + 2], ',')) countIndex = i + 3;
+		const count = tokens[countIndex];
+		if (!count || count.kind !== 'number' || !/^\d+$/.test(count.value)) {
+			throw new QueryRejectedError('invalid_limit', 'LIMIT must be a positive integer literal.');
+		}
+
+		const requested = parseInt(count.value, 10);
+		if (requested <= maxRows) {
+			return { text: `${body};`, limit: requested };
+		}
+		const offset = tokens[0].start;
+		const text = body.slice(0, count.start - offset) + String(maxRows) + body.slice(count.end - offset);
+		return { text: `${text};`, limit: maxRows };
+	}
+
+	return { text: `${body} LIMIT ${maxRows};`, limit: maxRows };
+}
+
+function matchParens(tokens: Token[]): number[] {
+	const matches: number[] = new Array(tokens.length).fill(-1);
+	const stack: number[] = [];
+
+	tokens.forEach((token, i) => {
+		if (isSymbol(token, '(')) {
+			stack.push(i);
+		} else if (isSymbol(token, ')')) {
+			const open = stack.pop();
+			if (open === undefined) {
+				throw new QueryRejectedError('syntax', 'Unbalanced parentheses.');
+			}
+			matches[open] = i;
+			matches[i] = open;
+		}
+	});
+
+	if (stack.length > 0) {
+		throw new QueryRejectedError('syntax', 'Unbalanced parentheses.');
+	}
+	return matches;
+}
+
+function tokenize(sql: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	while (i < sql.length) {
+		const ch = sql[i];
+
+		if (/\s/.test(ch)) {
+			i++;
+			continue;
+		}
+
+		if (ch === '-' && sql[i + 1] === '-') {
+			const newline = sql.indexOf('\n', i);
+			i = newline === -1 ? sql.length : newline + 1;
+			continue;
+		}
+
+		if (ch === '/' && sql[i + 1] === '*') {
+			const close = sql.indexOf('*/', i + 2);
+			if (close === -1) throw new QueryRejectedError('syntax', 'Unterminated comment.');
+			i = close + 2;
+			continue;
+		}
+
+		if (ch === "'") {
+			const end = readQuoted(sql, i, "'");
+			tokens.push({ kind: 'string', value: sql.slice(i, end), start: i, end });
+			i = end;
+			continue;
+		}
+
+		if (ch === '"' || ch === '`' || ch === '[') {
+			const close = ch === '[' ? ']' : ch;
+			const end = readQuoted(sql, i, close);
+			const inner = sql.slice(i + 1, end - 1).split(close + close).join(close);
+			tokens.push({ kind: 'identifier', value: inner, start: i, end });
+			i = end;
+			continue;
+		}
+
+		if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(sql[i + 1] ?? ''))) {
+			const match = /^(0x[0-9a-f]+|[0-9]*\.?[0-9]+(e[+-]?[0-9]+)?|[0-9]+\.)/i.exec(sql.slice(i))!;
+			const end = i + match[0].length;
+			if (/[\p{L}_]/u.test(sql[end] ?? '')) {
+				throw new QueryRejectedError('syntax', `Unexpected identifier "${sql.slice(i, end + 1)}"; quote identifiers that start with a digit.`);
+			}
+			tokens.push({ kind: 'number', value: match[0], start: i, end });
+			i = end;
+			continue;
+		}
+
+		if (/[\p{L}_]/u.test(ch)) {
+			const match = /^[\p{L}\p{N}_$]+/u.exec(sql.slice(i))!;
+			const end = i + match[0].length;
+			const lower = match[0].toLowerCase();
+			const isKeyword = KEYWORDS.has(lower) || FORBIDDEN_KEYWORDS.has(lower) || FORBIDDEN_FUNCTIONS.has(lower);
+			tokens.push({ kind: isKeyword ? 'word' : 'identifier', value: isKeyword ? lower : match[0], start: i, end });
+			i = end;
+			continue;
+		}
+
+		if (ch === '?' || ((ch === ':' || ch === '@' || ch === '$') && /[\p{L}_0-9]/u.test(sql[i + 1] ?? ''))) {
+			const match = /^[?:@$][\p{L}\p{N}_]*/u.exec(sql.slice(i))!;
+			tokens.push({ kind: 'parameter', value: match[0], start: i, end: i + match[0].length });
+			i += match[0].length;
+			continue;
+		}
+
+		tokens.push({ kind: 'symbol', value: ch, start: i, end: i + 1 });
+		i++;
+	}
+
+	return tokens;
+}
+
+function readQuoted(sql: string, start: number, close: string): number {
+	let i = start + 1;
+	while (i < sql.length) {
+		if (sql[i] === close) {
+			if (sql[i + 1] === close && close !== ']') {
+				i += 2;
+				continue;
+			}
+			return i + 1;
+		}
+		i++;
+	}
+	throw new QueryRejectedError('syntax', 'Unterminated quoted string or identifier.');
+}
+
+function isWord(token: Token | undefined, value: string): boolean {
+	return token !== undefined && token.kind === 'word' && token.value === value;
+}
+
+function isSymbol(token: Token | undefined, value: string): boolean {
+	return token !== undefined && token.kind === 'symbol' && token.value === value;
+}
+
+function isName(token: Token | undefined): token is Token {
+	return token !== undefined && token.kind === 'identifier';
+}
@@ -0,0 +1,53 @@
+/**
+ * Server-Sent Events helpers for /api/chat/stream
+ */
+
+/**
+ * Encode one SSE frame
+ */
+export function sseEvent(event: string, data: unknown): string {
+	return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Yield the text deltas from a Workers AI streaming response, which is itself
+ * an SSE stream of `data: {"response": "..."}` lines ending with `data: [DONE]`
+ */
+export async function* readAIStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+	for await (const data of readEventData(stream)) {
+		const { response } = data as { response?: string };
+		if (response) yield response;
+	}
+}
+
+/**
+ * Yield the parsed JSON payload of each `data:` line in an SSE stream, up to
+ * `data: [DONE]`
+ */
+export async function* readEventData(stream: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+	const reader = stream.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			buffer += decoder.decode(value, { stream: true });
+
+			const lines = buffer.split('\n');
+			buffer = lines.pop() || '';
+
+			for (const line of lines) {
+				if (!line.startsWith('data:')) continue;
+				const payload = line.slice(5).trim();
+				if (payload === '[DONE]') return;
+				if (!payload) continue;
+
+				yield JSON.parse(payload);
+			}
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
@@ -0,0 +1,64 @@
+/**
+ * Request tracing for the chat routes
+ * Each request gets an ID that is returned to the client (X-Request-ID and
+ * `requestId`) and stamped on every log line. Log lines are single JSON
+ * objects, so `wrangler tail --format json` and Workers Logs can filter on
+ * fields, and stage timings add up across repair attempts.
+ */
+
+export type TraceStage = 'resolve' | 'generate_sql' | 'execute_sql' | 'format_answer';
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+export class RequestTrace {
+	readonly id = crypto.randomUUID();
+	/** Milliseconds spent in each stage, summed over repeats */
+	readonly timings: Partial<Record<TraceStage, number>> = {};
+	private readonly startedAt = Date.now();
+
+	constructor(readonly route: string) {}
+
+	/**
+	 * Run one stage and add its duration to the stage's timing
+	 */
+	async time<T>(stage: TraceStage, run: () => Promise<T>): Promise<T> {
+		const stop = this.start(stage);
+		try {
+			return await run();
+		} finally {
+			stop();
+		}
+	}
+
+	/**
+	 * Start timing a stage that is not a single promise, such as a stream;
+	 * call the returned function when it ends
+	 */
+	start(stage: TraceStage): () => void {
+		const startedAt = Date.now();
+		return () => {
+			this.timings[stage] = (this.timings[stage] ?? 0) + Date.now() - startedAt;
+		};
+	}
+
+	elapsed(): number {
+		return Date.now() - this.startedAt;
+	}
+
+	log(event: string, fields: Record<string, unknown> = {}, level: LogLevel = 'info'): void {
+		const line = JSON.stringify({ level, event, requestId: this.id, route: this.route, ...fields });
+		if (level === 'error') console.error(line);
+		else if (level === 'warn') console.warn(line);
+		else console.log(line);
+	}
+}
+
+/**
+ * Error fields for a log line: the class name and message, not the stack
+ */
+export function describeError(error: unknown): { errorClass: string; error: string } {
+	if (error instanceof Error) {
+		return { errorClass: error.name, error: error.message };
+	}
+	return { errorClass: 'Error', error: String(error) };
+}